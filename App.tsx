@@ -1,38 +1,92 @@
 
 
-import React, { useState, useCallback, ChangeEvent, useEffect } from 'react';
+import React, { useState, useCallback, ChangeEvent, DragEvent, useEffect, useMemo } from 'react';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { APP_TITLE, APP_SUBTITLE, SUPPORTED_VENDORS_DATA, PIE_CHART_DATA, KEY_CONFIG_ELEMENTS_TO_PARSE, CORE_FEATURES_DATA, DATABASE_SCHEMA_DEVICES, DATABASE_SCHEMA_INTERFACES, DATABASE_SCHEMA_VLANS, DATABASE_SCHEMA_CONFLICTS, WORKFLOW_SEQUENCE_DIAGRAM_TEXT, ROADMAP_DATA, KEY_DIFFERENTIATORS_DATA, CONFLICT_DETECTION_EXAMPLES, GEMINI_TEXT_MODEL } from './constants';
-import { UploadedFile, ParsedConfigData, AnalysisFinding, VendorName, PieChartData } from './types';
-import { parseConfiguration } from './services/parserService';
-import { analyzeConfigurations } from './services/geminiService';
-import { initDB, saveFindings, getAllFindings, clearFindings } from './services/dbService';
+import { APP_TITLE, APP_SUBTITLE, SUPPORTED_VENDORS_DATA, PIE_CHART_DATA, KEY_CONFIG_ELEMENTS_TO_PARSE, CORE_FEATURES_DATA, DATABASE_SCHEMA_DEVICES, DATABASE_SCHEMA_INTERFACES, DATABASE_SCHEMA_VLANS, DATABASE_SCHEMA_CONFLICTS, WORKFLOW_SEQUENCE_DIAGRAM_TEXT, ROADMAP_DATA, KEY_DIFFERENTIATORS_DATA, CONFLICT_DETECTION_EXAMPLES, GEMINI_TEXT_MODEL, DEFAULT_POLICY_PACK } from './constants';
+import { UploadedFile, ParsedConfigData, AnalysisFinding, VendorName, PieChartData, FileParseStatus, AnalysisRun, PolicyPack, NeighborEntry } from './types';
+import { parseConfiguration, applyShowOutputFile } from './services/parserService';
+import { isShowOutputOnly } from './services/showOutputParser';
+import { analyzeConfigurations, isGeminiConfigured } from './services/geminiService';
+import { detectConflicts, getDeviceLabel } from './services/conflictDetector';
+import { auditConfigurations } from './services/securityAudit';
+import { parsePolicyPack, evaluatePolicyPacks, policyFindingsForDevice } from './services/policyEngine';
+import { buildChangeScript } from './services/remediation';
+import { exportToExcel, exportToCsvZip, downloadBlob } from './services/exportService';
+import { exportToPdf } from './services/pdfReportService';
+import { detectVendor } from './services/vendorDetector';
+import { parseNeighborOutput } from './services/topologyService';
+import { initDB, saveDevices, getAllDevices, deleteDevice, saveAnalysisRun, getAnalysisRuns, getFindingsForRun, clearAllData, savePolicyPack, getPolicyPacks, deletePolicyPack } from './services/dbService';
 import Section from './components/Section';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
 import ConfigurationReport from './components/ConfigurationReport';
 import FindingCard from './components/FindingCard';
+import ConfigDiffView from './components/ConfigDiffView';
+import IpamPanel from './components/IpamPanel';
+import TopologyPanel from './components/TopologyPanel';
 import FeatureCard from './components/FeatureCard';
 import VendorLogo from './components/VendorLogo';
 
-declare var jspdf: any;
-declare var htmlToImage: any;
+
+const ALL_CONFIG_EXTENSIONS = Array.from(new Set(SUPPORTED_VENDORS_DATA.flatMap(v => v.extensions)));
+
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+};
 
 const App: React.FC = () => {
-  const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
-  const [parsedConfig, setParsedConfig] = useState<ParsedConfigData | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [parseStatuses, setParseStatuses] = useState<Record<string, FileParseStatus>>({});
+  const [parsedConfigs, setParsedConfigs] = useState<ParsedConfigData[]>([]);
+  const [selectedConfigIndex, setSelectedConfigIndex] = useState<number>(0);
+  const [diffBaseIndex, setDiffBaseIndex] = useState<number | null>(null);
   const [analysisFindings, setAnalysisFindings] = useState<AnalysisFinding[]>([]);
+  const [analysisRuns, setAnalysisRuns] = useState<AnalysisRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [importedPolicyPacks, setImportedPolicyPacks] = useState<PolicyPack[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [currentVendor, setCurrentVendor] = useState<VendorName>(SUPPORTED_VENDORS_DATA[0].name);
   const [isDbReady, setIsDbReady] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [includeRawConfigInPdf, setIncludeRawConfigInPdf] = useState(false);
+  const [neighborEntries, setNeighborEntries] = useState<NeighborEntry[]>([]);
+
+  const parsedConfig: ParsedConfigData | null = parsedConfigs[selectedConfigIndex] || null;
+  const policyPacks = useMemo(() => [DEFAULT_POLICY_PACK, ...importedPolicyPacks], [importedPolicyPacks]);
+  const policyEvaluations = useMemo(() => parsedConfig ? evaluatePolicyPacks(policyPacks, parsedConfig) : [], [policyPacks, parsedConfig]);
+  const diffBaseConfig: ParsedConfigData | null = diffBaseIndex !== null && diffBaseIndex !== selectedConfigIndex ? parsedConfigs[diffBaseIndex] || null : null;
 
   useEffect(() => {
     const initializeApp = async () => {
         try {
             await initDB();
             setIsDbReady(true);
-            // Do not load previous findings to ensure a clean start
+            // Restore the device inventory and the most recent analysis run
+            const devices = await getAllDevices();
+            if (devices.length > 0) {
+                setUploadedFiles(devices.map(device => ({
+                    id: device.id,
+                    name: device.fileName || device.hostname,
+                    content: device.rawConfig,
+                    vendor: device.vendor,
+                    vendorSource: 'inventory',
+                })));
+                setParseStatuses(Object.fromEntries(devices.map(device => [device.id, { state: 'done' }])));
+                setParsedConfigs(devices.map(device => ({ ...device.parsed, deviceId: device.id })));
+            }
+            setImportedPolicyPacks(await getPolicyPacks());
+            const runs = await getAnalysisRuns();
+            setAnalysisRuns(runs);
+            if (runs.length > 0) {
+                setSelectedRunId(runs[0].id);
+                setAnalysisFindings(await getFindingsForRun(runs[0].id));
+            }
         } catch (e) {
             console.error("Failed to initialize database:", e);
             setError("Could not initialize local database.");
@@ -41,170 +95,316 @@ const App: React.FC = () => {
     initializeApp();
   }, []);
 
-  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setError(null);
-    setUploadedFile(null);
-    setParsedConfig(null);
+  const resetResults = () => {
+    setParsedConfigs([]);
+    setSelectedConfigIndex(0);
+    setDiffBaseIndex(null);
     setAnalysisFindings([]);
-    
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        const newFile: UploadedFile = {
-          id: `file-${Date.now()}`,
-          name: file.name,
-          content: content,
-          vendor: currentVendor,
+    setSelectedRunId(null);
+    setNeighborEntries([]);
+  };
+
+  const addFiles = async (fileList: FileList | null, filterByExtension: boolean) => {
+    setError(null);
+    if (!fileList || fileList.length === 0) return;
+
+    // Folders and drag-and-drop bring along everything, so keep only config-like files
+    const files = Array.from(fileList).filter(file =>
+      !filterByExtension || ALL_CONFIG_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))
+    );
+    if (files.length === 0) {
+      setError(`No configuration files found. Supported extensions: ${ALL_CONFIG_EXTENSIONS.join(', ')}`);
+      return;
+    }
+
+    try {
+      const newFiles: UploadedFile[] = await Promise.all(files.map(async (file, index) => {
+        const content = await readFileAsText(file);
+        const detection = detectVendor(content);
+        const confidence = Math.round(detection.confidence * 100);
+        // Only fall back to the manually selected vendor when the content is ambiguous
+        return {
+          id: `file-${Date.now()}-${index}`,
+          name: file.webkitRelativePath || file.name,
+          content,
+          vendor: detection.vendor || currentVendor,
+          vendorSource: detection.vendor ? 'detected' : 'manual',
+          detection,
+          // Show output is matched to a device by hostname, so its vendor does not matter
+          vendorWarning: isShowOutputOnly(content)
+            ? undefined
+            : !detection.vendor
+              ? `Vendor could not be detected reliably; using selected vendor ${currentVendor}.`
+              : detection.vendor !== currentVendor
+                ? `Detected ${detection.vendor} ${detection.os} (${confidence}% confidence) but ${currentVendor} is selected; parsing as ${detection.vendor}.`
+                : undefined,
         };
-        setUploadedFile(newFile);
-      };
-      reader.readAsText(file);
+      }));
+      resetResults();
+      setUploadedFiles(prev => [...prev, ...newFiles]);
+      setParseStatuses(prev => {
+        const next = { ...prev };
+        newFiles.forEach(f => { next[f.id] = { state: 'pending' }; });
+        return next;
+      });
+    } catch (err) {
+      console.error("Error reading files:", err);
+      setError(`Failed to read files: ${(err as Error).message}`);
     }
   };
 
-  const handleRemoveFile = () => {
-    setUploadedFile(null);
-    setParsedConfig(null);
-    setAnalysisFindings([]);
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>, filterByExtension = false) => {
+    await addFiles(event.target.files, filterByExtension);
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    await addFiles(event.dataTransfer.files, true);
+  };
+
+  const handleRemoveFile = async (fileId: string) => {
+    const removedFile = uploadedFiles.find(f => f.id === fileId);
+    setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
+    setParseStatuses(prev => {
+      const next = { ...prev };
+      delete next[fileId];
+      return next;
+    });
+    resetResults();
     setError(null);
+    if (isDbReady && removedFile) {
+      try {
+        // The device parsed from a file is stored under the file's ID
+        await deleteDevice(fileId);
+      } catch (err) {
+        console.error("Error removing device from inventory:", err);
+      }
+    }
   };
 
   const handleParseConfigs = useCallback(async () => {
-    if (!uploadedFile) {
-      setError("Please upload a configuration file first.");
+    if (uploadedFiles.length === 0) {
+      setError("Please upload at least one configuration file first.");
       return;
     }
     setIsLoading(true);
     setError(null);
-    setAnalysisFindings([]);
-    setParsedConfig(null);
+    resetResults();
 
+    let results: ParsedConfigData[] = [];
+    let failedCount = 0;
+    // Show output is merged into its device once every configuration is parsed
+    const showOutputFiles = uploadedFiles.filter(file => isShowOutputOnly(file.content));
+    for (const file of uploadedFiles.filter(f => !showOutputFiles.includes(f))) {
+      setParseStatuses(prev => ({ ...prev, [file.id]: { state: 'parsing' } }));
+      try {
+        const newParsedConfig = await parseConfiguration(file);
+        results.push(newParsedConfig);
+        setParseStatuses(prev => ({ ...prev, [file.id]: { state: 'done' } }));
+      } catch (err) {
+        console.error(`Error parsing configuration ${file.name}:`, err);
+        failedCount++;
+        setParseStatuses(prev => ({ ...prev, [file.id]: { state: 'error', error: (err as Error).message } }));
+      }
+    }
+
+    for (const file of showOutputFiles) {
+      try {
+        results = applyShowOutputFile(results, file);
+        setParseStatuses(prev => ({ ...prev, [file.id]: { state: 'done' } }));
+      } catch (err) {
+        console.error(`Error merging show output ${file.name}:`, err);
+        failedCount++;
+        setParseStatuses(prev => ({ ...prev, [file.id]: { state: 'error', error: (err as Error).message } }));
+      }
+    }
+
+    setParsedConfigs(results);
+    if (failedCount > 0) {
+      setError(`Failed to parse ${failedCount} of ${uploadedFiles.length} file(s). See the file list for details.`);
+    }
     try {
-      const newParsedConfig = await parseConfiguration(uploadedFile);
-      setParsedConfig(newParsedConfig);
+      if (isDbReady && results.length > 0) {
+        await saveDevices(results);
+      }
     } catch (err) {
-      console.error("Error parsing configuration:", err);
-      setError(`Failed to parse file: ${(err as Error).message}`);
-    } finally {
-      setIsLoading(false);
+      console.error("Error saving devices:", err);
     }
-  }, [uploadedFile]);
+    setIsLoading(false);
+  }, [uploadedFiles, isDbReady]);
 
   const handleRunAnalysis = useCallback(async () => {
-    if (!parsedConfig) { 
+    if (parsedConfigs.length === 0) {
       setError("Please parse a configuration file first.");
       return;
     }
     setIsLoading(true);
     setError(null);
+    // Deterministic per-device and cross-device checks run locally and never depend on Gemini
+    const localFindings = [
+      ...auditConfigurations(parsedConfigs),
+      ...parsedConfigs.flatMap(config => policyFindingsForDevice(policyPacks, config)),
+      ...detectConflicts(parsedConfigs),
+    ];
+    let aiFindings: AnalysisFinding[] = [];
     try {
-      const findings = await analyzeConfigurations([parsedConfig]);
-      setAnalysisFindings(findings);
-      if (isDbReady) {
-        await saveFindings(findings);
+      if (isGeminiConfigured()) {
+        aiFindings = await analyzeConfigurations(parsedConfigs, localFindings);
       }
     } catch (err) {
       console.error("Error detecting findings:", err);
-      setError(`Failed to run analysis: ${(err as Error).message}`);
+      setError(`AI analysis failed, showing local results only: ${(err as Error).message}`);
+    }
+    const findings = [...localFindings, ...aiFindings];
+    setAnalysisFindings(findings);
+    try {
+      if (isDbReady) {
+        const run = await saveAnalysisRun(parsedConfigs, findings);
+        setAnalysisRuns(prev => [run, ...prev]);
+        setSelectedRunId(run.id);
+      }
+    } catch (err) {
+      console.error("Error saving analysis run:", err);
     }
     setIsLoading(false);
-  }, [parsedConfig, isDbReady]);
+  }, [parsedConfigs, isDbReady, policyPacks]);
   
 
-  const handleExport = async (elementId: string, filename: string, orientation: 'p' | 'l' = 'p') => {
-    const reportElement = document.getElementById(elementId);
-    if (!reportElement) {
-        setError(`Could not find content with ID: ${elementId}`);
-        return;
+  const handleExportToPdf = () => {
+    if (!parsedConfig) {
+      setError("No report to export.");
+      return;
+    };
+    const filename = `NetConfig_Full_Report_${(parsedConfig.hostname || 'report').replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+    setError(null);
+    try {
+      exportToPdf(parsedConfig, analysisFindings, policyEvaluations, { includeRawConfig: includeRawConfigInPdf }, filename);
+    } catch (err) {
+      console.error("Failed to export to PDF:", err);
+      setError(`Failed to export to PDF. Error: ${(err as Error).message}`);
     }
-    
-    setIsLoading(true);
+  };
+
+  const handleNeighborImport = async (files: File[], localDevice: string) => {
     setError(null);
+    for (const file of files) {
+      try {
+        const entries = parseNeighborOutput(await readFileAsText(file), localDevice);
+        if (entries.length === 0) throw new Error('No CDP or LLDP neighbors found.');
+        setNeighborEntries(prev => [...prev, ...entries]);
+      } catch (err) {
+        console.error(`Error importing neighbors from ${file.name}:`, err);
+        setError(`Failed to import neighbors from ${file.name}: ${(err as Error).message}`);
+      }
+    }
+  };
 
-    try {
-        const dataUrl = await htmlToImage.toPng(reportElement, { 
-            quality: 0.98,
-            backgroundColor: '#111827',
-            pixelRatio: 2,
-        });
-        
-        const { jsPDF } = jspdf;
-        const pdf = new jsPDF({
-            orientation: orientation,
-            unit: 'pt',
-            format: 'a4'
-        });
-
-        const img = new Image();
-        img.src = dataUrl;
-        await new Promise((resolve, reject) => { 
-            img.onload = resolve;
-            img.onerror = reject;
-        });
-
-        const imgWidth = img.width;
-        const imgHeight = img.height;
-        
-        const pdfWidth = pdf.internal.pageSize.getWidth();
-        const pdfHeight = pdf.internal.pageSize.getHeight();
+  const handleSelectTopologyDevice = (index: number) => {
+    setSelectedConfigIndex(index);
+    document.getElementById('config-report')?.scrollIntoView({ behavior: 'smooth' });
+  };
 
-        const ratio = pdfWidth / imgWidth;
-        const scaledImgHeight = imgHeight * ratio;
+  const handleClearAll = async () => {
+    setUploadedFiles([]);
+    setParseStatuses({});
+    resetResults();
+    setError(null);
+    setAnalysisRuns([]);
+    if(isDbReady) {
+        await clearAllData();
+    }
+  };
 
-        let heightLeft = scaledImgHeight;
-        let position = 0;
+  const handleSelectRun = async (runId: string) => {
+    setSelectedRunId(runId);
+    try {
+      setAnalysisFindings(await getFindingsForRun(runId));
+    } catch (err) {
+      console.error("Error loading analysis run:", err);
+      setError("Could not load the selected analysis run.");
+    }
+  };
+  
+  const handleDownloadChangeScript = (config: ParsedConfigData) => {
+    const device = getDeviceLabel(config);
+    const script = buildChangeScript(config, device, analysisFindings);
+    downloadBlob(new Blob([script], { type: 'text/plain' }), `NetConfig_Change_Script_${device.replace(/[^a-zA-Z0-9]/g, '_')}.txt`);
+  };
 
-        pdf.addImage(dataUrl, 'PNG', 0, position, pdfWidth, scaledImgHeight);
-        heightLeft -= pdfHeight;
+  const getExportBaseName = () => {
+    const name = parsedConfigs.length > 1 ? `${parsedConfigs.length}_devices` : (parsedConfig?.hostname || 'report');
+    return `NetConfig_Report_${name.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  };
 
-        while (heightLeft > 0) {
-            position -= pdfHeight;
-            pdf.addPage();
-            pdf.addImage(dataUrl, 'PNG', 0, position, pdfWidth, scaledImgHeight);
-            heightLeft -= pdfHeight;
-        }
-        
-        pdf.save(filename);
-        
+  const handleExportToExcel = () => {
+    try {
+      exportToExcel(parsedConfigs, analysisFindings, `${getExportBaseName()}.xlsx`);
     } catch (err) {
-        console.error("Failed to export to PDF:", err);
-        setError(`Failed to export to PDF. Error: ${(err as Error).message}`);
-    } finally {
-        setIsLoading(false);
+      console.error("Error exporting workbook:", err);
+      setError(`Failed to export Excel workbook: ${(err as Error).message}`);
     }
   };
 
-  const handleExportToPdf = () => {
-    if (!parsedConfig) {
-      setError("No report to export.");
-      return;
-    };
-    const filename = `NetConfig_Full_Report_${(parsedConfig.hostname || 'report').replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
-    handleExport('full-report-container', filename, 'p');
+  const handleExportToCsvZip = async () => {
+    try {
+      await exportToCsvZip(parsedConfigs, analysisFindings, `${getExportBaseName()}_csv.zip`);
+    } catch (err) {
+      console.error("Error exporting CSV files:", err);
+      setError(`Failed to export CSV files: ${(err as Error).message}`);
+    }
   };
 
-  const handleClearAll = async () => {
-    setUploadedFile(null);
-    setParsedConfig(null);
-    setAnalysisFindings([]);
+  const remediableConfigs = parsedConfigs.filter(config =>
+    analysisFindings.some(f => f.remediation && f.devicesInvolved.includes(getDeviceLabel(config)))
+  );
+
+  const handlePolicyImport = async (event: ChangeEvent<HTMLInputElement>) => {
     setError(null);
-    if(isDbReady) {
-        await clearFindings();
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    for (const file of files) {
+      try {
+        const pack = parsePolicyPack(await readFileAsText(file));
+        if (pack.id === DEFAULT_POLICY_PACK.id) throw new Error(`Pack ID "${pack.id}" is reserved for the built-in baseline.`);
+        if (isDbReady) await savePolicyPack(pack);
+        setImportedPolicyPacks(prev => [...prev.filter(p => p.id !== pack.id), pack]);
+      } catch (err) {
+        console.error(`Error importing policy pack ${file.name}:`, err);
+        setError(`Failed to import policy pack ${file.name}: ${(err as Error).message}`);
+      }
     }
-    const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-    if(fileInput) fileInput.value = '';
   };
-  
+
+  const handleRemovePolicyPack = async (packId: string) => {
+    setImportedPolicyPacks(prev => prev.filter(p => p.id !== packId));
+    try {
+      if (isDbReady) await deletePolicyPack(packId);
+    } catch (err) {
+      console.error("Error deleting policy pack:", err);
+    }
+  };
+
   const handleVendorChange = (e: ChangeEvent<HTMLSelectElement>) => {
     setCurrentVendor(e.target.value as VendorName);
   };
 
+  const getParseStatusLabel = (status?: FileParseStatus) => {
+    switch (status?.state) {
+      case 'parsing': return <span className="text-xs text-sky-400">Parsing...</span>;
+      case 'done': return <span className="text-xs text-green-400">Parsed</span>;
+      case 'error': return <span className="text-xs text-red-400" title={status.error}>Failed: {status.error}</span>;
+      default: return <span className="text-xs text-light-text">Pending</span>;
+    }
+  };
+
+  const completedCount = uploadedFiles.filter(f => ['done', 'error'].includes(parseStatuses[f.id]?.state)).length;
+
   const renderFileUploadSection = () => (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
         <div>
-            <label htmlFor="vendor-select" className="block text-sm font-medium text-light-text mb-1">Select Vendor:</label>
+            <label htmlFor="vendor-select" className="block text-sm font-medium text-light-text mb-1">Select Vendor (used when auto-detection is ambiguous):</label>
             <select
                 id="vendor-select"
                 value={currentVendor}
@@ -215,27 +415,75 @@ const App: React.FC = () => {
             </select>
         </div>
         <div>
-            <label htmlFor="file-upload" className="block text-sm font-medium text-light-text mb-1">Upload Config File ({SUPPORTED_VENDORS_DATA.find(v => v.name === currentVendor)?.extensions.join(', ')}):</label>
-            <div className="flex items-center">
+            <label htmlFor="file-upload" className="block text-sm font-medium text-light-text mb-1">Upload Config Files ({SUPPORTED_VENDORS_DATA.find(v => v.name === currentVendor)?.extensions.join(', ')}):</label>
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border-2 border-dashed transition-colors ${isDragging ? 'border-brand-primary bg-brand-primary/10' : 'border-light-background'}`}
+            >
                 <label htmlFor="file-upload" className="cursor-pointer bg-brand-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-brand-secondary transition-colors">
                     Browse...
                 </label>
-                <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} accept={SUPPORTED_VENDORS_DATA.find(v => v.name === currentVendor)?.extensions.join(',')} />
-                <span className="ml-3 text-light-text">{uploadedFile ? `1 file selected.` : 'No file selected.'}</span>
+                <input id="file-upload" type="file" multiple className="hidden" onChange={(e) => handleFileChange(e)} accept={SUPPORTED_VENDORS_DATA.find(v => v.name === currentVendor)?.extensions.join(',')} />
+                <label htmlFor="folder-upload" className="cursor-pointer bg-light-background text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-light-background/70 transition-colors">
+                    Folder...
+                </label>
+                <input id="folder-upload" type="file" multiple className="hidden" onChange={(e) => handleFileChange(e, true)} {...{ webkitdirectory: '', directory: '' }} />
+                <span className="text-light-text text-sm">
+                    {uploadedFiles.length > 0 ? `${uploadedFiles.length} file(s) selected.` : 'No files selected. Drop files or a folder here.'}
+                </span>
             </div>
         </div>
-        {uploadedFile && (
+        {uploadedFiles.length > 0 && (
           <div className="md:col-span-2">
-            <h4 className="text-light-text font-semibold mb-2">Uploaded File:</h4>
-            <div className="flex items-center justify-between bg-light-background/60 p-2 rounded-md">
-                <div className="flex items-center gap-3">
-                  <VendorLogo vendor={uploadedFile.vendor} className="h-6 w-auto" />
-                  <span className="text-sm text-medium-text">{uploadedFile.name}</span>
-                </div>
-                <button onClick={handleRemoveFile} className="text-red-400 hover:text-red-600 font-bold text-lg">&times;</button>
+            <h4 className="text-light-text font-semibold mb-2">
+                Uploaded Files{isLoading && completedCount < uploadedFiles.length ? ` (parsing ${completedCount + 1} of ${uploadedFiles.length})` : ''}:
+            </h4>
+            <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                {uploadedFiles.map(file => (
+                    <div key={file.id} className="flex items-center justify-between bg-light-background/60 p-2 rounded-md">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <VendorLogo vendor={file.vendor} className="h-6 w-auto" />
+                          <div className="min-w-0">
+                            <span className="block text-sm text-medium-text truncate">{file.name}</span>
+                            <span className="block text-xs text-light-text">
+                              {file.vendor}{file.detection?.os && file.vendorSource === 'detected' ? ` ${file.detection.os}` : ''}
+                              {file.vendorSource === 'detected'
+                                ? ` · detected (${Math.round((file.detection?.confidence || 0) * 100)}% confidence)`
+                                : file.vendorSource === 'inventory' ? ' · restored from inventory' : ' · manually selected'}
+                            </span>
+                            {file.vendorWarning && <span className="block text-xs text-yellow-400">{file.vendorWarning}</span>}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0 ml-3">
+                          {getParseStatusLabel(parseStatuses[file.id])}
+                          <button onClick={() => handleRemoveFile(file.id)} disabled={isLoading} className="text-red-400 hover:text-red-600 font-bold text-lg disabled:text-gray-500">&times;</button>
+                        </div>
+                    </div>
+                ))}
             </div>
           </div>
         )}
+        <div className="md:col-span-2">
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+                <h4 className="text-light-text font-semibold">Compliance Policy Packs:</h4>
+                <label htmlFor="policy-upload" className="cursor-pointer bg-light-background text-dark-text text-sm font-bold py-1 px-3 rounded-lg hover:bg-light-background/70 transition-colors">
+                    Import JSON/YAML...
+                </label>
+                <input id="policy-upload" type="file" multiple className="hidden" onChange={handlePolicyImport} accept=".json,.yaml,.yml" />
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {policyPacks.map(pack => (
+                    <span key={pack.id} className="flex items-center gap-2 bg-light-background/60 text-sm text-medium-text py-1 px-3 rounded-full" title={pack.description}>
+                        {pack.name}{pack.version ? ` v${pack.version}` : ''} ({pack.rules.length} rules)
+                        {pack.id !== DEFAULT_POLICY_PACK.id && (
+                            <button onClick={() => handleRemovePolicyPack(pack.id)} disabled={isLoading} className="text-red-400 hover:text-red-600 font-bold disabled:text-gray-500">&times;</button>
+                        )}
+                    </span>
+                ))}
+            </div>
+        </div>
     </div>
   );
 
@@ -249,16 +497,35 @@ const App: React.FC = () => {
         <Section title="Import Config" className="bg-medium-background/80">
             {renderFileUploadSection()}
              <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
-                <button onClick={handleParseConfigs} disabled={isLoading || !uploadedFile} className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-brand-secondary transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
-                    {isLoading ? 'Parsing...' : 'Parse Configuration'}
+                <button onClick={handleParseConfigs} disabled={isLoading || uploadedFiles.length === 0} className="w-full bg-brand-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-brand-secondary transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                    {isLoading ? 'Parsing...' : `Parse Configuration${uploadedFiles.length > 1 ? 's' : ''}`}
                 </button>
-                <button onClick={handleRunAnalysis} disabled={isLoading || !parsedConfig} className="w-full bg-sky-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-sky-700 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                <button onClick={handleRunAnalysis} disabled={isLoading || parsedConfigs.length === 0} className="w-full bg-sky-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-sky-700 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
                     {isLoading ? 'Analyzing...' : 'Run Analysis'}
                 </button>
                 <button onClick={handleClearAll} disabled={isLoading} className="w-full bg-red-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
                     Clear All
                 </button>
             </div>
+            {analysisRuns.length > 0 && (
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <label htmlFor="run-select" className="text-sm font-medium text-light-text">Analysis History:</label>
+                    <select
+                        id="run-select"
+                        value={selectedRunId ?? ''}
+                        onChange={(e) => handleSelectRun(e.target.value)}
+                        disabled={isLoading}
+                        className="bg-light-background border border-medium-background/50 text-dark-text rounded-lg p-2 focus:ring-brand-primary focus:border-brand-primary"
+                    >
+                        {selectedRunId === null && <option value="">Select a previous run</option>}
+                        {analysisRuns.map(run => (
+                            <option key={run.id} value={run.id}>
+                                {new Date(run.timestamp).toLocaleString()} · {run.deviceIds.length} device(s) · {run.findingCount} finding(s)
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
         </Section>
 
         <ErrorMessage message={error || ''} />
@@ -267,23 +534,116 @@ const App: React.FC = () => {
 
         {parsedConfig && (
             <>
-                <div className="flex justify-end mb-4">
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    {parsedConfigs.length > 1 ? (
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="device-select" className="text-sm font-medium text-light-text">Device:</label>
+                            <select
+                                id="device-select"
+                                value={selectedConfigIndex}
+                                onChange={(e) => setSelectedConfigIndex(Number(e.target.value))}
+                                className="bg-light-background border border-medium-background/50 text-dark-text rounded-lg p-2 focus:ring-brand-primary focus:border-brand-primary"
+                            >
+                                {parsedConfigs.map((c, index) => (
+                                    <option key={`${c.fileName}-${index}`} value={index}>
+                                        {c.hostname || c.deviceInfo?.hostname || c.fileName} ({c.vendor})
+                                    </option>
+                                ))}
+                            </select>
+                            <span className="text-sm text-light-text">{parsedConfigs.length} devices parsed</span>
+                            <label htmlFor="diff-select" className="text-sm font-medium text-light-text ml-4">Compare with:</label>
+                            <select
+                                id="diff-select"
+                                value={diffBaseIndex ?? ''}
+                                onChange={(e) => setDiffBaseIndex(e.target.value === '' ? null : Number(e.target.value))}
+                                className="bg-light-background border border-medium-background/50 text-dark-text rounded-lg p-2 focus:ring-brand-primary focus:border-brand-primary"
+                            >
+                                <option value="">None</option>
+                                {parsedConfigs.map((c, index) => index !== selectedConfigIndex && (
+                                    <option key={`${c.fileName}-${index}`} value={index}>
+                                        {c.hostname || c.deviceInfo?.hostname || c.fileName} ({c.fileName})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    ) : <div />}
+                    <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={handleExportToExcel}
+                        className="bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-emerald-800 transition-colors disabled:bg-gray-500"
+                        disabled={isLoading}
+                    >
+                        Export to Excel
+                    </button>
+                    <button
+                        onClick={handleExportToCsvZip}
+                        className="bg-light-background text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-light-background/70 transition-colors disabled:bg-gray-500"
+                        disabled={isLoading}
+                    >
+                        Export CSV (zip)
+                    </button>
+                    <label className="flex items-center gap-2 text-sm text-light-text">
+                        <input
+                            type="checkbox"
+                            checked={includeRawConfigInPdf}
+                            onChange={(e) => setIncludeRawConfigInPdf(e.target.checked)}
+                            className="accent-brand-primary"
+                        />
+                        Include raw config appendix
+                    </label>
                     <button 
                         onClick={handleExportToPdf} 
                         className="bg-green-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-500" 
                         disabled={isLoading}
                     >
-                        {isLoading ? 'Exporting...' : (analysisFindings.length > 0 ? 'Export Full Report to PDF' : 'Export Report to PDF')}
+                        {analysisFindings.length > 0 ? 'Export Full Report to PDF' : 'Export Report to PDF'}
                     </button>
+                    </div>
                 </div>
                 
                 <div id="full-report-container">
-                    <Section title="Configuration Report">
-                        <ConfigurationReport config={parsedConfig} />
+                    <Section title="Configuration Report" id="config-report">
+                        <ConfigurationReport config={parsedConfig} policyEvaluations={policyEvaluations} />
                     </Section>
+
+                    {diffBaseConfig && (
+                        <Section title="Configuration Diff">
+                            <ConfigDiffView before={diffBaseConfig} after={parsedConfig} />
+                        </Section>
+                    )}
+
+                    <Section title="Network Topology">
+                        <TopologyPanel
+                            configs={parsedConfigs}
+                            neighbors={neighborEntries}
+                            onImportNeighbors={handleNeighborImport}
+                            onClearNeighbors={() => setNeighborEntries([])}
+                            onSelectDevice={handleSelectTopologyDevice}
+                        />
+                    </Section>
+
+                    {parsedConfigs.some(c => c.svis && c.svis.length > 0) && (
+                        <Section title="IP Address Management">
+                            <IpamPanel configs={parsedConfigs} />
+                        </Section>
+                    )}
         
                     {analysisFindings.length > 0 && (
                         <Section title="Configuration Analysis & Recommendations">
+                            {remediableConfigs.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2 mb-6">
+                                    <span className="text-sm font-medium text-light-text">Download change script with rollback:</span>
+                                    {remediableConfigs.map((config, index) => (
+                                        <button
+                                            key={`${config.fileName}-${index}`}
+                                            onClick={() => handleDownloadChangeScript(config)}
+                                            className="bg-light-background text-dark-text text-sm font-bold py-1 px-3 rounded-lg hover:bg-light-background/70 transition-colors"
+                                        >
+                                            {getDeviceLabel(config)}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                             {analysisFindings.map((finding) => (
                                 <FindingCard key={finding.id} finding={finding} />
                             ))}
@@ -297,7 +657,7 @@ const App: React.FC = () => {
             <Section title="System Architecture & Features">
                 <h3 className="text-xl font-semibold text-center text-dark-text mb-6">Core Features</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    <FeatureCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>} title="Configuration Ingestion" description="Upload a configuration file (.txt, .cfg, .log) from various vendors" />
+                    <FeatureCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>} title="Configuration Ingestion" description="Upload multiple configuration files (.txt, .cfg, .log) or whole folders from various vendors" />
                     <FeatureCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" /></svg>} title="Multi-Vendor Parsing Engine" description="Extracts structured data from raw configurations (interfaces, VLANs, routing, security, etc.)" />
                     <FeatureCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l4-4 4 4m0 6l-4 4-4-4" /></svg>} title="Data Normalization & Storage" description="Standardizes parsed data into a unified schema for analysis" />
                     <FeatureCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>} title="AI-Powered Analysis" description="Identifies discrepancies, security risks, and deviations from best practices" />
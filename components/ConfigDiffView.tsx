@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { ParsedConfigData, ConfigDiffEntry, UnifiedDiffLine } from '../types';
+import { diffParsedConfigs, diffRawConfigs } from '../services/configDiff';
+
+interface ConfigDiffViewProps {
+  before: ParsedConfigData;
+  after: ParsedConfigData;
+}
+
+// Unchanged lines kept around each change in the raw diff
+const CONTEXT_LINES = 3;
+
+const getChangeStyles = (change: ConfigDiffEntry['change']): string => {
+  switch (change) {
+    case 'added': return 'bg-green-500/80 text-white';
+    case 'removed': return 'bg-red-500/80 text-white';
+    default: return 'bg-orange-500/80 text-white';
+  }
+};
+
+const getLineStyles = (type: UnifiedDiffLine['type']): string => {
+  switch (type) {
+    case 'added': return 'bg-green-900/40 text-green-300';
+    case 'removed': return 'bg-red-900/40 text-red-300';
+    default: return 'text-medium-text';
+  }
+};
+
+// Drops long runs of unchanged lines, leaving null where lines were skipped
+const collapseContext = (lines: UnifiedDiffLine[]): (UnifiedDiffLine | null)[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === 'context') return;
+    for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(lines.length - 1, index + CONTEXT_LINES); i++) keep[i] = true;
+  });
+  const result: (UnifiedDiffLine | null)[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) result.push(line);
+    else if (result.length === 0 || result[result.length - 1] !== null) result.push(null);
+  });
+  return result;
+};
+
+const ConfigDiffView: React.FC<ConfigDiffViewProps> = ({ before, after }) => {
+  const entries = useMemo(() => diffParsedConfigs(before, after), [before, after]);
+  const rawDiff = useMemo(() => collapseContext(diffRawConfigs(before.rawConfig || '', after.rawConfig || '')), [before, after]);
+
+  const sections = Array.from(new Set(entries.map(e => e.section)));
+  const countOf = (change: ConfigDiffEntry['change']) => entries.filter(e => e.change === change).length;
+  const label = (config: ParsedConfigData) => config.hostname || config.fileName || 'Unknown';
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-light-text">
+        Comparing <strong className="text-dark-text">{label(before)}</strong> ({before.fileName}) to <strong className="text-dark-text">{label(after)}</strong> ({after.fileName}):{' '}
+        {countOf('added')} added, {countOf('removed')} removed, {countOf('changed')} changed.
+      </p>
+
+      {entries.length === 0 && <p className="text-center py-4 text-light-text">No differences in the parsed sections.</p>}
+
+      {sections.map(section => (
+        <div key={section}>
+          <h3 className="text-lg font-semibold text-dark-text mb-2">{section}</h3>
+          <div className="overflow-x-auto rounded-lg border border-light-background">
+            <table className="min-w-full divide-y divide-light-background">
+              <thead className="bg-light-background/80">
+                <tr>
+                  {['Item', 'Change', 'Before', 'After'].map(header => (
+                    <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-brand-primary uppercase tracking-wider">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-medium-background/70 divide-y divide-light-background">
+                {entries.filter(e => e.section === section).map((entry, index) => (
+                  <tr key={`${entry.key}-${index}`} className="hover:bg-light-background/50">
+                    <td className="px-4 py-3 text-sm font-mono text-dark-text">{entry.key}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`text-xs font-bold px-2 py-1 rounded-full ${getChangeStyles(entry.change)}`}>{entry.change}</span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-pre-wrap text-xs font-mono text-red-300">{entry.before}</td>
+                    <td className="px-4 py-3 whitespace-pre-wrap text-xs font-mono text-green-300">{entry.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+
+      <details>
+        <summary className="cursor-pointer text-light-text hover:text-brand-primary text-sm">Show Raw Unified Diff</summary>
+        <pre className="mt-2 p-2 bg-dark-background rounded text-xs overflow-auto max-h-96 border border-light-background">
+          {rawDiff.map((line, index) => line === null ? (
+            <div key={index} className="text-light-text">...</div>
+          ) : (
+            <div key={index} className={getLineStyles(line.type)}>
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} {line.text}
+            </div>
+          ))}
+        </pre>
+      </details>
+    </div>
+  );
+};
+
+export default ConfigDiffView;
@@ -1,9 +1,13 @@
 
 
-import React, { ReactNode } from 'react';
-import { ParsedConfigData, VendorName } from '../types';
+import React, { ReactNode, useState } from 'react';
+import { ParsedConfigData, VendorName, PolicyEvaluation, PolicyRuleResult } from '../types';
 import Section from './Section';
 import VendorLogo from './VendorLogo';
+import { describeSviIpv6, formatAddressCount } from '../services/parserUtils';
+import { describeAclMatch } from '../services/aclAnalysis';
+import { findUnreachableNextHops } from '../services/routingAnalysis';
+import { describePortVlans, describePortAddress, findPortsInVlan, findTrunksNotAllowingVlan, groupPortRanges } from '../services/interfaceAnalysis';
 
 const SimpleTable: React.FC<{ headers: string[], data: (string | number | ReactNode)[][] }> = ({ headers, data }) => (
   <div className="overflow-x-auto rounded-lg border border-light-background">
@@ -59,46 +63,176 @@ const RawConfigViewer: React.FC<{ title: string, configs: (string[] | undefined)
 };
 
 
-const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config }) => {
+const getPolicyStatusStyles = (status: PolicyRuleResult['status']): string => {
+    switch (status) {
+        case 'pass': return 'bg-green-500/80 text-white';
+        case 'fail': return 'bg-red-500/80 text-white';
+        default: return 'bg-gray-500/80 text-white';
+    }
+};
+
+const PolicyEvaluationTable: React.FC<{ evaluation: PolicyEvaluation }> = ({ evaluation }) => {
+    const applicable = evaluation.results.filter(r => r.status !== 'not-applicable');
+    const passed = applicable.filter(r => r.status === 'pass').length;
+    return (
+        <div className="mt-6">
+            <h4 className="text-lg font-semibold text-dark-text mb-2">
+                {evaluation.packName} <span className="text-sm font-normal text-light-text">({passed}/{applicable.length} rules passed)</span>
+            </h4>
+            <SimpleTable
+                headers={["Rule", "Result", "Severity", "Failures", "Remediation"]}
+                data={evaluation.results.map(r => [
+                    <span title={r.description}><span className="font-mono">{r.ruleId}</span><br />{r.description}</span>,
+                    <span className={`text-xs font-bold px-2 py-1 rounded-full whitespace-nowrap ${getPolicyStatusStyles(r.status)}`}>{r.status === 'not-applicable' ? 'N/A' : r.status.toUpperCase()}</span>,
+                    r.severity,
+                    r.failures.join('\n'),
+                    r.status === 'fail' ? <pre className="text-xs font-mono">{r.remediation}</pre> : '',
+                ])}
+            />
+        </div>
+    );
+};
+
+const VlanLookup: React.FC<{ config: ParsedConfigData }> = ({ config }) => {
+    const [vlanId, setVlanId] = useState('');
+    const id = vlanId.trim();
+    const valid = /^\d+$/.test(id);
+    const members = valid ? findPortsInVlan(config, id) : [];
+    const excludingTrunks = valid ? findTrunksNotAllowingVlan(config, id) : [];
+    const vlan = (config.vlans || []).find(v => v.id === id);
+    return (
+        <div className="mt-6">
+            <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1">VLAN Lookup</h4>
+            <div className="flex items-center gap-3 mb-3">
+                <label htmlFor="vlan-lookup" className="text-sm text-light-text">VLAN ID:</label>
+                <input
+                    id="vlan-lookup"
+                    type="text"
+                    inputMode="numeric"
+                    value={vlanId}
+                    onChange={(e) => setVlanId(e.target.value)}
+                    placeholder="e.g. 30"
+                    className="w-28 bg-light-background border border-medium-background/50 text-dark-text rounded-lg p-2 focus:ring-brand-primary focus:border-brand-primary"
+                />
+                {valid && <span className="text-sm text-light-text">{vlan ? vlan.name : 'Not defined on this device'}</span>}
+            </div>
+            {valid && (
+                <ul className="space-y-1">
+                    <DetailItem label="Ports in VLAN" value={members.map(m => m.role === 'access' ? m.port : `${m.port} (${m.role})`).join(', ') || 'None'} />
+                    <DetailItem label="Trunks not allowing it" value={excludingTrunks.map(p => p.port).join(', ') || 'None'} />
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const ParserCoverage: React.FC<{ config: ParsedConfigData }> = ({ config }) => {
+    const diagnostics = config.diagnostics!;
+    const unmatched = new Set(diagnostics.unmatchedLines.map(l => l.lineNumber).filter(n => n !== undefined));
+    const unnumbered = diagnostics.unmatchedLines.filter(l => l.lineNumber === undefined);
+    const coverageColor = diagnostics.coverage >= 90 ? 'text-green-400' : diagnostics.coverage >= 70 ? 'text-yellow-400' : 'text-red-400';
+
+    return (
+        <>
+            <ul className="space-y-2">
+                <DetailItem label="Coverage" value={<span className={`font-bold ${coverageColor}`}>{diagnostics.coverage}%</span>} />
+                <DetailItem label="Lines Read" value={`${diagnostics.totalLines - diagnostics.unmatchedLines.length} of ${diagnostics.totalLines}`} />
+                <DetailItem label="Unparsed Top-Level Blocks" value={diagnostics.unparsedBlocks.length} />
+            </ul>
+            {diagnostics.warnings.length > 0 && (
+                <>
+                    <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">Warnings</h4>
+                    <ul className="list-disc list-inside text-yellow-400 space-y-1">
+                        {diagnostics.warnings.map((warning, i) => <li key={i}>{warning.lineNumber ? `Line ${warning.lineNumber}: ` : ''}{warning.message}</li>)}
+                    </ul>
+                </>
+            )}
+            {diagnostics.unparsedBlocks.length > 0 && (
+                <>
+                    <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">Unparsed Blocks</h4>
+                    <SimpleTable headers={["Line", "Command", "Lines"]} data={diagnostics.unparsedBlocks.map(b => [b.lineNumber ?? '-', b.header, b.lineCount])} />
+                </>
+            )}
+            {unmatched.size > 0 && config.rawConfig && (
+                <details className="mt-4">
+                    <summary className="cursor-pointer text-light-text hover:text-brand-primary text-sm">Show Raw Configuration with Unread Lines Highlighted</summary>
+                    <pre className="mt-2 p-2 bg-dark-background rounded text-xs overflow-auto max-h-96 text-medium-text border border-light-background">
+                        {config.rawConfig.split(/\r?\n/).map((line, i) => (
+                            <div key={i} className={unmatched.has(i + 1) ? 'bg-yellow-500/20 text-yellow-300' : ''}>
+                                <span className="select-none text-light-text mr-3">{String(i + 1).padStart(4)}</span>{line}
+                            </div>
+                        ))}
+                    </pre>
+                </details>
+            )}
+            {unnumbered.length > 0 && (
+                <RawConfigViewer title="Show Unread Statements" configs={[unnumbered.map(l => l.line)]} />
+            )}
+        </>
+    );
+};
+
+const ConfigurationReport: React.FC<{ config: ParsedConfigData, policyEvaluations?: PolicyEvaluation[] }> = ({ config, policyEvaluations = [] }) => {
+    const [groupRanges, setGroupRanges] = useState(true);
     if (!config || !config.vendor) return <div className="text-center p-8">No configuration data to display.</div>;
 
     const allPorts = config.ports || [];
-    // A port is considered "configured" if its config array has more than just the `interface...` line and the closing `!`
-    const configuredPorts = allPorts.filter(p => p.config && p.config.length > 2);
+    // A port is considered "configured" if its config has more than the `interface...` line and separators
+    const configuredPorts = allPorts.filter(p => p.config && p.config.filter(line => !/^[!#]$/.test(line.trim())).length > 1);
     const unconfiguredPortsCount = allPorts.length - configuredPorts.length;
+    const displayedPorts = groupRanges ? groupPortRanges(configuredPorts) : configuredPorts;
+    // Extra columns only when show output was uploaded with the config
+    const hasLinkState = allPorts.some(p => p.linkStatus);
+    const hasVlanMembership = (config.vlans || []).some(v => v.ports);
+    const unreachableNextHops = findUnreachableNextHops(config);
 
     const reportContent = (
         <>
-            {/* --- RENDER LOGIC FOR DETAILED CISCO PARSED DATA --- */}
-            {config.vendor === VendorName.CISCO && config.hostname ? (
+            {/* --- RENDER LOGIC FOR DETAILED LOCALLY PARSED DATA --- */}
+            {config.hostname ? (
                 <div className="space-y-6">
                     <Section title="Device Information">
                         <div className="flex items-center gap-4">
                             <VendorLogo vendor={config.vendor} className="h-12 w-auto" />
                             <div>
                                 <h3 className="text-2xl font-bold text-dark-text">{config.hostname}</h3>
-                                <p className="text-sm text-light-text">{config.vendor}</p>
+                                <p className="text-sm text-light-text">{config.vendor}{config.osDialect ? ` ${config.osDialect}` : ''}</p>
                             </div>
                         </div>
                         <ul className="space-y-1 text-medium-text mt-4 border-t border-light-background pt-4">
-                            <DetailItem label="iOS Version" value={config.iosVersion} />
+                            <DetailItem label={config.vendor === VendorName.CISCO ? `${config.osDialect === 'NX-OS' ? 'NX-OS' : 'iOS'} Version` : "OS Version"} value={config.iosVersion} />
                             <DetailItem label="Model Number" value={config.modelNumber} />
+                            <DetailItem label="Serial Number" value={config.serialNumber} />
+                            <DetailItem label="Uptime" value={config.uptime} />
+                            <DetailItem label="Last Reload Reason" value={config.operational?.lastReloadReason} />
+                            <DetailItem label="Enabled Features" value={config.features?.join(', ')} />
+                            <DetailItem label="Show Output" value={config.operational?.commands.join(', ')} />
                         </ul>
+                        {config.operational && config.operational.inventory.length > 0 && (
+                            <>
+                                <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">Inventory</h4>
+                                <SimpleTable headers={["Name", "Description", "PID", "Serial"]} data={config.operational.inventory.map(i => [i.name, i.description, i.pid || '-', i.serial || '-'])} />
+                            </>
+                        )}
                     </Section>
                     <Section title="VLANs and Names">
-                        <SimpleTable headers={["VLAN ID", "Name"]} data={config.vlans?.map(v => [v.id, v.name]) || []} />
+                        {hasVlanMembership ? (
+                            <SimpleTable headers={["VLAN ID", "Name", "Status", "Ports"]} data={config.vlans?.map(v => [v.id, v.name, v.status || '-', v.ports?.join(', ') || '-']) || []} />
+                        ) : (
+                            <SimpleTable headers={["VLAN ID", "Name"]} data={config.vlans?.map(v => [v.id, v.name]) || []} />
+                        )}
                         <RawConfigViewer title="Show Raw VLAN Configs" configs={config.vlans?.map(v => v.rawConfig) || []} />
                     </Section>
                     {config.ipRanges && config.ipRanges.length > 0 && (
                         <Section title="Available IP Ranges">
                             <SimpleTable 
-                                headers={["VLAN", "Network Address", "Usable IP Range", "Broadcast", "Subnet Mask", "Gateway", "Total IPs", "Usable IPs"]} 
-                                data={config.ipRanges.map(r => [r.vlanId, r.network, r.usableRange, r.broadcast, r.subnetMask, r.gateway, r.totalAddresses, r.usableAddresses])} 
+                                headers={["VLAN", "Network Address", "Usable IP Range", "Broadcast", "Subnet Mask / Prefix", "Gateway", "Total IPs", "Usable IPs"]} 
+                                data={config.ipRanges.map(r => [r.vlanId, r.network, r.usableRange, r.broadcast, r.subnetMask, r.gateway, formatAddressCount(r, r.totalAddresses), formatAddressCount(r, r.usableAddresses)])} 
                             />
                         </Section>
                     )}
                     <Section title="SVIs and Assigned IPs">
-                        <SimpleTable headers={["SVI", "IP Address", "Subnet Mask", "IP Helper-Address", "Status", "Additional Info"]} data={config.svis?.map(s => [s.svi, s.ipAddress, s.subnetMask, s.ipHelperAddress, s.status, s.additionalInfo]) || []} />
+                        <SimpleTable headers={["SVI", "IP Address", "Subnet Mask", "IPv6", "IP Helper-Address", "Status", "Additional Info"]} data={config.svis?.map(s => [s.svi, s.ipAddress, s.subnetMask, describeSviIpv6(s) || '-', s.ipHelperAddress, s.status, s.additionalInfo]) || []} />
                         <RawConfigViewer title="Show Raw SVI Configs" configs={config.svis?.map(s => s.rawConfig) || []} />
                     </Section>
                     <Section title="Uplinks and Port Channels">
@@ -137,23 +271,124 @@ const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config })
                             </div>
                         </div>
                     </Section>
+                    {config.vpc && (
+                        <Section title="vPC Domain">
+                            <ul className="space-y-1 mb-4">
+                                <DetailItem label="Domain ID" value={config.vpc.domainId} />
+                                <DetailItem label="Role Priority" value={config.vpc.rolePriority} />
+                                <DetailItem label="System Priority" value={config.vpc.systemPriority} />
+                                <DetailItem label="Peer-Link" value={config.vpc.peerLink || 'Not configured'} />
+                                <DetailItem label="Peer-Keepalive" value={config.vpc.peerKeepalive
+                                    ? `${config.vpc.peerKeepalive.destination}${config.vpc.peerKeepalive.source ? ` (source ${config.vpc.peerKeepalive.source})` : ''}${config.vpc.peerKeepalive.vrf ? ` vrf ${config.vpc.peerKeepalive.vrf}` : ''}`
+                                    : 'Not configured'} />
+                                <DetailItem label="Peer-Gateway" value={config.vpc.peerGateway ? 'Enabled' : 'Disabled'} />
+                            </ul>
+                            <SimpleTable headers={["vPC ID", "Port-Channel"]} data={config.vpc.memberPortChannels.map(m => [m.vpcId, m.portChannel])} />
+                            <RawConfigViewer title="Show Raw vPC Config" configs={[config.vpc.rawConfig]} />
+                        </Section>
+                    )}
                     <Section title="Port Configurations">
-                        <SimpleTable 
-                            headers={["Port(s)", "Type", "Description", "Status", "Members"]} 
-                            data={configuredPorts.map(p => [p.port, p.type, p.description, p.status, p.members.join(', ')])} 
-                        />
+                        <label className="flex items-center gap-2 mb-3 text-sm text-light-text cursor-pointer">
+                            <input type="checkbox" checked={groupRanges} onChange={(e) => setGroupRanges(e.target.checked)} className="accent-brand-primary" />
+                            Group consecutive ports with identical configuration into ranges
+                        </label>
+                        {hasLinkState ? (
+                            <SimpleTable
+                                headers={["Port(s)", "Type", "Description", "Status", "Link", "Speed / Duplex", "VLANs", "IP Address", "Members"]}
+                                data={displayedPorts.map(p => [p.port, p.type, p.description, p.status, p.linkStatus || '-', [p.speed, p.duplex].filter(Boolean).join(' / ') || '-', describePortVlans(p) || '-', describePortAddress(p) || '-', p.members.join(', ')])}
+                            />
+                        ) : (
+                            <SimpleTable 
+                                headers={["Port(s)", "Type", "Description", "Status", "VLANs", "IP Address", "Members"]} 
+                                data={displayedPorts.map(p => [p.port, p.type, p.description, p.status, describePortVlans(p) || '-', describePortAddress(p) || '-', p.members.join(', ')])} 
+                            />
+                        )}
                         {unconfiguredPortsCount > 0 && (
                             <p className="text-right text-sm text-light-text mt-2 italic">
                                 And {unconfiguredPortsCount} other port(s) with default configuration.
                             </p>
                         )}
-                        <RawConfigViewer title="Show Raw Configs for Listed Ports" configs={configuredPorts.map(p => p.config)} />
+                        <RawConfigViewer title="Show Raw Configs for Listed Ports" configs={displayedPorts.map(p => p.config)} />
+                        {allPorts.some(p => p.mode === 'access' || p.mode === 'trunk' || p.mode === 'hybrid') && <VlanLookup config={config} />}
                     </Section>
-                    <Section title="Routing Information">
+                    <Section title="Routing">
                          <ul className="space-y-1">
                             <DetailItem label="Default Gateway" value={config.routing?.defaultGateway || 'Not configured'} />
                             <DetailItem label="Default Route" value={config.routing?.defaultRoute || 'Not configured'} />
                         </ul>
+                        {config.routing?.staticRoutes && config.routing.staticRoutes.length > 0 && (
+                            <>
+                                <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">Static Routes</h4>
+                                <SimpleTable
+                                    headers={["VRF", "Prefix", "Next Hop", "Interface", "AD", "Name", "Tag", "Track"]}
+                                    data={config.routing.staticRoutes.map(r => [
+                                        r.vrf || 'global',
+                                        `${r.prefix} ${r.mask}`,
+                                        r.nextHop ? (
+                                            unreachableNextHops.some(u => u.rawConfig === r.rawConfig)
+                                                ? <span className="text-red-400" title="Not in any connected subnet of this VRF">{r.nextHop} (not connected)</span>
+                                                : r.nextHop
+                                        ) : '-',
+                                        r.interface || '-',
+                                        r.distance ?? '-',
+                                        r.name || '-',
+                                        r.tag || '-',
+                                        `${r.track || '-'}${r.permanent ? ' (permanent)' : ''}`,
+                                    ])}
+                                />
+                            </>
+                        )}
+                        {config.routing?.ipv6StaticRoutes && config.routing.ipv6StaticRoutes.length > 0 && (
+                            <>
+                                <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">IPv6 Static Routes</h4>
+                                <SimpleTable headers={["Prefix", "Next Hop", "Interface"]} data={config.routing.ipv6StaticRoutes.map(r => [r.prefix, r.nextHop || '-', r.interface || '-'])} />
+                            </>
+                        )}
+                        {config.eigrp?.map(eigrp => (
+                            <div key={eigrp.process}>
+                                <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">EIGRP {eigrp.process}</h4>
+                                <ul className="space-y-1">
+                                    <DetailItem label="AS Number" value={eigrp.asNumber} />
+                                    <DetailItem label="VRF" value={eigrp.vrf} />
+                                    <DetailItem label="Router ID" value={eigrp.routerId} />
+                                    <DetailItem label="Networks" value={eigrp.networks.map(n => n.wildcard ? `${n.network} ${n.wildcard}` : n.network).join(', ')} />
+                                    <DetailItem label="Interfaces" value={eigrp.interfaces.join(', ')} />
+                                    <DetailItem label="Passive Interfaces" value={eigrp.passiveInterfaces.join(', ')} />
+                                    <DetailItem label="Redistribute" value={eigrp.redistribute.join(', ')} />
+                                </ul>
+                                <RawConfigViewer title="Show Raw EIGRP Config" configs={[eigrp.rawConfig]} />
+                            </div>
+                        ))}
+                        {config.bgp && (
+                            <>
+                                <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1 mt-4">BGP AS {config.bgp.asNumber}</h4>
+                                <ul className="space-y-1 mb-4">
+                                    <DetailItem label="Router ID" value={config.bgp.routerId} />
+                                </ul>
+                                <SimpleTable
+                                    headers={["Neighbor", "VRF", "Remote AS", "Description", "Update Source", "Peer Group", "Route-map In / Out", "Address Families"]}
+                                    data={config.bgp.neighbors.map(n => [
+                                        `${n.address}${n.isPeerGroup ? ' (peer group)' : ''}${n.shutdown ? ' (shutdown)' : ''}`,
+                                        n.vrf || 'global',
+                                        n.remoteAs || '-',
+                                        n.description || '-',
+                                        n.updateSource || '-',
+                                        n.peerGroup || '-',
+                                        `${n.routeMapIn || '-'} / ${n.routeMapOut || '-'}`,
+                                        n.addressFamilies.join(', ') || '-',
+                                    ])}
+                                />
+                                {config.bgp.addressFamilies.length > 0 && (
+                                    <div className="mt-4">
+                                        <SimpleTable
+                                            headers={["Address Family", "Networks", "Redistribute"]}
+                                            data={config.bgp.addressFamilies.map(af => [af.name, af.networks.join('\n') || '-', af.redistribute.join('\n') || '-'])}
+                                        />
+                                    </div>
+                                )}
+                                <RawConfigViewer title="Show Raw BGP Config" configs={[config.bgp.rawConfig]} />
+                            </>
+                        )}
                     </Section>
                     <Section title="OSPF Configuration">
                         {config.ospf?.status === 'Configured' ? (
@@ -188,11 +423,44 @@ const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config })
                         ) : <p className="text-light-text">Not configured</p>}
                         <RawConfigViewer title="Show Raw OSPF Config" configs={[config.ospf?.rawConfig]} />
                     </Section>
+                    {config.ospfv3?.status === 'Configured' && (
+                        <Section title="OSPFv3 Configuration">
+                            <ul className="space-y-2 mb-4">
+                                <DetailItem label="Process ID" value={config.ospfv3.processId} />
+                                <DetailItem label="Router ID" value={config.ospfv3.routerId} />
+                                <DetailItem label="Passive Interfaces" value={config.ospfv3.passiveInterfaces.join(', ') || 'None'} />
+                            </ul>
+                            <SimpleTable headers={["Interface", "Area"]} data={config.ospfv3.interfaces.map(i => [i.iface, i.area])} />
+                            <RawConfigViewer title="Show Raw OSPFv3 Config" configs={[config.ospfv3.rawConfig]} />
+                        </Section>
+                    )}
+                    {config.accessLists && config.accessLists.length > 0 && (
+                        <Section title="Access Lists">
+                            {config.accessLists.map(acl => {
+                                const bindings = (config.aclBindings || []).filter(b => b.acl === acl.name);
+                                return (
+                                    <div key={acl.name} className="mb-6">
+                                        <h4 className="font-semibold text-dark-text mb-2 border-b border-light-background pb-1">
+                                            {acl.name} <span className="text-sm font-normal text-light-text">({acl.numbered ? 'numbered' : 'named'} {acl.type}) - {bindings.length > 0 ? `applied to ${bindings.map(b => `${b.target}${b.direction ? ` ${b.direction}` : ''}`).join(', ')}` : 'not applied'}</span>
+                                        </h4>
+                                        <SimpleTable
+                                            headers={acl.type === 'extended' ? ["Seq", "Action", "Protocol", "Source", "Destination", "Options"] : ["Seq", "Action", "Source", "Options"]}
+                                            data={acl.entries.map(e => acl.type === 'extended'
+                                                ? [e.sequence ?? '-', e.action, e.protocol, describeAclMatch(e.source, e.sourcePort), describeAclMatch(e.destination, e.destinationPort), e.options.join(' ') || '-']
+                                                : [e.sequence ?? '-', e.action, describeAclMatch(e.source), e.options.join(' ') || '-'])}
+                                        />
+                                    </div>
+                                );
+                            })}
+                            <RawConfigViewer title="Show Raw ACL Configs" configs={config.accessLists.map(acl => acl.rawConfig)} />
+                        </Section>
+                    )}
                     <Section title="Security Compliance">
                          <ul className="space-y-2">
                             <li><strong className="text-green-400">Present:</strong> {config.security?.present.join(', ') || 'None'}</li>
                             <li><strong className="text-yellow-400">Missing (Recommended):</strong> {config.security?.missing.join(', ') || 'None'}</li>
                         </ul>
+                        {policyEvaluations.map(evaluation => <PolicyEvaluationTable key={evaluation.packId} evaluation={evaluation} />)}
                     </Section>
                     <Section title="DHCP, DNS, AAA, SNMP">
                          <ul className="space-y-4">
@@ -221,6 +489,11 @@ const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config })
                         />
                         <RawConfigViewer title="Show Raw Line Configs" configs={config.connections?.map(c => c.config) || []} />
                     </Section>
+                    {config.diagnostics && (
+                        <Section title="Parser Coverage">
+                            <ParserCoverage config={config} />
+                        </Section>
+                    )}
                     <Section title="Raw Configuration (Full)">
                          <details>
                             <summary className="cursor-pointer text-sm text-light-text hover:text-brand-primary">Show Full Raw Configuration</summary>
@@ -231,7 +504,7 @@ const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config })
                     </Section>
                 </div>
             ) : (
-                // --- FALLBACK RENDER FOR GEMINI-PARSED DATA ---
+                // --- FALLBACK RENDER FOR LEGACY GEMINI-PARSED DATA ---
                 <Section title="Configuration Summary">
                     <div className="flex items-center gap-4 mb-4">
                         <VendorLogo vendor={config.vendor} className="h-12 w-auto" />
@@ -240,7 +513,7 @@ const ConfigurationReport: React.FC<{ config: ParsedConfigData }> = ({ config })
                             <p className="text-sm text-light-text">{config.vendor}</p>
                         </div>
                     </div>
-                    <p className="text-light-text mb-4">This is a summary view. Detailed reporting is available for Cisco configs.</p>
+                    <p className="text-light-text mb-4">This is a summary view. Detailed reporting is available for configs handled by the local parsers.</p>
                     <pre className="p-4 bg-medium-background/70 rounded-lg text-sm text-medium-text overflow-auto">
                         {JSON.stringify({
                             deviceInfo: config.deviceInfo,
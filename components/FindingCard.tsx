@@ -1,6 +1,6 @@
 
 
-import React from 'react';
+import React, { useState } from 'react';
 import { AnalysisFinding } from '../types';
 
 interface FindingCardProps {
@@ -8,6 +8,9 @@ interface FindingCardProps {
 }
 
 const FindingCard: React.FC<FindingCardProps> = ({ finding }) => {
+  const [showRollback, setShowRollback] = useState(false);
+  const [copied, setCopied] = useState(false);
+
   const getSeverityStyles = (severity: string): { border: string; bg: string; text: string; titleText: string } => {
     switch (severity?.toLowerCase()) {
       case 'critical': return { border: 'border-red-600', bg: 'bg-red-900/40', text: 'text-red-300', titleText: 'text-red-400' };
@@ -29,6 +32,17 @@ const FindingCard: React.FC<FindingCardProps> = ({ finding }) => {
   }
 
   const styles = getSeverityStyles(finding.severity);
+  const snippetLines = finding.remediation ? (showRollback ? finding.remediation.rollback : finding.remediation.commands) : [];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippetLines.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy remediation snippet:", err);
+    }
+  };
 
   return (
     <div className={`p-4 rounded-lg shadow-lg mb-4 border-l-4 ${styles.border} ${styles.bg}`}>
@@ -64,6 +78,26 @@ const FindingCard: React.FC<FindingCardProps> = ({ finding }) => {
       <div className="mt-3 pt-3 border-t border-white/10">
          <p className="font-medium text-dark-text mb-1 text-sm text-green-400">Recommendation:</p>
          <p className="text-sm text-green-200">{finding.recommendation}</p>
+         {finding.remediation && (
+           <div className="mt-3">
+             <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+               <p className="font-medium text-dark-text text-sm">
+                 {showRollback ? 'Rollback' : 'Remediation'} ({finding.remediation.platform}):
+               </p>
+               <div className="flex gap-2">
+                 <button onClick={() => setShowRollback(!showRollback)} className="text-xs bg-light-background text-dark-text px-2 py-1 rounded hover:bg-light-background/70">
+                   {showRollback ? 'Show Remediation' : 'Show Rollback'}
+                 </button>
+                 <button onClick={handleCopy} className="text-xs bg-brand-primary text-white px-2 py-1 rounded hover:bg-brand-secondary">
+                   {copied ? 'Copied!' : 'Copy'}
+                 </button>
+               </div>
+             </div>
+             <pre className="p-2 bg-dark-background/70 rounded text-xs overflow-auto max-h-60 text-green-200 border border-light-background font-mono">
+               {snippetLines.join('\n')}
+             </pre>
+           </div>
+         )}
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+import React, { ReactNode, useMemo } from 'react';
+import { ParsedConfigData, IpamPrefix, IpamSupernet } from '../types';
+import { buildIpamReport } from '../services/ipamService';
+
+interface IpamPanelProps {
+  configs: ParsedConfigData[];
+}
+
+const IpamTable: React.FC<{ headers: string[], rows: ReactNode[][], emptyText: string }> = ({ headers, rows, emptyText }) => (
+  <div className="overflow-x-auto rounded-lg border border-light-background">
+    <table className="min-w-full divide-y divide-light-background">
+      <thead className="bg-light-background/80">
+        <tr>
+          {headers.map(header => (
+            <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-brand-primary uppercase tracking-wider">{header}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="bg-medium-background/70 divide-y divide-light-background">
+        {rows.map((row, rowIndex) => (
+          <tr key={rowIndex} className="hover:bg-light-background/50">
+            {row.map((cell, cellIndex) => (
+              <td key={cellIndex} className="px-4 py-3 whitespace-pre-wrap text-sm text-medium-text">{cell}</td>
+            ))}
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr><td colSpan={headers.length} className="text-center py-4 text-light-text">{emptyText}</td></tr>
+        )}
+      </tbody>
+    </table>
+  </div>
+);
+
+const describePrefix = (prefix: IpamPrefix) => `${prefix.cidr} (${prefix.device} ${prefix.source} ${prefix.name})`;
+
+const Issues: React.FC<{ issues: string[] }> = ({ issues }) => issues.length === 0
+  ? <span className="text-green-400">OK</span>
+  : <span className="text-yellow-400">{issues.join('\n')}</span>;
+
+// Proportional bar of the supernet: used subnets in blue, free space in grey
+const SupernetBar: React.FC<{ supernet: IpamSupernet }> = ({ supernet }) => {
+  const size = supernet.prefix.end - supernet.prefix.start + 1;
+  const position = (start: number, end: number) => ({
+    left: `${((start - supernet.prefix.start) / size) * 100}%`,
+    width: `max(2px, ${((end - start + 1) / size) * 100}%)`,
+  });
+  return (
+    <div className="relative h-6 rounded bg-light-background overflow-hidden border border-light-background">
+      {supernet.used.map((p, index) => (
+        <div key={`${p.cidr}-${index}`} title={describePrefix(p)} className="absolute top-0 h-full bg-brand-primary/80 border-r border-dark-background" style={position(p.start, p.end)} />
+      ))}
+    </div>
+  );
+};
+
+const IpamPanel: React.FC<IpamPanelProps> = ({ configs }) => {
+  const report = useMemo(() => buildIpamReport(configs), [configs]);
+
+  return (
+    <div className="space-y-8">
+      <p className="text-sm text-light-text">
+        {report.prefixes.length} prefixes from {configs.length} device(s): SVI subnets, DHCP pools, static routes and OSPF network statements.
+      </p>
+
+      <div>
+        <h3 className="text-lg font-semibold text-dark-text mb-2">Overlapping Subnets</h3>
+        <IpamTable
+          headers={['Prefix A', 'Prefix B', 'Kind']}
+          rows={report.overlaps.map(o => [describePrefix(o.a), describePrefix(o.b), o.kind === 'identical' ? 'Same subnet' : 'Overlap'])}
+          emptyText="No overlapping SVI subnets, DHCP pools or static routes."
+        />
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-dark-text mb-2">DHCP Pools</h3>
+        <IpamTable
+          headers={['Device', 'Pool', 'Network', 'Default Router', 'Matching SVI', 'Issues']}
+          rows={report.dhcpPools.map(p => [p.device, p.pool, p.network || '-', p.defaultRouter || '-', p.matchingSvi || '-', <Issues issues={p.issues} />])}
+          emptyText="No DHCP pools configured."
+        />
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-dark-text mb-2">DHCP Relay (Helper) Targets</h3>
+        <IpamTable
+          headers={['Device', 'SVI', 'Subnet', 'Helper Address', 'Helper Hosted By', 'Serving Pool']}
+          rows={report.helpers.map(h => [h.device, h.svi, h.subnet || '-', h.helper, h.hostedBy || 'Not a loaded device', h.servingPool || 'No loaded pool for this subnet'])}
+          emptyText="No SVIs relay DHCP requests."
+        />
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-dark-text mb-2">Free Space in Supernets</h3>
+        {report.supernets.length === 0 && <p className="text-light-text">No summarized supernets found.</p>}
+        <div className="space-y-6">
+          {report.supernets.map(supernet => (
+            <div key={supernet.prefix.cidr} className="bg-medium-background/70 rounded-lg border border-light-background p-4">
+              <div className="flex flex-wrap justify-between gap-2 mb-2">
+                <span className="font-mono text-dark-text">{supernet.prefix.cidr}</span>
+                <span className="text-sm text-light-text">
+                  {supernet.prefix.source === 'Derived' ? 'Derived from SVI subnets' : `${supernet.prefix.device} ${supernet.prefix.source} (${supernet.prefix.name})`} - {supernet.utilization}% used
+                </span>
+              </div>
+              <SupernetBar supernet={supernet} />
+              <p className="text-xs text-light-text mt-2">
+                <span className="font-semibold text-medium-text">Used:</span> {supernet.used.map(p => p.cidr).filter((cidr, index, all) => all.indexOf(cidr) === index).join(', ') || 'None'}
+              </p>
+              <p className="text-xs text-light-text mt-1">
+                <span className="font-semibold text-medium-text">Free:</span> {supernet.free.map(b => b.cidr).join(', ') || 'None'}
+                {supernet.omittedFreeBlocks > 0 && ` and ${supernet.omittedFreeBlocks} more`}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IpamPanel;
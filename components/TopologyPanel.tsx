@@ -0,0 +1,167 @@
+import React, { ChangeEvent, PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { ParsedConfigData, NeighborEntry, TopologyLink, TopologyLinkSource } from '../types';
+import { buildTopology, layoutTopology } from '../services/topologyService';
+import { getDeviceLabel } from '../services/conflictDetector';
+
+interface TopologyPanelProps {
+  configs: ParsedConfigData[];
+  neighbors: NeighborEntry[];
+  onImportNeighbors: (files: File[], localDevice: string) => void;
+  onClearNeighbors: () => void;
+  onSelectDevice: (configIndex: number) => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 560;
+const NODE_WIDTH = 120;
+const NODE_HEIGHT = 36;
+
+// Strongest evidence first; a link is drawn in the colour of its best source
+const SOURCE_COLORS: [TopologyLinkSource, string][] = [
+  ['CDP', '#38bdf8'],
+  ['LLDP', '#a78bfa'],
+  ['Shared subnet', '#34d399'],
+  ['Port-channel', '#fbbf24'],
+  ['Description', '#f87171'],
+];
+
+const linkColor = (link: TopologyLink) => SOURCE_COLORS.find(([source]) => link.via.includes(source))?.[1] || '#9ca3af';
+
+const portLabel = (port?: string, members?: string[]) => port ? `${port}${members?.length ? ` (${members.join(', ')})` : ''}` : '';
+
+const TopologyPanel: React.FC<TopologyPanelProps> = ({ configs, neighbors, onImportNeighbors, onClearNeighbors, onSelectDevice }) => {
+  const graph = useMemo(() => buildTopology(configs, neighbors), [configs, neighbors]);
+  const [positions, setPositions] = useState<Record<string, { x: number, y: number }>>({});
+  const [localDevice, setLocalDevice] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ id: string, moved: boolean } | null>(null);
+
+  useEffect(() => {
+    setPositions(layoutTopology(graph, WIDTH, HEIGHT));
+  }, [graph]);
+
+  const toSvgPoint = (event: PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: Math.min(WIDTH - NODE_WIDTH / 2, Math.max(NODE_WIDTH / 2, point.x)), y: Math.min(HEIGHT - NODE_HEIGHT / 2, Math.max(NODE_HEIGHT / 2, point.y)) };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+    const point = toSvgPoint(event);
+    if (!point) return;
+    const id = drag.current.id;
+    drag.current.moved = true;
+    setPositions(prev => ({ ...prev, [id]: point }));
+  };
+
+  // A click without a drag opens the device's report
+  const handlePointerUp = (configIndex?: number) => {
+    if (drag.current && !drag.current.moved && configIndex !== undefined) onSelectDevice(configIndex);
+    drag.current = null;
+  };
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) onImportNeighbors(files, localDevice || getDeviceLabel(configs[0]));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="neighbor-device" className="text-sm font-medium text-light-text">Output without a prompt is from:</label>
+        <select
+          id="neighbor-device"
+          value={localDevice}
+          onChange={(e) => setLocalDevice(e.target.value)}
+          className="bg-light-background border border-medium-background/50 text-dark-text rounded-lg p-2 focus:ring-brand-primary focus:border-brand-primary"
+        >
+          {configs.map((config, index) => (
+            <option key={`${config.fileName}-${index}`} value={getDeviceLabel(config)}>{getDeviceLabel(config)}</option>
+          ))}
+        </select>
+        <label htmlFor="neighbor-upload" className="cursor-pointer bg-light-background text-dark-text text-sm font-bold py-1 px-3 rounded-lg hover:bg-light-background/70 transition-colors">
+          Import CDP/LLDP output...
+        </label>
+        <input id="neighbor-upload" type="file" multiple className="hidden" onChange={handleImport} accept=".txt,.log" />
+        {neighbors.length > 0 && (
+          <button onClick={onClearNeighbors} className="text-sm text-red-400 hover:text-red-600">
+            Clear {neighbors.length} neighbor entr{neighbors.length === 1 ? 'y' : 'ies'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-light-text">
+        {SOURCE_COLORS.map(([source, color]) => (
+          <span key={source} className="flex items-center gap-1">
+            <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: color }} /> {source}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-3 rounded border border-dashed border-gray-400" /> Not uploaded
+        </span>
+      </div>
+
+      <div className="rounded-lg border border-light-background bg-dark-background/40 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => handlePointerUp()}
+          onPointerLeave={() => handlePointerUp()}
+        >
+          {graph.links.map((link, index) => {
+            const a = positions[link.source], b = positions[link.target];
+            if (!a || !b) return null;
+            const color = linkColor(link);
+            return (
+              <g key={`${link.source}-${link.target}-${index}`}>
+                <title>{`${link.via.join(', ')}\n${link.details.join('\n')}`}</title>
+                <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={color} strokeWidth={link.sourceMembers || link.targetMembers ? 4 : 2} />
+                <text x={a.x + (b.x - a.x) * 0.28} y={a.y + (b.y - a.y) * 0.28 - 4} fill="#e5e7eb" fontSize="11" textAnchor="middle">{portLabel(link.sourcePort, link.sourceMembers)}</text>
+                <text x={a.x + (b.x - a.x) * 0.72} y={a.y + (b.y - a.y) * 0.72 - 4} fill="#e5e7eb" fontSize="11" textAnchor="middle">{portLabel(link.targetPort, link.targetMembers)}</text>
+              </g>
+            );
+          })}
+          {graph.nodes.map(node => {
+            const position = positions[node.id];
+            if (!position) return null;
+            const uploaded = node.configIndex !== undefined;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${position.x - NODE_WIDTH / 2}, ${position.y - NODE_HEIGHT / 2})`}
+                className={uploaded ? 'cursor-pointer' : 'cursor-move'}
+                onPointerDown={(e) => { e.stopPropagation(); drag.current = { id: node.id, moved: false }; }}
+                onPointerUp={(e) => { e.stopPropagation(); handlePointerUp(node.configIndex); }}
+              >
+                <title>{uploaded ? `${node.label} (${node.vendor}) - click to open its report` : `${node.label} - not uploaded`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  fill={uploaded ? '#1f2937' : '#111827'}
+                  stroke={uploaded ? '#f97316' : '#9ca3af'}
+                  strokeDasharray={uploaded ? undefined : '4 3'}
+                  strokeWidth={2}
+                />
+                <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2 + 4} fill={uploaded ? '#f3f4f6' : '#9ca3af'} fontSize="12" fontWeight="bold" textAnchor="middle">
+                  {node.label.length > 16 ? `${node.label.slice(0, 15)}…` : node.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <p className="text-xs text-light-text">
+        {graph.nodes.length} device(s), {graph.links.length} link(s). Links are inferred from shared point-to-point subnets, interface descriptions naming another device, port-channel membership and imported CDP/LLDP neighbors. Drag devices to rearrange; hover a link to see its evidence.
+      </p>
+    </div>
+  );
+};
+
+export default TopologyPanel;
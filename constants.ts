@@ -1,6 +1,6 @@
 
 
-import { VendorName, SupportedVendor, PieChartData } from './types';
+import { VendorName, SupportedVendor, PieChartData, PolicyPack } from './types';
 
 export const APP_TITLE = "NetConfig Analyzer";
 export const APP_SUBTITLE = "Automated analysis and conflict detection for diverse network device configurations";
@@ -32,7 +32,7 @@ export const KEY_CONFIG_ELEMENTS_TO_PARSE: string[] = [
 ];
 
 export const CORE_FEATURES_DATA = [
-  { module: "Configuration Ingestion", functionality: "Upload multiple configuration files (.txt, .cfg, .log) from various vendors", vendors: "Cisco IOS/NX-OS, Huawei VRP, Juniper Junos, H3C Comware" },
+  { module: "Configuration Ingestion", functionality: "Upload multiple configuration files (.txt, .cfg, .log) from various vendors, plus Cisco show output (version, inventory, interfaces status, ip interface brief, vlan brief)", vendors: "Cisco IOS/NX-OS, Huawei VRP, Juniper Junos, H3C Comware" },
   { module: "Multi-Vendor Parsing Engine", functionality: "Extracts structured data from raw configurations (interfaces, VLANs, routing, security, etc.)", vendors: "Cisco, Huawei, Juniper, H3C" },
   { module: "Data Normalization & Storage", functionality: "Standardizes parsed data into a unified schema for cross-vendor comparison", vendors: "All supported vendors" },
   { module: "Conflict Detection & Analysis", functionality: "Identifies discrepancies and potential conflicts across multiple configurations (e.g., overlapping IPs, mismatched VLANs, inconsistent security policies)", vendors: "Cross-vendor" },
@@ -118,4 +118,24 @@ export const CONFLICT_DETECTION_EXAMPLES = [
     "Identify SVIs with overlapping IP subnets across devices",
     "Detect inconsistencies in VLAN IDs or names across devices",
     "Flag differences in critical security settings (e.g. SNMP, AAA)"
-];
\ No newline at end of file
+];
+
+// Built-in baseline, evaluated alongside any imported policy packs
+export const DEFAULT_POLICY_PACK: PolicyPack = {
+  id: "builtin-cisco-baseline",
+  name: "Cisco IOS Baseline",
+  version: "1.0",
+  description: "Hardening baseline equivalent to the checks the Cisco parser reports under security compliance.",
+  rules: [
+    { id: "CIS-GLOBAL-001", description: "Password encryption enabled", severity: "High", scope: "global", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^service password-encryption$"], remediation: "service password-encryption" },
+    { id: "CIS-GLOBAL-002", description: "SSH version 2 enabled", severity: "High", scope: "global", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^ip ssh version 2$"], remediation: "ip ssh version 2" },
+    { id: "CIS-GLOBAL-003", description: "HTTP and HTTPS servers disabled", severity: "Medium", scope: "global", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^no ip http server$", "^no ip http secure-server$"], remediation: "no ip http server\nno ip http secure-server" },
+    { id: "CIS-GLOBAL-004", description: "VTP mode off or transparent", severity: "Medium", scope: "global", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^vtp mode (off|transparent)$"], remediation: "vtp mode off" },
+    { id: "CIS-GLOBAL-005", description: "DHCP snooping enabled", severity: "Low", scope: "global", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^ip dhcp snooping$"], remediation: "ip dhcp snooping\nip dhcp snooping vlan <user-vlans>" },
+    { id: "CIS-VTY-001", description: "VTY lines accept SSH only", severity: "High", scope: "line-vty", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^transport input ssh$"], forbidden: ["^transport input .*(telnet|all)"], remediation: "transport input ssh" },
+    { id: "CIS-VTY-002", description: "VTY lines restricted by an access-class", severity: "Medium", scope: "line-vty", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^access-class \\S+ in"], remediation: "access-class <mgmt-acl> in" },
+    { id: "CIS-INT-001", description: "Port security on access ports", severity: "Medium", scope: "interface", interfaceMode: "access", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^switchport port-security$"], remediation: "switchport port-security\nswitchport port-security maximum 2" },
+    { id: "CIS-INT-002", description: "BPDU guard on access ports", severity: "Medium", scope: "interface", interfaceMode: "access", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^spanning-tree bpduguard enable$"], remediation: "spanning-tree portfast\nspanning-tree bpduguard enable" },
+    { id: "CIS-SVI-001", description: "Proxy ARP disabled on SVIs", severity: "Low", scope: "svi", vendors: [VendorName.CISCO], os: ["IOS"], required: ["^no ip proxy-arp$"], remediation: "no ip proxy-arp" },
+  ],
+};
@@ -0,0 +1,201 @@
+import { ParsedConfigData, AccessList, AclAddress, AclBinding, AclEntry, AclPortMatch } from '../types';
+import { ipToLong, isIPv4, prefixToMask, maskToWildcard } from './ipUtils';
+
+// Cisco port keywords, so "eq www" and "eq 80" compare equal
+const PORT_NUMBERS: Record<string, number> = {
+    echo: 7, discard: 9, daytime: 13, chargen: 19, 'ftp-data': 20, ftp: 21, ssh: 22, telnet: 23, smtp: 25, time: 37,
+    nameserver: 42, whois: 43, tacacs: 49, domain: 53, bootps: 67, bootpc: 68, tftp: 69, gopher: 70, finger: 79, www: 80,
+    http: 80, hostname: 101, pop2: 109, pop3: 110, sunrpc: 111, ident: 113, nntp: 119, ntp: 123, 'netbios-ns': 137,
+    'netbios-dgm': 138, 'netbios-ss': 139, snmp: 161, snmptrap: 162, xdmcp: 177, bgp: 179, irc: 194, ldap: 389, https: 443,
+    'mobile-ip': 434, 'pim-auto-rp': 496, isakmp: 500, biff: 512, exec: 512, login: 513, who: 513, cmd: 514, syslog: 514,
+    lpd: 515, talk: 517, rip: 520, uucp: 540, klogin: 543, kshell: 544, 'citrix-ica': 1494, ctiqbe: 2748, drip: 3949,
+    'non500-isakmp': 4500,
+};
+
+const PROTOCOL_NAMES: Record<string, string> = { '1': 'icmp', '6': 'tcp', '17': 'udp', '47': 'gre', '50': 'esp', '89': 'ospf' };
+
+// Options that only log and never narrow what an entry matches
+const NON_MATCHING_OPTIONS = ['log', 'log-input'];
+
+const PORT_OPERATORS = ['eq', 'neq', 'lt', 'gt', 'range'];
+
+const isPortToken = (token: string | undefined) => token !== undefined && (/^\d+$/.test(token) || PORT_NUMBERS[token] !== undefined);
+
+/** Standard or extended, from the number of a numbered ACL; null for MAC and other ACL ranges. */
+export const aclTypeForNumber = (name: string): AccessList['type'] | null => {
+    const number = Number(name);
+    if ((number >= 1 && number <= 99) || (number >= 1300 && number <= 1999)) return 'standard';
+    if ((number >= 100 && number <= 199) || (number >= 2000 && number <= 2699)) return 'extended';
+    return null;
+};
+
+/**
+ * Parses one ACL entry, either the body of a named ACL ("10 permit tcp any host 10.1.1.1 eq 443")
+ * or what follows "access-list <number>". Returns null for remarks and anything that is not a rule.
+ */
+export const parseAclEntry = (text: string, type: AccessList['type'], rawConfig: string): AclEntry | null => {
+    const tokens = text.trim().split(/\s+/);
+    let index = 0;
+    const sequence = /^\d+$/.test(tokens[0]) ? Number(tokens[index++]) : undefined;
+    const action = tokens[index++];
+    if (action !== 'permit' && action !== 'deny') return null;
+    const protocol = type === 'standard' ? 'ip' : tokens[index++];
+    if (!protocol) return null;
+
+    const readAddress = (): AclAddress | null => {
+        const token = tokens[index];
+        if (token === 'any') {
+            index++;
+            return { any: true, text: 'any' };
+        }
+        if ((token === 'host' || token === 'object-group' || token === 'addrgroup') && tokens[index + 1]) {
+            index += 2;
+            const value = tokens[index - 1];
+            return token === 'host' ? { host: value, text: `host ${value}` } : { objectGroup: value, text: `${token} ${value}` };
+        }
+        if (/^\d+\.\d+\.\d+\.\d+\/\d+$/.test(token || '')) {
+            index++;
+            const [network, length] = token.split('/');
+            return { network, wildcard: maskToWildcard(prefixToMask(Number(length))), text: token };
+        }
+        if (token && isIPv4(token)) {
+            index++;
+            if (tokens[index] && isIPv4(tokens[index])) {
+                const wildcard = tokens[index++];
+                return { network: token, wildcard, text: `${token} ${wildcard}` };
+            }
+            // A standard ACL entry without a wildcard matches a single host
+            return { host: token, text: token };
+        }
+        return null;
+    };
+
+    const readPorts = (): AclPortMatch | undefined => {
+        const operator = tokens[index] as AclPortMatch['operator'];
+        if (!PORT_OPERATORS.includes(operator) || !tokens[index + 1]) return undefined;
+        index++;
+        const ports = operator === 'range' ? [tokens[index++], tokens[index++]] : [tokens[index++]];
+        // IOS accepts several ports after eq/neq
+        while ((operator === 'eq' || operator === 'neq') && isPortToken(tokens[index])) ports.push(tokens[index++]);
+        return { operator, ports: ports.filter(Boolean) };
+    };
+
+    const source = readAddress();
+    if (!source) return null;
+    const entry: AclEntry = { sequence, action, protocol, source, options: [], rawConfig };
+    if (type === 'extended') {
+        entry.sourcePort = readPorts();
+        const destination = readAddress();
+        if (!destination) return null;
+        entry.destination = destination;
+        entry.destinationPort = readPorts();
+    }
+    entry.options = tokens.slice(index);
+    return entry;
+};
+
+// --- Analysis ---
+
+const addressRange = (address: AclAddress): [number, number] | null => {
+    if (address.any) return [0, 0xFFFFFFFF];
+    if (address.host) return isIPv4(address.host) ? [ipToLong(address.host), ipToLong(address.host)] : null;
+    if (address.network && address.wildcard) {
+        const wildcard = ipToLong(address.wildcard);
+        // Discontiguous wildcards ("0.0.255.0") are only compared as written
+        if ((wildcard & (wildcard + 1)) !== 0) return null;
+        const start = (ipToLong(address.network) & ~wildcard) >>> 0;
+        return [start, start + wildcard];
+    }
+    return null;
+};
+
+const addressCovers = (a: AclAddress | undefined, b: AclAddress | undefined): boolean => {
+    if (!a || a.any) return true;
+    if (!b) return false;
+    const rangeA = addressRange(a), rangeB = addressRange(b);
+    if (!rangeA || !rangeB) return a.text === b.text;
+    return rangeA[0] <= rangeB[0] && rangeB[1] <= rangeA[1];
+};
+
+const portRanges = (match: AclPortMatch): [number, number][] | null => {
+    const numbers = match.ports.map(port => /^\d+$/.test(port) ? Number(port) : PORT_NUMBERS[port]);
+    if (numbers.some(n => n === undefined)) return null;
+    switch (match.operator) {
+        case 'eq': return numbers.map(n => [n, n]);
+        case 'neq': return [[0, numbers[0] - 1], [numbers[0] + 1, 65535]];
+        case 'lt': return [[0, numbers[0] - 1]];
+        case 'gt': return [[numbers[0] + 1, 65535]];
+        case 'range': return [[numbers[0], numbers[1]]];
+    }
+};
+
+const portCovers = (a: AclPortMatch | undefined, b: AclPortMatch | undefined): boolean => {
+    if (!a) return true;
+    const rangesA = portRanges(a);
+    const rangesB = b ? portRanges(b) : [[0, 65535] as [number, number]];
+    if (!rangesA || !rangesB) return !!b && a.operator === b.operator && a.ports.join(' ') === b.ports.join(' ');
+    return rangesB.every(([start, end]) => rangesA.some(([from, to]) => from <= start && end <= to));
+};
+
+const normalizeProtocol = (protocol: string) => PROTOCOL_NAMES[protocol] || protocol;
+
+const protocolCovers = (a: string, b: string) => {
+    const protocolA = normalizeProtocol(a), protocolB = normalizeProtocol(b);
+    return protocolA === 'ip' || protocolA === protocolB;
+};
+
+// Every narrowing option of the earlier entry (established, dscp, ICMP type...) must also restrict the later one
+const optionsCover = (a: AclEntry, b: AclEntry) => {
+    return a.options.filter(o => !NON_MATCHING_OPTIONS.includes(o)).every(o => b.options.includes(o));
+};
+
+/** True when every packet matched by entry b is already matched by entry a. */
+export const entryCovers = (a: AclEntry, b: AclEntry): boolean => {
+    return protocolCovers(a.protocol, b.protocol)
+        && addressCovers(a.source, b.source)
+        && portCovers(a.sourcePort, b.sourcePort)
+        && addressCovers(a.destination, b.destination)
+        && portCovers(a.destinationPort, b.destinationPort)
+        && optionsCover(a, b);
+};
+
+export const describeAclEntry = (entry: AclEntry) => entry.rawConfig.trim();
+
+/** Address and port match of one side of an entry, e.g. "10.1.1.0 0.0.0.255 eq 443". */
+export const describeAclMatch = (address?: AclAddress, port?: AclPortMatch): string => {
+    return [address?.text || 'any', port ? `${port.operator} ${port.ports.join(' ')}` : ''].filter(Boolean).join(' ');
+};
+
+/**
+ * Finds entries that can never match because an earlier entry already matches all of their traffic.
+ * An entry that matches exactly the same traffic with the same action is reported as a duplicate.
+ */
+export const findShadowedEntries = (acl: AccessList): { entry: AclEntry, coveredBy: AclEntry, duplicate: boolean }[] => {
+    return acl.entries.flatMap((entry, index) => {
+        const coveredBy = acl.entries.slice(0, index).find(earlier => entryCovers(earlier, entry));
+        if (!coveredBy) return [];
+        const duplicate = coveredBy.action === entry.action && entryCovers(entry, coveredBy);
+        return [{ entry, coveredBy, duplicate }];
+    });
+};
+
+export const isPermitAnyAny = (entry: AclEntry): boolean => {
+    return entry.action === 'permit'
+        && normalizeProtocol(entry.protocol) === 'ip'
+        && !!entry.source.any
+        && (!entry.destination || !!entry.destination.any)
+        && !entry.sourcePort && !entry.destinationPort
+        && entry.options.every(o => NON_MATCHING_OPTIONS.includes(o));
+};
+
+/** Bindings that reference an ACL the device does not define. */
+export const findUndefinedAclBindings = (config: ParsedConfigData): AclBinding[] => {
+    const defined = new Set((config.accessLists || []).map(acl => acl.name));
+    return (config.aclBindings || []).filter(binding => !defined.has(binding.acl));
+};
+
+/** ACLs that no interface, line, SNMP community or other command references. */
+export const findUnusedAcls = (config: ParsedConfigData): AccessList[] => {
+    const referenced = new Set((config.aclBindings || []).map(binding => binding.acl));
+    return (config.accessLists || []).filter(acl => !referenced.has(acl.name));
+};
@@ -1,326 +1,588 @@
+import { ParsedConfigData, PortConfig, OspfNetwork, OspfInfo, EigrpInfo, BgpInfo, BgpNeighbor, BgpAddressFamily, VlanMapInfo, IpRangeInfo, SnmpInfo, AccessList, AclBinding, DhcpPoolInfo, AaaInfo, ConnectionInfo, RoutingInfo, SecurityCompliance, SviInfo, CiscoDialect, HsrpGroup, VpcInfo, ParserWarning } from '../types';
+import { getInitialParsedData, calculateSubnetInfo, sortPorts, parseInterfaceAttributes, parseStaticRoute, parseIpv6StaticRoute, parseIpv6InterfaceLine, ipv6RangesForSvi, Ipv6InterfaceInfo, parseConfigTree, flattenConfigNode, ConfigNode } from './parserUtils';
+import { prefixToMask, maskToWildcard, ipToLong, longToIp } from './ipUtils';
+import { aclTypeForNumber, parseAclEntry } from './aclAnalysis';
+import { buildParserDiagnostics, readMatching, DiagnosticBlock } from './parserDiagnostics';
 
-declare var ipaddr: any;
-import { ParsedConfigData, PortConfig, OspfNetwork, OspfInfo, VlanMapInfo, IpRangeInfo, SnmpInfo, SnmpAcl, DhcpPoolInfo, AaaInfo, ConnectionInfo, RoutingInfo, SecurityCompliance, SviInfo } from '../types';
+const NXOS_SIGNATURES = [
+    /^!Command: show running-config/m,
+    /^feature\s+\S+/m,
+    /^vpc\s+domain\s+\d+/m,
+    /^boot\s+nxos\s+/m,
+    /^interface\s+Ethernet\d+\/\d+/m,
+    /^\s+ip\s+router\s+ospf\s+\S+\s+area\s+/m,
+];
 
-// Helper functions for IP calculation
-const ipToLong = (ip: string): number => {
-    return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
-};
+/**
+ * Tells NX-OS and IOS/IOS-XE configurations apart.
+ * NX-OS is assumed as soon as two distinct NX-OS-only constructs are present.
+ */
+export function detectCiscoDialect(configText: string): CiscoDialect {
+    const hits = NXOS_SIGNATURES.filter(signature => signature.test(configText)).length;
+    return hits >= 2 ? 'NX-OS' : 'IOS';
+}
+
+// Interface-level OSPFv3: "ipv6 ospf 1 area 0" (IOS), "ospfv3 1 ipv6 area 0" (IOS-XE), "ipv6 router ospfv3 1 area 0" (NX-OS)
+const OSPFV3_INTERFACE_PATTERN = /^(?:ipv6\s+ospf\s+\S+|ospfv3\s+\S+\s+ipv6|ipv6\s+router\s+ospfv3\s+\S+)\s+area\s+(\S+)/;
+const OSPFV3_PASSIVE_PATTERN = /^(?:ipv6\s+)?ospfv3\s+passive-interface$/;
 
-const longToIp = (long: number): string => {
-    return [(long >>> 24), (long >>> 16) & 255, (long >>> 8) & 255, long & 255].join('.');
+// Matches both "ip address 10.1.1.1 255.255.255.0" (IOS) and "ip address 10.1.1.1/24" (NX-OS)
+const parseIpAddressLine = (line: string): { ip: string, mask: string } | null => {
+    const cidr = line.match(/^\s*ip\s+address\s+([\d.]+)\/(\d+)(?!.*secondary)/);
+    if (cidr) return { ip: cidr[1], mask: prefixToMask(parseInt(cidr[2], 10)) };
+    const dotted = line.match(/^\s*ip\s+address\s+([\d.]+)\s+([\d.]+)(?!.*secondary)/);
+    if (dotted) return { ip: dotted[1], mask: dotted[2] };
+    return null;
 };
 
-function getInitialParsedData(): ParsedConfigData {
-    return {
-        hostname: '',
-        iosVersion: '',
-        modelNumber: '',
-        vlans: [],
-        ipRanges: [],
-        ospf: { status: 'Not configured', details: [], rawConfig: [], networks: [], passiveInterfaces: [] },
-        snmp: { status: 'Not configured', details: [], acls: [] },
-        svis: [],
-        dhcpPools: [],
-        aaa: { status: 'Not configured', details: [] },
-        other: { dnsServers: '', domain: '' },
-        connections: [],
-        usernames: [],
-        ports: [],
-        uplinks: [],
-        portChannels: [],
-        routing: { defaultGateway: '', defaultRoute: '' },
-        security: { present: [], missing: [] }
-    };
-}
+// "ip access-list" keywords that configure ACL behaviour rather than name an ACL
+const ACL_SETTING_KEYWORDS = /^(?:log-update|logging|resequence|persistent|role-based|match-local-traffic)$/;
 
-function calculateSubnetInfo(ipAddress: string, subnetMask: string): Omit<IpRangeInfo, 'vlanId'|'svi'|'status'> {
-    const errorResult = {
-        ipAddress,
-        network: "Error",
-        usableRange: "Error",
-        broadcast: "Error",
-        subnetMask: subnetMask || "N/A",
-        totalAddresses: 0,
-        usableAddresses: 0,
-        gateway: ipAddress,
-    };
+// Commands outside interfaces, lines and SNMP communities that make an ACL in use
+const OTHER_ACL_REFERENCES: RegExp[] = [
+    /^match\s+ip\s+address\s+(?!prefix-list\b)(.+)$/,
+    /^match\s+access-group\s+name\s+(\S+)/,
+    /^ip\s+nat\s+.*\blist\s+(\S+)/,
+    /^ntp\s+access-group\s+(?:peer|serve|serve-only|query-only)\s+(\S+)/,
+    /^distribute-list\s+(\S+)/,
+    /^ip\s+http\s+access-class\s+(?:ipv4\s+)?(\S+)/,
+    /^ip\s+igmp\s+access-group\s+(\S+)/,
+    /^ip\s+multicast\s+boundary\s+(\S+)/,
+    /^snmp-server\s+(?:group|user)\s+.*\baccess\s+(?!ipv6\b)(\S+)/,
+];
 
-    // Use ipaddr.js for validation, which is what it's good at.
-    if (!ipaddr.IPv4.isValid(ipAddress) || !ipaddr.IPv4.isValid(subnetMask)) {
-        return errorResult;
-    }
+const descendants = (node: ConfigNode): ConfigNode[] => node.children.flatMap(child => [child, ...descendants(child)]);
+
+/**
+ * Collects numbered and named IPv4 access lists and every place that references one,
+ * at top level or inside an interface, line or other block.
+ */
+const parseAccessLists = (tree: ConfigNode[], isNxos: boolean): { accessLists: AccessList[], bindings: AclBinding[] } => {
+    const accessLists: AccessList[] = [];
+    const bindings: AclBinding[] = [];
 
-    try {
-        const ipAsLong = ipToLong(ipAddress);
-        const maskAsLong = ipToLong(subnetMask);
-        
-        const networkAsLong = ipAsLong & maskAsLong;
-        const broadcastAsLong = networkAsLong | (~maskAsLong >>> 0);
+    const visit = (node: ConfigNode, header: ConfigNode | null) => {
+        const line = node.line;
+        let match: RegExpMatchArray | null;
 
-        const networkAddr = longToIp(networkAsLong);
-        const broadcastAddr = longToIp(broadcastAsLong);
+        if (!header && (match = line.match(/^access-list\s+(\d+)\s+(.+)$/)) && aclTypeForNumber(match[1])) {
+            let acl = accessLists.find(a => a.name === match![1]);
+            if (!acl) {
+                acl = { name: match[1], type: aclTypeForNumber(match[1])!, numbered: true, entries: [], remarks: [], rawConfig: [] };
+                accessLists.push(acl);
+            }
+            acl.rawConfig.push(line);
+            if (match[2].startsWith('remark ')) acl.remarks.push(match[2].replace(/^remark\s+/, ''));
+            else {
+                const entry = parseAclEntry(match[2], acl.type, line);
+                if (!entry) return;
+                acl.entries.push(entry);
+            }
+            node.read = true;
+            return;
+        }
+        if (!header && (match = line.match(/^ip\s+access-list\s+(?:(standard|extended)\s+)?(\S+)$/)) && (match[1] || (isNxos && !ACL_SETTING_KEYWORDS.test(match[2])))) {
+            // NX-OS ACLs have no type keyword and always use the extended syntax
+            const acl: AccessList = { name: match[2], type: (match[1] as AccessList['type']) || 'extended', numbered: false, entries: [], remarks: [], rawConfig: [line] };
+            accessLists.push(acl);
+            node.read = true;
+            descendants(node).forEach(entryNode => {
+                const entryLine = entryNode.line;
+                acl.rawConfig.push(entryLine);
+                if (entryLine.match(/^(?:\d+\s+)?remark\s+(.+)/)) acl.remarks.push(entryLine.match(/^(?:\d+\s+)?remark\s+(.+)/)![1]);
+                else {
+                    const entry = parseAclEntry(entryLine, acl.type, entryLine);
+                    if (!entry) return;
+                    acl.entries.push(entry);
+                }
+                entryNode.read = true;
+            });
+            return;
+        }
 
-        const prefix = ipaddr.IPv4.parse(subnetMask).prefixLengthFromSubnetMask();
-        if (prefix === null) {
-            return errorResult;
+        const target = header ? header.line.replace(/^(?:interface|line)\s+/, '') : '';
+        if (header?.line.startsWith('interface ') && (match = line.match(/^ip\s+(?:port\s+)?access-group\s+(\S+)\s+(in|out)/))) {
+            bindings.push({ acl: match[1], kind: 'interface', target, direction: match[2] as AclBinding['direction'], rawConfig: line });
+            node.read = true;
+        } else if (header?.line.startsWith('line ') && (match = line.match(/^(?:ip\s+)?access-class\s+(\S+)\s+(in|out)/))) {
+            bindings.push({ acl: match[1], kind: 'line', target, direction: match[2] as AclBinding['direction'], rawConfig: line });
+            node.read = true;
+        } else if ((match = line.match(/^snmp-server\s+community\s+(\S+)\s+(?:view\s+\S+\s+)?(?:RO|RW|ro|rw)\s+(?:ipv6\s+\S+\s+)?(\S+)/)) ||
+                   (match = line.match(/^snmp-server\s+community\s+(\S+)\s+use-(?:ipv4)?acl\s+(\S+)/))) {
+            bindings.push({ acl: match[2], kind: 'snmp', target: `community ${match[1]}`, rawConfig: line });
+        } else {
+            OTHER_ACL_REFERENCES.forEach(pattern => {
+                const reference = line.match(pattern);
+                if (!reference) return;
+                // "match ip address" may list several ACLs
+                reference[1].split(/\s+/).forEach(acl => bindings.push({ acl, kind: 'other', target: header ? header.line : line, rawConfig: line }));
+                node.read = true;
+            });
         }
+        node.children.forEach(child => visit(child, header || node));
+    };
+    tree.forEach(node => visit(node, null));
+    return { accessLists, bindings };
+};
+
+/**
+ * Collects "router eigrp" processes in classic, named and NX-OS style, plus the
+ * interfaces NX-OS enables with "ip router eigrp <tag>".
+ */
+const parseEigrp = (tree: ConfigNode[]): EigrpInfo[] => {
+    const processes: EigrpInfo[] = [];
+    const interfaceStatements: { iface: string, tag: string, passive: boolean }[] = [];
 
-        const totalAddresses = Math.pow(2, 32 - prefix);
-        let usableAddresses = 0;
-        let usableRange = "N/A";
-
-        if (prefix < 31) {
-             usableAddresses = totalAddresses > 2 ? totalAddresses - 2 : 0;
-             if (usableAddresses > 0) {
-                const firstUsable = longToIp(networkAsLong + 1);
-                const lastUsable = longToIp(broadcastAsLong - 1);
-                usableRange = `${firstUsable} - ${lastUsable}`;
-             } else {
-                 usableRange = "None (subnet too small)";
-             }
-        } else if (prefix === 31) {
-            usableAddresses = 2; // Point-to-point links are usable (RFC 3021)
-            usableRange = `${networkAddr} - ${broadcastAddr}`;
-        } else { // prefix === 32
-            usableAddresses = 1; // Host route
-            usableRange = ipAddress;
+    tree.forEach(node => {
+        let match: RegExpMatchArray | null;
+        if (node.line.startsWith('interface ')) {
+            const iface = node.line.replace(/^interface\s+/, '');
+            node.children.forEach(child => {
+                if ((match = child.line.match(/^ip\s+router\s+eigrp\s+(\S+)/))) interfaceStatements.push({ iface, tag: match[1], passive: false });
+                else if ((match = child.line.match(/^ip\s+passive-interface\s+eigrp\s+(\S+)/))) interfaceStatements.push({ iface, tag: match[1], passive: true });
+                else return;
+                child.read = true;
+            });
+            return;
         }
-        
-        return {
-            ipAddress,
-            network: networkAddr,
-            usableRange: usableRange,
-            broadcast: broadcastAddr,
-            subnetMask: `${subnetMask} (/${prefix})`,
-            totalAddresses,
-            usableAddresses,
-            gateway: ipAddress,
+        if (!(match = node.line.match(/^router\s+eigrp\s+(\S+)/))) return;
+        const eigrp: EigrpInfo = { process: match[1], networks: [], interfaces: [], passiveInterfaces: [], redistribute: [], details: [], rawConfig: [node.line] };
+        if (/^\d+$/.test(match[1])) eigrp.asNumber = match[1];
+        processes.push(eigrp);
+        node.read = true;
+
+        // Named mode nests interface settings under "af-interface <name>"
+        const visit = (child: ConfigNode, afInterface?: string) => {
+            const line = child.line;
+            eigrp.rawConfig.push(line);
+            child.read = true;
+            if (line.startsWith('exit-')) return;
+
+            if ((match = line.match(/^address-family\s+ipv4\s+(?:unicast\s+)?(?:vrf\s+(\S+)\s+)?autonomous-system\s+(\d+)/))) {
+                eigrp.asNumber = match[2];
+                if (match[1]) eigrp.vrf = match[1];
+            } else if ((match = line.match(/^autonomous-system\s+(\d+)/))) eigrp.asNumber = match[1];
+            else if ((match = line.match(/^af-interface\s+(\S+)/))) afInterface = match[1];
+            else if ((match = line.match(/^(?:eigrp\s+)?router-id\s+(\S+)/))) eigrp.routerId = match[1];
+            else if ((match = line.match(/^network\s+([\d.]+)(?:\s+([\d.]+))?/))) eigrp.networks.push({ network: match[1], wildcard: match[2] });
+            else if ((match = line.match(/^passive-interface(?:\s+(\S+))?$/)) && (match[1] || afInterface)) eigrp.passiveInterfaces.push(match[1] || afInterface!);
+            else if ((match = line.match(/^redistribute\s+(.+)/))) eigrp.redistribute.push(match[1]);
+            else eigrp.details.push(line);
+            child.children.forEach(grandchild => visit(grandchild, afInterface));
         };
+        node.children.forEach(child => visit(child));
+    });
 
-    } catch (e) {
-        console.error(`CRITICAL: Error in calculateSubnetInfo for ${ipAddress}/${subnetMask}:`, e);
-        return errorResult;
-    }
+    interfaceStatements.forEach(({ iface, tag, passive }) => {
+        const eigrp = processes.find(p => p.process === tag || p.asNumber === tag);
+        if (!eigrp) return;
+        if (passive) eigrp.passiveInterfaces.push(iface);
+        else eigrp.interfaces.push(iface);
+    });
+    return processes;
+};
+
+// Returns false for options the neighbor does not record
+const applyBgpNeighborOption = (neighbor: BgpNeighbor, option: string): boolean => {
+    let match: RegExpMatchArray | null;
+    if ((match = option.match(/^remote-as\s+(\S+)/))) neighbor.remoteAs = match[1];
+    else if ((match = option.match(/^description\s+(.+)/))) neighbor.description = match[1];
+    else if ((match = option.match(/^update-source\s+(\S+)/))) neighbor.updateSource = match[1];
+    else if (option === 'peer-group') neighbor.isPeerGroup = true;
+    else if ((match = option.match(/^(?:peer-group|inherit\s+peer)\s+(\S+)/))) neighbor.peerGroup = match[1];
+    else if ((match = option.match(/^route-map\s+(\S+)\s+(in|out)/))) {
+        if (match[2] === 'in') neighbor.routeMapIn = match[1];
+        else neighbor.routeMapOut = match[1];
+    } else if (option === 'shutdown') neighbor.shutdown = true;
+    else return false;
+    return true;
+};
+
+interface BgpContext {
+    vrf?: string;
+    addressFamily?: { family: BgpAddressFamily, name: string };
+    neighbor?: BgpNeighbor;
 }
 
-function consolidatePortRange(ports: PortConfig[]): PortConfig[] {
-    if (!ports || ports.length === 0) return [];
-
-    const consolidated: PortConfig[] = [];
-    let currentRange: { start: string, end: string, config: string[], type: string, description: string, status: string, members: string[] } | null = null;
-
-    const filteredPorts = ports.filter(port => port && typeof port.port === 'string' && port.port.trim() !== '');
-
-    filteredPorts.sort((a, b) => {
-        const portA = a.port;
-        const portB = b.port;
-        const portPattern = /^([A-Za-z-]+)(\d+(?:\/\d+)*)$/;
-        const matchA = portA.match(portPattern);
-        const matchB = portB.match(portPattern);
-        if (!matchA || !matchB) return portA.localeCompare(portB);
-        const [, typeA, numA] = matchA;
-        const [, typeB, numB] = matchB;
-        if (typeA !== typeB) return typeA.localeCompare(typeB);
-        const numASplit = numA.split('/').map(Number);
-        const numBSplit = numB.split('/').map(Number);
-        for (let i = 0; i < Math.max(numASplit.length, numBSplit.length); i++) {
-            const partA = numASplit[i] || 0;
-            const partB = numBSplit[i] || 0;
-            if (partA !== partB) return partA - partB;
+/**
+ * Reads "router bgp" in both the IOS style ("neighbor X remote-as Y" statements, address-families
+ * closed by "exit-address-family") and the NX-OS style (neighbor, template and vrf sub-blocks).
+ */
+const parseBgp = (tree: ConfigNode[]): BgpInfo | undefined => {
+    const root = tree.find(node => /^router\s+bgp\s+\S+/.test(node.line));
+    if (!root) return undefined;
+    root.read = true;
+    const bgp: BgpInfo = { asNumber: root.line.match(/^router\s+bgp\s+(\S+)/)![1], neighbors: [], addressFamilies: [], details: [], rawConfig: [root.line, ...flattenConfigNode(root)] };
+
+    const getNeighbor = (address: string, neighborVrf?: string) => {
+        let existing = bgp.neighbors.find(n => n.address === address && n.vrf === neighborVrf);
+        if (!existing) {
+            existing = { address, addressFamilies: [] };
+            if (neighborVrf) existing.vrf = neighborVrf;
+            bgp.neighbors.push(existing);
         }
-        return 0;
-    });
+        return existing;
+    };
 
-    filteredPorts.forEach((port) => {
-        const configStr = JSON.stringify(port.config || []);
-        if (!currentRange) {
-            currentRange = { start: port.port, end: port.port, config: port.config, type: port.type, description: port.description, status: port.status, members: port.members };
-        } else {
-            const portPattern = /^([A-Za-z-]+)(\d+(?:\/\d+)*)$/;
-            const matchCurrent = currentRange.end.match(portPattern);
-            const matchPort = port.port.match(portPattern);
-            if (!matchCurrent || !matchPort) {
-                consolidated.push({ port: currentRange.start === currentRange.end ? currentRange.start : `${currentRange.start} - ${currentRange.end}`, ...currentRange });
-                currentRange = { start: port.port, end: port.port, config: port.config, type: port.type, description: port.description, status: port.status, members: port.members };
-                return;
-            }
-            const [, currentType, currentNum] = matchCurrent;
-            const [, portType, portNum] = matchPort;
-            const currentNumSplit = currentNum.split('/').map(Number);
-            const portNumSplit = portNum.split('/').map(Number);
-            const isSequential = currentType === portType &&
-                currentNumSplit.length === portNumSplit.length &&
-                currentNumSplit.slice(0, -1).every((val, idx) => val === portNumSplit[idx]) &&
-                portNumSplit[currentNumSplit.length - 1] === currentNumSplit[currentNumSplit.length - 1] + 1 &&
-                JSON.stringify(currentRange.config) === configStr;
-            if (isSequential) {
-                currentRange.end = port.port;
-            } else {
-                consolidated.push({ port: currentRange.start === currentRange.end ? currentRange.start : `${currentRange.start} - ${currentRange.end}`, ...currentRange });
-                currentRange = { start: port.port, end: port.port, config: port.config, type: port.type, description: port.description, status: port.status, members: port.members };
+    const visit = (nodes: ConfigNode[], context: BgpContext) => nodes.forEach(node => {
+        const line = node.line;
+        node.read = true;
+        if (line.startsWith('exit-')) return;
+        let match: RegExpMatchArray | null;
+        // IOS keeps VRF neighbors under "address-family ipv4 vrf <name>"
+        const currentVrf = context.vrf || context.addressFamily?.name.match(/\bvrf\s+(\S+)/)?.[1];
+        if (context.neighbor) {
+            if ((match = line.match(/^address-family\s+(.+)/))) {
+                if (!context.neighbor.addressFamilies.includes(match[1])) context.neighbor.addressFamilies.push(match[1]);
+            } else node.read = applyBgpNeighborOption(context.neighbor, line);
+            visit(node.children, context);
+        } else if ((match = line.match(/^(?:neighbor\s+(\S+)|template\s+peer\s+(\S+))(?:\s+(.+))?$/))) {
+            const entry = getNeighbor(match[1] || match[2], currentVrf);
+            if (match[2]) entry.isPeerGroup = true;
+            if (match[3]) applyBgpNeighborOption(entry, match[3]);
+            if (context.addressFamily && !entry.addressFamilies.includes(context.addressFamily.name)) entry.addressFamilies.push(context.addressFamily.name);
+            visit(node.children, { ...context, neighbor: entry });
+        } else if ((match = line.match(/^address-family\s+(.+)/))) {
+            const name = context.vrf ? `${match[1]} vrf ${context.vrf}` : match[1];
+            let family = bgp.addressFamilies.find(af => af.name === name);
+            if (!family) {
+                family = { name, networks: [], redistribute: [], details: [] };
+                bgp.addressFamilies.push(family);
             }
-        }
+            visit(node.children, { ...context, addressFamily: { family, name: match[1] } });
+        } else if (!context.addressFamily && (match = line.match(/^vrf\s+(\S+)$/))) {
+            visit(node.children, { ...context, vrf: match[1] });
+        } else if (context.addressFamily) {
+            const family = context.addressFamily.family;
+            if ((match = line.match(/^network\s+(.+)/))) family.networks.push(match[1]);
+            else if ((match = line.match(/^redistribute\s+(.+)/))) family.redistribute.push(match[1]);
+            else family.details.push(line);
+        } else if ((match = line.match(/^(?:bgp\s+)?router-id\s+(\S+)/))) bgp.routerId = match[1];
+        else bgp.details.push(context.vrf ? `vrf ${context.vrf}: ${line}` : line);
     });
-    if (currentRange) {
-        consolidated.push({ port: currentRange.start === currentRange.end ? currentRange.start : `${currentRange.start} - ${currentRange.end}`, ...currentRange });
-    }
-    return consolidated;
-}
+    visit(root.children, {});
+
+    // Members of a peer group or template inherit its remote AS
+    bgp.neighbors.forEach(n => {
+        const group = n.peerGroup ? bgp.neighbors.find(g => g.isPeerGroup && g.address === n.peerGroup) : undefined;
+        if (group && !n.remoteAs) n.remoteAs = group.remoteAs;
+    });
+    return bgp;
+};
+
+const toDiagnosticBlock = (node: ConfigNode): DiagnosticBlock => ({ header: node, children: descendants(node) });
 
+/**
+ * Parses a Cisco IOS / IOS-XE / NX-OS configuration. Every block is read from the indentation
+ * tree built by parseConfigTree, so sections end correctly with or without '!' separators.
+ */
 export function parseCiscoConfigLocal(configText: string): ParsedConfigData {
     const data = getInitialParsedData();
-    
-    const lines = configText.split('\n').map(line => line.trim());
-
-    let inInterfaceSection = false, inSviSection = false, inOSPFSection = false, inSnmpAcl = false, inDhcpPool = false, inAaaSection = false, inLineSection = false;
-    let currentInterface: PortConfig | null = null, currentSvi: SviInfo | null = null, currentAcl: SnmpAcl | null = null, currentDhcpPool: DhcpPoolInfo | null = null, currentLine: ConnectionInfo | null = null;
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        if (line.match(/^hostname\s+(\S+)/)) data.hostname = line.match(/^hostname\s+(\S+)/)![1];
-        if (line.match(/^version\s+(\S+)/)) data.iosVersion = line.match(/^version\s+(\S+)/)![1];
-        if (line.match(/^switch\s+\d+\s+provision\s+(\S+)/)) data.modelNumber = line.match(/^switch\s+\d+\s+provision\s+(\S+)/)![1];
-        if (line.match(/^vlan\s+(\d+)/)) {
-            const vlanId = line.match(/^vlan\s+(\d+)/)![1];
-            let vlanName = 'Unnamed';
-            const vlanRawConfig = [line];
-            if (i + 1 < lines.length && lines[i + 1].match(/^\s*name\s+(.+)/)) {
-                vlanName = lines[i + 1].match(/^\s*name\s+(.+)/)![1]; 
-                vlanRawConfig.push(lines[i + 1].trim());
-                i++;
-            }
-            data.vlans!.push({ id: vlanId, name: vlanName, rawConfig: vlanRawConfig });
-        }
-        if (line.match(/^ip\s+default-gateway\s+(\S+)/)) data.routing!.defaultGateway = line.match(/^ip\s+default-gateway\s+(\S+)/)![1];
-        if (line.match(/^ip\s+route\s+0\.0\.0\.0\s+0\.0\.0\.0\s+(\S+)/)) data.routing!.defaultRoute = line.match(/^ip\s+route\s+0\.0\.0\.0\s+0\.0\.0\.0\s+(\S+)/)![1];
-        if (line.match(/^ip\s+name-server\s+(.+)/)) data.other!.dnsServers = line.match(/^ip\s+name-server\s+(.+)/)![1];
-        else if (line.match(/^ip\s+domain\s+name\s+(.+)/)) data.other!.domain = line.match(/^ip\s+domain\s+name\s+(.+)/)![1];
-
-        if (line.match(/^interface\s+(?!Vlan\d+)(\S+)/)) {
-            inInterfaceSection = true;
-            const interfaceName = line.match(/^interface\s+(?!Vlan\d+)(\S+)/)![1];
-            currentInterface = { port: interfaceName, type: 'Physical', config: [line], description: '', status: 'N/A', members: [] };
-            data.ports!.push(currentInterface);
-
-            if(interfaceName.toLowerCase().startsWith('port-channel') && !data.portChannels!.includes(interfaceName)) {
-                data.portChannels!.push(interfaceName);
-            }
-            if (line.match(/UPLINK/i) || (i + 1 < lines.length && lines[i + 1]?.match(/description.*UPLINK/i))) data.uplinks!.push(currentInterface.port);
-        } else if (inInterfaceSection && currentInterface) {
-            if (line.match(/^\s*description\s+(.+)/)) {
-                currentInterface.description = line.match(/^\s*description\s+(.+)/)![1];
-                if (currentInterface.description.match(/UPLINK/i) && !data.uplinks!.includes(currentInterface.port)) data.uplinks!.push(currentInterface.port);
+    const dialect = detectCiscoDialect(configText);
+    const isNxos = dialect === 'NX-OS';
+    data.osDialect = dialect;
+    data.features = [];
+
+    const tree = parseConfigTree(configText);
+    const nodes = tree.flatMap(node => [node, ...descendants(node)]);
+    const hasLine = (test: (line: string) => boolean) => readMatching(nodes, test).length > 0;
+
+    const interfaceOspf: { iface: string, area: string }[] = [];
+    const interfaceAddresses = new Map<string, { ip: string, mask: string }>();
+    let vpc: VpcInfo | null = null;
+    let vpcPeerLink: string | undefined;
+    const vpcMembers: { portChannel: string, vpcId: string }[] = [];
+    let aaaNewModel = false;
+    const aaaMethods: { kind: string, method: string }[] = [];
+    const vlanBlocks = new Set<string>();
+    const localLogins: ConnectionInfo[] = [];
+    const portLines: ConfigNode[] = [];
+    const warnings: ParserWarning[] = [];
+
+    const addStaticRoute = (line: string, vrf?: string) => {
+        // IOS names the VRF on the route; NX-OS nests the route under "vrf context"
+        const [, routeVrf, rest] = line.match(/^ip\s+route\s+(?:vrf\s+(\S+)\s+)?(.+)/)!;
+        const route = parseStaticRoute(rest.split(/\s+/), line, routeVrf || vrf);
+        if (route) data.routing!.staticRoutes!.push(route);
+        if (route && !route.vrf && route.prefix === '0.0.0.0' && route.mask === '0.0.0.0') data.routing!.defaultRoute = route.interface || route.nextHop || '';
+    };
+
+    const parseInterface = (node: ConfigNode, interfaceName: string) => {
+        const port: PortConfig = { port: interfaceName, type: 'Physical', config: [node.line, ...flattenConfigNode(node)], description: '', status: isNxos && node.children.length === 0 ? 'N/A' : 'Enabled', members: [] };
+        data.ports!.push(port);
+        if (interfaceName.toLowerCase().startsWith('port-channel') && !data.portChannels!.includes(interfaceName)) data.portChannels!.push(interfaceName);
+        if (node.line.match(/UPLINK/i)) data.uplinks!.push(interfaceName);
+
+        node.children.forEach(child => {
+            const line = child.line;
+            let address: { ip: string, mask: string } | null;
+            let match: RegExpMatchArray | null;
+            if ((match = line.match(/^description\s+(.+)/))) {
+                port.description = match[1];
+                if (port.description.match(/UPLINK/i) && !data.uplinks!.includes(interfaceName)) data.uplinks!.push(interfaceName);
             }
-            if (line.includes('shutdown')) currentInterface.status = 'Disabled'; else if (currentInterface.status === 'N/A') currentInterface.status = 'Enabled';
-            if (line.match(/^\s*switchport\s+mode\s+(\S+)/)) currentInterface.type = line.match(/^\s*switchport\s+mode\s+(\S+)/)![1];
-            if (line.match(/^\s*channel-group\s+(\d+)\s+mode\s+(\S+)/)) {
-                const cg = line.match(/^\s*channel-group\s+(\d+)\s+mode\s+(\S+)/)!;
-                const pc = `Port-channel${cg[1]}`;
-                currentInterface.members.push(`${pc} (${cg[2]})`);
+            else if (line === 'shutdown') port.status = 'Disabled';
+            else if (line === 'no shutdown') port.status = 'Enabled';
+            else if ((match = line.match(/^switchport\s+mode\s+(\S+)/))) port.type = match[1];
+            else if ((match = line.match(/^channel-group\s+(\d+)(?:\s+mode\s+(\S+))?/))) {
+                const pc = `${isNxos ? 'port-channel' : 'Port-channel'}${match[1]}`;
+                port.members.push(`${pc} (${match[2] || 'on'})`);
                 if (!data.portChannels!.includes(pc)) data.portChannels!.push(pc);
             }
-            currentInterface.config.push(line);
-            if (line.match(/^!/)) { inInterfaceSection = false; currentInterface = null; }
-        }
+            else if ((address = parseIpAddressLine(line))) interfaceAddresses.set(interfaceName, address);
+            else if ((match = line.match(/^ip\s+router\s+ospf\s+\S+\s+area\s+(\S+)/))) interfaceOspf.push({ iface: interfaceName, area: match[1] });
+            else if (line === 'ip ospf passive-interface') data.ospf!.passiveInterfaces!.push(interfaceName);
+            else if ((match = line.match(OSPFV3_INTERFACE_PATTERN))) data.ospfv3!.interfaces.push({ iface: interfaceName, area: match[1] });
+            else if (line.match(OSPFV3_PASSIVE_PATTERN)) data.ospfv3!.passiveInterfaces.push(interfaceName);
+            else if (line === 'vpc peer-link') vpcPeerLink = interfaceName;
+            else if ((match = line.match(/^vpc\s+(\d+)$/))) vpcMembers.push({ portChannel: interfaceName, vpcId: match[1] });
+            else return;
+            child.read = true;
+        });
+        const interfaceLines = descendants(node);
+        portLines.push(...interfaceLines);
+        parseInterfaceAttributes(port, interfaceLines);
+    };
+
+    const parseSvi = (node: ConfigNode, vlanId: string) => {
+        const sviName = `Vlan${vlanId}`;
+        let ipAddress = 'No IP address', subnetMask = '', ipHelperAddress = 'N/A', sviStatus = 'Enabled';
+        const additionalInfo: string[] = [];
+        const ipv6: Ipv6InterfaceInfo = {};
+        const hsrpGroups: HsrpGroup[] = [];
+        let hsrpVersion: string | undefined;
+        const getHsrpGroup = (group: string) => {
+            let hsrp = hsrpGroups.find(h => h.group === group);
+            if (!hsrp) { hsrp = { group, version: hsrpVersion, virtualIp: '', preempt: false }; hsrpGroups.push(hsrp); }
+            return hsrp;
+        };
 
-        if (line.match(/^interface\s+Vlan(\d+)/)) {
-            const vlanId = line.match(/^interface\s+Vlan(\d+)/)![1], sviName = `Vlan${vlanId}`;
-            let ipAddress = 'No IP address', subnetMask = '', ipHelperAddress = 'N/A', additionalInfo: string[] = [], sviStatus = 'Enabled';
-            const sviRawConfig = [line];
-            let j = i + 1;
-            while (j < lines.length && !lines[j].match(/^!/)) {
-                const subLine = lines[j];
-                sviRawConfig.push(subLine);
-                if (subLine.match(/^\s*ip\s+address\s+([\d.]+)\s+([\d.]+)/)) {
-                    [ ,ipAddress, subnetMask] = subLine.match(/^\s*ip\s+address\s+([\d.]+)\s+([\d.]+)/)!;
-                } else if (subLine.match(/^\s*ip\s+helper-address\s+(\S+)/)) ipHelperAddress = subLine.match(/^\s*ip\s+helper-address\s+(\S+)/)![1];
-                else if (subLine.includes('shutdown')) { sviStatus = 'Disabled'; additionalInfo.push('shutdown'); }
-                else if (subLine.match(/^\s*description\s+(.+)/)) additionalInfo.push(`Description: ${subLine.match(/^\s*description\s+(.+)/)![1]}`);
-                j++;
+        node.children.forEach(child => {
+            const subLine = child.line;
+            if (parseIpv6InterfaceLine(subLine, ipv6)) {
+                child.read = true;
+                return;
             }
-            if(j < lines.length && lines[j].match(/^!/)) {
-                sviRawConfig.push(lines[j]);
+            const address = parseIpAddressLine(subLine);
+            let match: RegExpMatchArray | null;
+            if (address) {
+                ipAddress = address.ip; subnetMask = address.mask;
+            } else if (subLine.match(/^ip\s+helper-address\s+(\S+)/)) ipHelperAddress = subLine.match(/^ip\s+helper-address\s+(\S+)/)![1];
+            else if (subLine === 'shutdown') { sviStatus = 'Disabled'; additionalInfo.push('shutdown'); }
+            else if (subLine === 'no shutdown') sviStatus = 'Enabled';
+            else if (subLine.match(/^description\s+(.+)/)) additionalInfo.push(`Description: ${subLine.match(/^description\s+(.+)/)![1]}`);
+            else if ((match = subLine.match(/^(?:hsrp|standby)\s+version\s+(\d)/))) hsrpVersion = match[1];
+            else if ((match = subLine.match(/^hsrp\s+(\d+)/))) {
+                // NX-OS configures each HSRP group in its own sub-block
+                const hsrp = getHsrpGroup(match[1]);
+                child.children.forEach(optionNode => {
+                    const option = optionNode.line;
+                    if ((match = option.match(/^ip\s+([\d.]+)$/))) hsrp.virtualIp = match[1];
+                    else if ((match = option.match(/^priority\s+(\d+)/))) hsrp.priority = match[1];
+                    else if (option.startsWith('preempt')) hsrp.preempt = true;
+                    else return;
+                    optionNode.read = true;
+                });
             }
-            data.svis!.push({ svi: sviName, vlanId, ipAddress, subnetMask, ipHelperAddress, status: sviStatus, additionalInfo: additionalInfo.join(', '), rawConfig: sviRawConfig });
-            if (ipAddress !== 'No IP address' && subnetMask) {
-                const subnetInfo = calculateSubnetInfo(ipAddress, subnetMask);
-                data.ipRanges!.push({ vlanId, svi: sviName, ...subnetInfo, status: sviStatus });
+            else if ((match = subLine.match(/^standby\s+(\d+)\s+(ip|priority)\s+(\S+)/))) {
+                if (match[2] === 'ip') getHsrpGroup(match[1]).virtualIp = match[3];
+                else getHsrpGroup(match[1]).priority = match[3];
             }
-            i = j;
+            else if ((match = subLine.match(/^standby\s+(\d+)\s+preempt/))) getHsrpGroup(match[1]).preempt = true;
+            else if ((match = subLine.match(/^ip\s+router\s+ospf\s+\S+\s+area\s+(\S+)/))) interfaceOspf.push({ iface: sviName, area: match[1] });
+            else if (subLine === 'ip ospf passive-interface') data.ospf!.passiveInterfaces!.push(sviName);
+            else if ((match = subLine.match(OSPFV3_INTERFACE_PATTERN))) data.ospfv3!.interfaces.push({ iface: sviName, area: match[1] });
+            else if (subLine.match(OSPFV3_PASSIVE_PATTERN)) data.ospfv3!.passiveInterfaces.push(sviName);
+            else return;
+            child.read = true;
+        });
+        hsrpGroups.forEach(h => {
+            if (!h.version) h.version = hsrpVersion;
+            additionalInfo.push(`HSRP ${h.group}: ${h.virtualIp || 'no VIP'}${h.priority ? ` (priority ${h.priority}${h.preempt ? ', preempt' : ''})` : (h.preempt ? ' (preempt)' : '')}`);
+        });
+        const svi: SviInfo = { svi: sviName, vlanId, ipAddress, subnetMask, ipHelperAddress, status: sviStatus, additionalInfo: additionalInfo.join(', '), hsrp: hsrpGroups.length > 0 ? hsrpGroups : undefined, ...ipv6, rawConfig: [node.line, ...flattenConfigNode(node)] };
+        data.svis!.push(svi);
+        if (ipAddress !== 'No IP address' && subnetMask) {
+            interfaceAddresses.set(sviName, { ip: ipAddress, mask: subnetMask });
+            const subnetInfo = calculateSubnetInfo(ipAddress, subnetMask);
+            data.ipRanges!.push({ vlanId, svi: sviName, ...subnetInfo, status: sviStatus });
         }
+        data.ipRanges!.push(...ipv6RangesForSvi(svi));
+    };
 
-        if (line.match(/^router\s+ospf\s+(\d+)/)) {
-            inOSPFSection = true; 
-            data.ospf!.status = 'Configured'; 
-            data.ospf!.processId = line.match(/^router\s+ospf\s+(\d+)/)![1];
-            data.ospf!.rawConfig = [line];
+    tree.forEach(node => {
+        const line = node.line;
+        const subLines = flattenConfigNode(node);
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(/^hostname\s+(\S+)/))) data.hostname = match[1];
+        else if ((match = line.match(/^version\s+(\S+)/))) data.iosVersion = match[1];
+        else if ((match = line.match(/^switch\s+\d+\s+provision\s+(\S+)/))) data.modelNumber = match[1];
+        else if ((match = line.match(/^feature\s+(.+)/))) data.features!.push(match[1]);
+        else if (line.match(/^vlan\s+\d+[,-][\d,-]*$/)) {
+            // NX-OS declares VLANs as a list ("vlan 1,10,20-22"); names follow in per-VLAN blocks
+            line.replace(/^vlan\s+/, '').split(',').forEach(part => {
+                const [start, end] = part.split('-').map(Number);
+                for (let id = start; id <= (end || start); id++) {
+                    if (!data.vlans!.some(v => v.id === String(id))) data.vlans!.push({ id: String(id), name: 'Unnamed', rawConfig: [line] });
+                }
+            });
+        } else if ((match = line.match(/^vlan\s+(\d+)/))) {
+            const vlanName = readMatching(node.children, l => /^name\s+/.test(l))[0]?.line.replace(/^name\s+/, '') || 'Unnamed';
+            const vlanRawConfig = [line, ...subLines];
+            const existingVlan = data.vlans!.find(v => v.id === match![1]);
+            if (vlanBlocks.has(match[1])) warnings.push({ message: `VLAN ${match[1]} is defined more than once; the last definition is used.`, line, lineNumber: node.lineNumber });
+            vlanBlocks.add(match[1]);
+            if (existingVlan) { existingVlan.name = vlanName; existingVlan.rawConfig = vlanRawConfig; }
+            else data.vlans!.push({ id: match[1], name: vlanName, rawConfig: vlanRawConfig });
+        }
+        else if ((match = line.match(/^ip\s+default-gateway\s+(\S+)/))) data.routing!.defaultGateway = match[1];
+        else if (line.match(/^ip\s+route\s+/)) addStaticRoute(line);
+        else if ((match = line.match(/^vrf\s+context\s+(\S+)/))) {
+            readMatching(node.children, l => /^ip\s+route\s+/.test(l)).forEach(child => addStaticRoute(child.line, match![1]));
+        }
+        else if ((match = line.match(/^ipv6\s+route\s+(?!vrf\s)(.+)/))) {
+            const route = parseIpv6StaticRoute(match[1].split(/\s+/), line);
+            if (route) data.routing!.ipv6StaticRoutes!.push(route);
+        }
+        else if ((match = line.match(/^ip\s+name-server\s+(.+)/))) data.other!.dnsServers = match[1];
+        else if ((match = line.match(/^ip\s+domain[\s-]name\s+(.+)/))) data.other!.domain = match[1];
+        else if ((match = line.match(/^interface\s+Vlan(\d+)$/))) parseSvi(node, match[1]);
+        else if ((match = line.match(/^interface\s+(\S+)/))) parseInterface(node, match[1]);
+        else if ((match = line.match(/^router\s+ospf\s+(\S+)/))) {
+            data.ospf!.status = 'Configured';
+            data.ospf!.processId = match[1];
+            data.ospf!.rawConfig = [line, ...subLines];
             data.ospf!.networks = [];
-            data.ospf!.passiveInterfaces = [];
             data.ospf!.details = [];
-
-            while (i + 1 < lines.length && !lines[i + 1].match(/^!/)) {
-                i++; 
-                const subLine = lines[i]; 
-                data.ospf!.rawConfig.push(subLine);
-                const networkMatch = subLine.match(/^\s*network\s+([\d.]+)\s+([\d.]+)\s+area\s+(\S+)/);
-                const passiveMatch = subLine.match(/^\s*passive-interface\s+(\S+)/);
-                const routerIdMatch = subLine.match(/^\s*router-id\s+([\d.]+)/);
+            descendants(node).forEach(child => { child.read = true; });
+            subLines.forEach(subLine => {
+                const networkMatch = subLine.match(/^network\s+([\d.]+)\s+([\d.]+)\s+area\s+(\S+)/);
+                const passiveMatch = subLine.match(/^passive-interface\s+(\S+)/);
+                const routerIdMatch = subLine.match(/^router-id\s+([\d.]+)/);
 
                 if (routerIdMatch) data.ospf!.routerId = routerIdMatch[1];
                 else if (networkMatch) data.ospf!.networks.push({ network: networkMatch[1], wildcard: networkMatch[2], area: networkMatch[3] });
                 else if (passiveMatch) data.ospf!.passiveInterfaces.push(passiveMatch[1]);
                 else data.ospf!.details.push(subLine);
-            } 
-            i++;
+            });
         }
-        if (line.match(/^snmp-server\s+(.+)/)) { data.snmp!.status = 'Configured'; data.snmp!.details.push(line.replace(/^snmp-server\s+/, '')); }
-        if (line.match(/^ip\s+access-list\s+standard\s+(\S+)/) && line.includes('snmp')) {
-            inSnmpAcl = true; const aclName = line.match(/^ip\s+access-list\s+standard\s+(\S+)/)![1]; data.snmp!.status = 'Configured'; data.snmp!.acls = data.snmp!.acls || []; currentAcl = { name: aclName, rules: [line] }; data.snmp!.acls.push(currentAcl);
-        } else if (inSnmpAcl && currentAcl && (line.match(/^\s*permit\s+(.+)/) || line.match(/^\s*deny\s+(.+)/))) currentAcl.rules.push(line);
-        else if (inSnmpAcl && line.match(/^!/)) { inSnmpAcl = false; currentAcl = null; }
-
-        if (line.match(/^ip\s+dhcp\s+pool\s+(\S+)/)) {
-            inDhcpPool = true; currentDhcpPool = { name: line.match(/^ip\s+dhcp\s+pool\s+(\S+)/)![1], config: [line] }; data.dhcpPools!.push(currentDhcpPool);
-        } else if (inDhcpPool && currentDhcpPool && (line.match(/^\s*network\s+([\d.]+)\s+([\d.]+)/) || line.match(/^\s*default-router\s+(\S+)/) || line.match(/^\s*dns-server\s+(.+)/))) currentDhcpPool.config.push(line);
-        else if (inDhcpPool && line.match(/^!/)) { inDhcpPool = false; currentDhcpPool = null; }
-
-        if (line.includes('aaa new-model')) { data.aaa!.status = 'Configured'; inAaaSection = true; data.aaa!.details.push('AAA Enabled'); data.security!.present.push('AAA Authentication');
-        } else if (inAaaSection && line.match(/^aaa\s+authentication\s+(.+)/)) data.aaa!.details.push(`Authentication: ${line.match(/^aaa\s+authentication\s+(.+)/)![1]}`);
-        else if (inAaaSection && line.match(/^aaa\s+authorization\s+(.+)/)) data.aaa!.details.push(`Authorization: ${line.match(/^aaa\s+authorization\s+(.+)/)![1]}`);
-        else if (inAaaSection && line.match(/^aaa\s+accounting\s+(.+)/)) data.aaa!.details.push(`Accounting: ${line.match(/^aaa\s+accounting\s+(.+)/)![1]}`);
-        else if (inAaaSection && line.match(/^!/)) inAaaSection = false;
-
-        if (line.match(/^username\s+(\S+)/)) data.usernames!.push({ name: line.match(/^username\s+(\S+)/)![1], config: line });
-        
-        if (line.match(/^line\s+(con|vty)\s+(\d+\s+\d+|\d+)/)) {
-            inLineSection = true; 
-            const [, type, range] = line.match(/^line\s+(con|vty)\s+(\d+\s+\d+|\d+)/)!; 
-            currentLine = { type, range, config: [line], usernames: [] }; 
-            data.connections!.push(currentLine);
-        } else if (inLineSection && currentLine) {
-            if (line.match(/^!/)) {
-                inLineSection = false;
-                currentLine = null;
-            } else {
-                currentLine.config.push(line);
-                if (line.match(/^\s*description\s+(.+)/)) {
-                    currentLine.description = line.match(/^\s*description\s+(.+)/)![1];
-                } else if (line.includes('login local') && data.usernames!.length > 0) {
-                    currentLine.usernames = data.usernames!.map(u => u.name);
-                }
-            }
+        else if ((match = line.match(/^(?:ipv6\s+router\s+ospf|router\s+ospfv3)\s+(\S+)/))) {
+            const ospfv3 = data.ospfv3!;
+            ospfv3.status = 'Configured';
+            ospfv3.processId = match[1];
+            ospfv3.rawConfig.push(line, ...subLines);
+            descendants(node).forEach(child => { child.read = true; });
+            subLines.forEach(subLine => {
+                if (subLine.match(/^router-id\s+([\d.]+)/)) ospfv3.routerId = subLine.match(/^router-id\s+([\d.]+)/)![1];
+                else if (subLine.match(/^passive-interface\s+(\S+)/)) ospfv3.passiveInterfaces.push(subLine.match(/^passive-interface\s+(\S+)/)![1]);
+                else ospfv3.details.push(subLine);
+            });
+        }
+        else if ((match = line.match(/^vpc\s+domain\s+(\d+)/))) {
+            const domain: VpcInfo = { domainId: match[1], peerGateway: false, memberPortChannels: [], rawConfig: [line, ...subLines] };
+            descendants(node).forEach(child => {
+                const subLine = child.line;
+                const keepaliveMatch = subLine.match(/^peer-keepalive\s+destination\s+(\S+)(?:\s+source\s+(\S+))?(?:.*\svrf\s+(\S+))?/);
+                if (keepaliveMatch) domain.peerKeepalive = { destination: keepaliveMatch[1], source: keepaliveMatch[2], vrf: keepaliveMatch[3] };
+                else if (subLine.match(/^role\s+priority\s+(\d+)/)) domain.rolePriority = subLine.match(/^role\s+priority\s+(\d+)/)![1];
+                else if (subLine.match(/^system-priority\s+(\d+)/)) domain.systemPriority = subLine.match(/^system-priority\s+(\d+)/)![1];
+                else if (subLine === 'peer-gateway') domain.peerGateway = true;
+                else return;
+                child.read = true;
+            });
+            vpc = domain;
+        }
+        else if ((match = line.match(/^snmp-server\s+(.+)/))) { data.snmp!.status = 'Configured'; data.snmp!.details.push(match[1]); }
+        else if ((match = line.match(/^ip\s+dhcp\s+pool\s+(\S+)/))) {
+            const poolLines = readMatching(descendants(node), subLine => /^network\s+([\d.]+)\s+(\/?[\d.]+)/.test(subLine) || /^default-router\s+(\S+)/.test(subLine) || /^dns-server\s+(.+)/.test(subLine));
+            data.dhcpPools!.push({ name: match[1], config: [line, ...poolLines.map(l => l.line)] });
         }
+        else if (line === 'aaa new-model') aaaNewModel = true;
+        else if ((match = line.match(/^aaa\s+(authentication|authorization|accounting)\s+(.+)/))) aaaMethods.push({ kind: match[1], method: match[2] });
+        else if ((match = line.match(/^username\s+(\S+)/))) data.usernames!.push({ name: match[1], config: line });
+        else if ((match = line.match(/^line\s+(con|vty)\s+(\d+\s+\d+|\d+)/)) || (isNxos && line.match(/^line\s+(console|vty)$/))) {
+            const [, type, range] = match || [line, line.includes('vty') ? 'vty' : 'con', 'all'];
+            const connection: ConnectionInfo = { type, range, config: [line, ...subLines], usernames: [] };
+            const description = readMatching(descendants(node), l => /^description\s+/.test(l))[0];
+            if (description) connection.description = description.line.replace(/^description\s+/, '');
+            if (readMatching(descendants(node), l => l === 'login local').length > 0) localLogins.push(connection);
+            data.connections!.push(connection);
+        }
+        else return;
+        node.read = true;
+    });
+
+    // "login local" authenticates against every local user, wherever they are defined
+    localLogins.forEach(c => { c.usernames = data.usernames!.map(u => u.name); });
+
+    // NX-OS has no "aaa new-model"; any aaa method list means AAA is in use
+    if (aaaNewModel || (isNxos && aaaMethods.length > 0)) {
+        data.aaa!.status = 'Configured';
+        if (aaaNewModel) data.aaa!.details.push('AAA Enabled');
+        data.aaa!.details.push(...aaaMethods.map(({ kind, method }) => `${kind.charAt(0).toUpperCase()}${kind.slice(1)}: ${method}`));
+        data.security!.present.push('AAA Authentication');
+    }
+
+    if (data.ospfv3!.interfaces.length > 0) data.ospfv3!.status = 'Configured';
+
+    const eigrp = parseEigrp(tree);
+    if (eigrp.length > 0) data.eigrp = eigrp;
+    data.bgp = parseBgp(tree);
+
+    const { accessLists, bindings } = parseAccessLists(tree, isNxos);
+    data.accessLists = accessLists;
+    data.aclBindings = bindings;
+    data.snmp!.acls = accessLists
+        .filter(acl => bindings.some(b => b.kind === 'snmp' && b.acl === acl.name))
+        .map(acl => ({ name: acl.name, rules: acl.rawConfig }));
+
+    if (vpc) {
+        const domain: VpcInfo = vpc;
+        domain.peerLink = vpcPeerLink;
+        domain.memberPortChannels = vpcMembers;
+        data.vpc = domain;
+    }
+
+    // NX-OS enables OSPF per interface, so derive the advertised networks from the interface addresses
+    if (interfaceOspf.length > 0) data.ospf!.status = 'Configured';
+    interfaceOspf.forEach(({ iface, area }) => {
+        const address = interfaceAddresses.get(iface);
+        if (!address) {
+            data.ospf!.details.push(`Area ${area}: interface ${iface}`);
+            return;
+        }
+        const network = longToIp(ipToLong(address.ip) & ipToLong(address.mask));
+        data.ospf!.networks!.push({ network, wildcard: maskToWildcard(address.mask), area });
+    });
+
+    const vtpMode = readMatching(nodes, l => /^vtp\s+mode\s+\S+/.test(l))[0]?.line.match(/^vtp\s+mode\s+(\S+)/)![1];
+    if (isNxos) {
+        // NX-OS hashes passwords by default, runs SSH unless disabled and only serves HTTP through NX-API
+        if (!hasLine(l => /\bpassword\s+0\s/.test(l))) data.security!.present.push('Password Encryption');
+        if (!data.features!.includes('vtp')) data.security!.present.push('VTP Mode: off');
+        else if (vtpMode) data.security!.present.push(`VTP Mode: ${vtpMode}`);
+        if (!hasLine(l => l === 'no feature ssh')) data.security!.present.push('SSH Enabled');
+        if (!hasLine(l => /^nxapi\s+http\s/.test(l))) data.security!.present.push('HTTP/HTTPS Server Disabled');
+    } else {
+        // Whole-line matches, so the "no ..." form of a command does not count as the command
+        if (hasLine(l => l === 'service password-encryption')) data.security!.present.push('Password Encryption');
+        if (vtpMode) data.security!.present.push(`VTP Mode: ${vtpMode}`);
+        if (hasLine(l => l.startsWith('ip ssh '))) data.security!.present.push('SSH Enabled');
+        const httpDisabled = hasLine(l => l === 'no ip http server');
+        const httpsDisabled = hasLine(l => l === 'no ip http secure-server');
+        if (httpDisabled && httpsDisabled) data.security!.present.push('HTTP/HTTPS Server Disabled');
     }
-    if (lines.some(l => l.includes('service password-encryption'))) data.security!.present.push('Password Encryption');
-    if (lines.some(l => l.match(/^vtp\s+mode\s+(\S+)/))) data.security!.present.push(`VTP Mode: ${lines.find(l => l.match(/^vtp\s+mode\s+(\S+)/))!.match(/^vtp\s+mode\s+(\S+)/)![1]}`);
-    if (lines.some(l => l.includes('ip ssh'))) data.security!.present.push('SSH Enabled');
-    if (lines.some(l => l.includes('no ip http server') && l.includes('no ip http secure-server'))) data.security!.present.push('HTTP/HTTPS Server Disabled');
-    if (data.ports!.some(p => p.config.some(c => c.includes('switchport port-security')))) data.security!.present.push('Port Security on Access Ports');
-    if (data.ports!.some(p => p.config.some(c => c.includes('spanning-tree bpduguard enable')))) data.security!.present.push('BPDU Guard');
-    if (lines.some(l => l.includes('ip dhcp snooping'))) data.security!.present.push('DHCP Snooping');
-    if (lines.some(l => l.includes('ip arp inspection'))) data.security!.present.push('Dynamic ARP Inspection');
+    if (readMatching(portLines, l => l.startsWith('switchport port-security')).length > 0) data.security!.present.push('Port Security on Access Ports');
+    const portBpduGuard = readMatching(portLines, l => l === 'spanning-tree bpduguard enable').length > 0;
+    const globalBpduGuard = hasLine(l => l === 'spanning-tree port type edge bpduguard default');
+    if (portBpduGuard || globalBpduGuard) data.security!.present.push('BPDU Guard');
+    if (hasLine(l => l.startsWith('ip dhcp snooping'))) data.security!.present.push('DHCP Snooping');
+    if (hasLine(l => l.startsWith('ip arp inspection'))) data.security!.present.push('Dynamic ARP Inspection');
+    // Exact match, so a VTP mode other than "off" is reported as missing
     data.security!.missing = ['Password Encryption', 'VTP Mode: off', 'SSH Enabled', 'HTTP/HTTPS Server Disabled', 'Port Security on Access Ports', 'BPDU Guard', 'DHCP Snooping', 'Dynamic ARP Inspection']
-        .filter(f => !data.security!.present.some(p => p.includes(f.split(':')[0])));
-    data.ports = consolidatePortRange(data.ports!);
+        .filter(f => !data.security!.present.includes(f));
+    data.ports = sortPorts(data.ports!);
+    data.diagnostics = buildParserDiagnostics(tree.map(toDiagnosticBlock), data, warnings);
     return data;
 }
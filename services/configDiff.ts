@@ -0,0 +1,129 @@
+import { ParsedConfigData, ConfigDiffEntry, UnifiedDiffLine, PortConfig } from '../types';
+import { describeSviIpv6 } from './parserUtils';
+
+// Lines that only delimit blocks and carry no configuration
+const isDelimiter = (line: string) => /^\s*[!#]\s*$/.test(line) || line.trim() === '';
+
+const portBody = (port: PortConfig): string => {
+    return port.config.slice(1).filter(line => !isDelimiter(line)).map(line => line.trim()).join('\n');
+};
+
+function diffKeyed<T>(
+    section: string,
+    before: T[],
+    after: T[],
+    getKey: (item: T) => string,
+    describe: (item: T) => string,
+): ConfigDiffEntry[] {
+    const entries: ConfigDiffEntry[] = [];
+    const beforeMap = new Map(before.map(item => [getKey(item), item]));
+    const afterMap = new Map(after.map(item => [getKey(item), item]));
+
+    beforeMap.forEach((item, key) => {
+        const counterpart = afterMap.get(key);
+        if (!counterpart) {
+            entries.push({ section, key, change: 'removed', before: describe(item) });
+        } else if (describe(item) !== describe(counterpart)) {
+            entries.push({ section, key, change: 'changed', before: describe(item), after: describe(counterpart) });
+        }
+    });
+    afterMap.forEach((item, key) => {
+        if (!beforeMap.has(key)) entries.push({ section, key, change: 'added', after: describe(item) });
+    });
+    return entries;
+}
+
+function diffLists(section: string, before: string[], after: string[]): ConfigDiffEntry[] {
+    return diffKeyed(section, Array.from(new Set(before)), Array.from(new Set(after)), item => item, item => item);
+}
+
+/**
+ * Compares two parsed versions of the same device section by section.
+ * @returns One entry per VLAN, SVI, port, OSPF network, compliance item or SNMP/AAA line that changed.
+ */
+export const diffParsedConfigs = (before: ParsedConfigData, after: ParsedConfigData): ConfigDiffEntry[] => {
+    const entries: ConfigDiffEntry[] = [];
+
+    if ((before.hostname || '') !== (after.hostname || '')) {
+        entries.push({ section: 'Device', key: 'Hostname', change: 'changed', before: before.hostname, after: after.hostname });
+    }
+    if ((before.iosVersion || '') !== (after.iosVersion || '')) {
+        entries.push({ section: 'Device', key: 'OS Version', change: 'changed', before: before.iosVersion, after: after.iosVersion });
+    }
+
+    entries.push(...diffKeyed('VLANs', before.vlans || [], after.vlans || [], v => `VLAN ${v.id}`, v => v.name));
+    entries.push(...diffKeyed('SVIs', before.svis || [], after.svis || [], s => s.svi,
+        s => `${s.ipAddress}${s.subnetMask ? ` ${s.subnetMask}` : ''}${describeSviIpv6(s) ? ` | IPv6 ${describeSviIpv6(s)}` : ''} | helper ${s.ipHelperAddress} | ${s.status}`));
+    entries.push(...diffKeyed('Ports', before.ports || [], after.ports || [], p => p.port, portBody));
+
+    const ospfNetwork = (n: { network: string, wildcard: string, area: string }) => `${n.network} ${n.wildcard} area ${n.area}`;
+    entries.push(...diffLists('OSPF Networks', (before.ospf?.networks || []).map(ospfNetwork), (after.ospf?.networks || []).map(ospfNetwork)));
+    if ((before.ospf?.routerId || '') !== (after.ospf?.routerId || '')) {
+        entries.push({ section: 'OSPF Networks', key: 'Router ID', change: 'changed', before: before.ospf?.routerId, after: after.ospf?.routerId });
+    }
+
+    entries.push(...diffLists('Security Compliance (Present)', before.security?.present || [], after.security?.present || []));
+    entries.push(...diffLists('Security Compliance (Missing)', before.security?.missing || [], after.security?.missing || []));
+    entries.push(...diffLists('SNMP', before.snmp?.details || [], after.snmp?.details || []));
+    entries.push(...diffLists('AAA', before.aaa?.details || [], after.aaa?.details || []));
+
+    return entries;
+};
+
+// Beyond this many edits the Myers trace gets too large to keep in memory
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Line-based diff of two raw configurations using the Myers algorithm.
+ * @returns Every line of both files, tagged as context, added or removed.
+ */
+export const diffRawConfigs = (beforeText: string, afterText: string): UnifiedDiffLine[] => {
+    const a = beforeText.split(/\r?\n/);
+    const b = afterText.split(/\r?\n/);
+    const n = a.length, m = b.length, max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 2);
+    // trace[d] holds the furthest x per diagonal k in [-d - 1, d + 1] before round d
+    const trace: Int32Array[] = [];
+    let found = false;
+
+    for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && !found; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) { found = true; break; }
+        }
+    }
+
+    if (!found) {
+        return [
+            ...a.map((text, i) => ({ type: 'removed' as const, text, oldLineNumber: i + 1 })),
+            ...b.map((text, i) => ({ type: 'added' as const, text, newLineNumber: i + 1 })),
+        ];
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const result: UnifiedDiffLine[] = [];
+    let x = n, y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const vd = trace[d];
+        const at = (k: number) => vd[k + d + 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+        const prevX = d > 0 ? at(prevK) : 0;
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            result.push({ type: 'context', text: a[x - 1], oldLineNumber: x, newLineNumber: y });
+            x--; y--;
+        }
+        if (d > 0) {
+            if (x === prevX) result.push({ type: 'added', text: b[y - 1], newLineNumber: y });
+            else result.push({ type: 'removed', text: a[x - 1], oldLineNumber: x });
+        }
+        x = prevX; y = prevY;
+    }
+    return result.reverse();
+};
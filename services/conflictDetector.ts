@@ -0,0 +1,190 @@
+import { ParsedConfigData, AnalysisFinding, IpRangeInfo } from '../types';
+import { rangeToLongs, ipv6PrefixBounds, parseIpv6 } from './ipUtils';
+
+// SNMP lines that are expected to differ from device to device
+const DEVICE_SPECIFIC_SNMP_PATTERN = /^(location|contact|chassis-id|engineid)\b/i;
+
+export const getDeviceLabel = (config: ParsedConfigData): string => {
+    return config.hostname || config.deviceInfo?.hostname || config.fileName || 'Unknown device';
+};
+
+// Bounds as bigints so IPv4 and IPv6 ranges share one comparison; the version keeps the two apart
+const getRangeBounds = (range: IpRangeInfo): [bigint, bigint] | null => {
+    if (range.ipVersion === 6) return range.prefixLength !== undefined ? ipv6PrefixBounds(range.network.split('/')[0], range.prefixLength) : null;
+    const longs = rangeToLongs(range.network, range.broadcast);
+    return longs ? [BigInt(longs[0]), BigInt(longs[1])] : null;
+};
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function detectOverlappingSubnets(configs: ParsedConfigData[]): AnalysisFinding[] {
+    const findings: AnalysisFinding[] = [];
+    const entries: { device: string; range: IpRangeInfo; bounds: [bigint, bigint] }[] = [];
+
+    configs.forEach(config => {
+        const device = getDeviceLabel(config);
+        (config.ipRanges || []).forEach(range => {
+            const bounds = getRangeBounds(range);
+            if (bounds) entries.push({ device, range, bounds });
+        });
+    });
+
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            const a = entries[i], b = entries[j];
+            if (a.device === b.device || (a.range.ipVersion || 4) !== (b.range.ipVersion || 4)) continue;
+            if (a.bounds[0] > b.bounds[1] || b.bounds[0] > a.bounds[1]) continue;
+
+            const sameSubnet = a.bounds[0] === b.bounds[0] && a.bounds[1] === b.bounds[1];
+            const sameIp = a.range.ipVersion === 6
+                ? parseIpv6(a.range.ipAddress) !== null && parseIpv6(a.range.ipAddress) === parseIpv6(b.range.ipAddress)
+                : a.range.ipAddress === b.range.ipAddress;
+            let description: string, severity: AnalysisFinding['severity'], recommendation: string;
+
+            if (sameIp) {
+                description = `Duplicate IP address ${a.range.ipAddress} on ${a.device} ${a.range.svi} and ${b.device} ${b.range.svi}`;
+                severity = 'Critical';
+                recommendation = 'Assign a unique IP address to one of the SVIs. If a shared gateway is intended, use a first-hop redundancy protocol (HSRP/VRRP) virtual IP instead of duplicating the interface address.';
+            } else if (sameSubnet) {
+                description = `Subnet ${a.range.network} is configured on both ${a.device} (${a.range.svi}) and ${b.device} (${b.range.svi})`;
+                severity = 'Medium';
+                recommendation = 'Confirm this is an intentional redundant gateway pair (HSRP/VRRP). Otherwise, move one of the SVIs to a different subnet.';
+            } else {
+                description = `Overlapping subnets ${a.range.network} (${a.device} ${a.range.svi}) and ${b.range.network} (${b.device} ${b.range.svi})`;
+                severity = 'High';
+                recommendation = 'Re-address one of the SVIs so the subnets no longer overlap, or correct the subnet mask on the misconfigured interface.';
+            }
+
+            findings.push({
+                id: `conflict_subnet_${findings.length + 1}`,
+                type: 'Conflict',
+                description,
+                devicesInvolved: [a.device, b.device],
+                details: {
+                    [a.device]: { svi: a.range.svi, vlanId: a.range.vlanId, ipAddress: a.range.ipAddress, subnetMask: a.range.subnetMask, network: a.range.network },
+                    [b.device]: { svi: b.range.svi, vlanId: b.range.vlanId, ipAddress: b.range.ipAddress, subnetMask: b.range.subnetMask, network: b.range.network },
+                },
+                recommendation,
+                severity,
+            });
+        }
+    }
+    return findings;
+}
+
+function detectVlanMismatches(configs: ParsedConfigData[]): AnalysisFinding[] {
+    const findings: AnalysisFinding[] = [];
+    const namesById = new Map<string, Map<string, string[]>>();
+    const idsByName = new Map<string, Map<string, string[]>>();
+    const displayNames = new Map<string, string>();
+
+    configs.forEach(config => {
+        const device = getDeviceLabel(config);
+        (config.vlans || []).forEach(vlan => {
+            if (!namesById.has(vlan.id)) namesById.set(vlan.id, new Map());
+            const byName = namesById.get(vlan.id)!;
+            byName.set(vlan.name, [...(byName.get(vlan.name) || []), device]);
+
+            if (vlan.name === 'Unnamed') return;
+            const key = normalize(vlan.name);
+            if (!idsByName.has(key)) {
+                idsByName.set(key, new Map());
+                displayNames.set(key, vlan.name);
+            }
+            const byId = idsByName.get(key)!;
+            byId.set(vlan.id, [...(byId.get(vlan.id) || []), device]);
+        });
+    });
+
+    namesById.forEach((byName, vlanId) => {
+        if (byName.size < 2) return;
+        const devices = Array.from(new Set(Array.from(byName.values()).flat()));
+        if (devices.length < 2) return;
+        const onlyCaseDiffers = new Set(Array.from(byName.keys()).map(normalize)).size === 1;
+        findings.push({
+            id: `conflict_vlan_name_${vlanId}`,
+            type: 'Conflict',
+            description: `VLAN ${vlanId} has different names across devices`,
+            devicesInvolved: devices,
+            details: Object.fromEntries(Array.from(byName.entries()).map(([name, devs]) => [name, devs])),
+            recommendation: `Standardize the name of VLAN ${vlanId} on all devices so that it reflects the same segment everywhere.`,
+            severity: onlyCaseDiffers ? 'Low' : 'Medium',
+        });
+    });
+
+    idsByName.forEach((byId, name) => {
+        if (byId.size < 2) return;
+        const devices = Array.from(new Set(Array.from(byId.values()).flat()));
+        if (devices.length < 2) return;
+        findings.push({
+            id: `conflict_vlan_id_${name.replace(/[^a-z0-9]+/g, '_')}`,
+            type: 'Conflict',
+            description: `VLAN name "${displayNames.get(name)}" is used with different VLAN IDs (${Array.from(byId.keys()).join(', ')})`,
+            devicesInvolved: devices,
+            details: Object.fromEntries(Array.from(byId.entries()).map(([id, devs]) => [`VLAN ${id}`, devs])),
+            recommendation: 'Verify which VLAN ID is correct for this segment and align trunks and access ports on all devices.',
+            severity: 'Medium',
+        });
+    });
+
+    return findings;
+}
+
+/**
+ * Compares a setting across devices. Devices are grouped by their normalized
+ * settings; more than one group means the fleet is inconsistent.
+ */
+function detectSettingInconsistency(
+    configs: ParsedConfigData[],
+    setting: 'SNMP' | 'AAA',
+    getSettings: (config: ParsedConfigData) => { status: string; details: string[] } | undefined,
+): AnalysisFinding[] {
+    const groups = new Map<string, { devices: string[]; status: string; details: string[] }>();
+
+    configs.forEach(config => {
+        const settings = getSettings(config);
+        const status = settings?.status || 'Not configured';
+        const details = Array.from(new Set((settings?.details || []).map(normalize))).sort();
+        const key = JSON.stringify([status, details]);
+        if (!groups.has(key)) groups.set(key, { devices: [], status, details });
+        groups.get(key)!.devices.push(getDeviceLabel(config));
+    });
+
+    if (groups.size < 2) return [];
+
+    const groupList = Array.from(groups.values());
+    const allDevices = groupList.flatMap(g => g.devices);
+    const statusDiffers = new Set(groupList.map(g => g.status)).size > 1;
+
+    return [{
+        id: `conflict_${setting.toLowerCase()}_inconsistent`,
+        type: 'Conflict',
+        description: statusDiffers
+            ? `${setting} is configured on some devices but not on others`
+            : `${setting} settings differ between devices`,
+        devicesInvolved: allDevices,
+        details: groupList.map(g => ({ devices: g.devices, status: g.status, settings: g.details })),
+        recommendation: `Apply one ${setting} baseline to every device so that management access and monitoring behave consistently.`,
+        severity: statusDiffers ? 'High' : 'Medium',
+    }];
+}
+
+/**
+ * Runs the deterministic cross-device checks against all parsed configurations.
+ * This works entirely offline; no Gemini API key is required.
+ * @param configs The parsed configurations of every device in scope.
+ * @returns Findings of type 'Conflict', each listing the devices involved.
+ */
+export const detectConflicts = (configs: ParsedConfigData[]): AnalysisFinding[] => {
+    if (configs.length < 2) return [];
+
+    return [
+        ...detectOverlappingSubnets(configs),
+        ...detectVlanMismatches(configs),
+        ...detectSettingInconsistency(configs, 'SNMP', config => config.snmp && {
+            status: config.snmp.status,
+            details: config.snmp.details.filter(d => !DEVICE_SPECIFIC_SNMP_PATTERN.test(d)),
+        }),
+        ...detectSettingInconsistency(configs, 'AAA', config => config.aaa),
+    ];
+};
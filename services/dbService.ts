@@ -1,10 +1,56 @@
-import { AnalysisFinding } from '../types';
+import { AnalysisFinding, ParsedConfigData, StoredDevice, AnalysisRun, StoredFinding, PolicyPack } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { getDeviceId } from './deviceIdentity';
 
 const DB_NAME = 'NetConfigDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'findings';
+const DB_VERSION = 3;
+const DEVICES_STORE = 'devices';
+const RUNS_STORE = 'analysisRuns';
+const FINDINGS_STORE = 'findings';
+const POLICY_PACKS_STORE = 'policyPacks';
 let db: IDBDatabase;
 
+/**
+ * Schema migrations, indexed by the version they upgrade to.
+ * Each one runs inside the versionchange transaction, in order, for every version above the stored one.
+ */
+const MIGRATIONS: Record<number, (dbInstance: IDBDatabase) => void> = {
+  1: (dbInstance) => {
+    dbInstance.createObjectStore(FINDINGS_STORE, { keyPath: 'id' });
+  },
+  2: (dbInstance) => {
+    // Version 1 findings were wiped on every run and belong to no run, so there is nothing to carry over
+    if (dbInstance.objectStoreNames.contains(FINDINGS_STORE)) {
+      dbInstance.deleteObjectStore(FINDINGS_STORE);
+    }
+    const devices = dbInstance.createObjectStore(DEVICES_STORE, { keyPath: 'id' });
+    devices.createIndex('hostname', 'hostname');
+    const runs = dbInstance.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+    runs.createIndex('timestamp', 'timestamp');
+    const findings = dbInstance.createObjectStore(FINDINGS_STORE, { keyPath: 'key' });
+    findings.createIndex('runId', 'runId');
+    findings.createIndex('deviceIds', 'deviceIds', { multiEntry: true });
+  },
+  3: (dbInstance) => {
+    dbInstance.createObjectStore(POLICY_PACKS_STORE, { keyPath: 'id' });
+  },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>, errorMessage: string): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(errorMessage);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction, errorMessage: string): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => reject(errorMessage);
+    transaction.onabort = () => reject(errorMessage);
+  });
+};
+
 export const initDB = (): Promise<boolean> => {
   return new Promise((resolve, reject) => {
     if (db) {
@@ -21,58 +67,121 @@ export const initDB = (): Promise<boolean> => {
     };
     request.onupgradeneeded = (event) => {
       const dbInstance = (event.target as IDBOpenDBRequest).result;
-      if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
-        dbInstance.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version](dbInstance);
       }
     };
   });
 };
 
-export const saveFindings = (findings: AnalysisFinding[]): Promise<boolean> => {
-  return new Promise((resolve, reject) => {
-    if (!db) return reject("DB not initialized");
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    let completed = 0;
-    
-    // First, clear existing findings to not have duplicates from previous analysis runs on same files
-    const clearRequest = store.clear();
-    clearRequest.onerror = () => reject("Error clearing store");
-    clearRequest.onsuccess = () => {
-        if (findings.length === 0) {
-            resolve(true);
-            return;
-        }
-        findings.forEach(finding => {
-            const putRequest = store.put(finding);
-            putRequest.onsuccess = () => {
-                completed++;
-                if (completed === findings.length) resolve(true);
-            };
-            putRequest.onerror = () => reject("Error saving finding");
-        });
-    }
-  });
+export const saveDevices = (configs: ParsedConfigData[]): Promise<StoredDevice[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([DEVICES_STORE], 'readwrite');
+  const store = transaction.objectStore(DEVICES_STORE);
+  const lastParsed = new Date().toISOString();
+  const devices: StoredDevice[] = configs.map(config => ({
+    id: getDeviceId(config),
+    hostname: getDeviceLabel(config),
+    vendor: config.vendor!,
+    osVersion: config.iosVersion || config.deviceInfo?.osVersion,
+    model: config.modelNumber || config.deviceInfo?.model,
+    fileName: config.fileName,
+    lastParsed,
+    rawConfig: config.rawConfig || '',
+    parsed: config,
+  }));
+  devices.forEach(device => store.put(device));
+  return transactionDone(transaction, "Error saving devices").then(() => devices);
 };
 
-export const getAllFindings = (): Promise<AnalysisFinding[]> => {
-  return new Promise((resolve, reject) => {
-    if (!db) return reject("DB not initialized");
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject("Error fetching findings");
+export const getAllDevices = (): Promise<StoredDevice[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const store = db.transaction([DEVICES_STORE], 'readonly').objectStore(DEVICES_STORE);
+  return requestToPromise(store.getAll(), "Error fetching devices")
+    .then(devices => (devices as StoredDevice[]).sort((a, b) => a.hostname.localeCompare(b.hostname)));
+};
+
+export const deleteDevice = (deviceId: string): Promise<boolean> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([DEVICES_STORE], 'readwrite');
+  transaction.objectStore(DEVICES_STORE).delete(deviceId);
+  return transactionDone(transaction, "Error deleting device");
+};
+
+/**
+ * Records an analysis run and its findings in a single transaction.
+ * Each finding is linked to the inventory IDs of the devices it names.
+ */
+export const saveAnalysisRun = (configs: ParsedConfigData[], findings: AnalysisFinding[]): Promise<AnalysisRun> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([RUNS_STORE, FINDINGS_STORE], 'readwrite');
+  const timestamp = new Date().toISOString();
+  const run: AnalysisRun = {
+    id: `run-${Date.now()}`,
+    timestamp,
+    deviceIds: configs.map(getDeviceId),
+    findingCount: findings.length,
+  };
+  // Several files can share a hostname, so a label maps to every one of their devices
+  const idsByLabel = new Map<string, string[]>();
+  configs.forEach(config => idsByLabel.set(getDeviceLabel(config), [...(idsByLabel.get(getDeviceLabel(config)) || []), getDeviceId(config)]));
+
+  transaction.objectStore(RUNS_STORE).put(run);
+  const findingStore = transaction.objectStore(FINDINGS_STORE);
+  findings.forEach(finding => {
+    const stored: StoredFinding = {
+      ...finding,
+      key: `${run.id}:${finding.id}`,
+      runId: run.id,
+      deviceIds: (finding.devicesInvolved || []).flatMap(label => idsByLabel.get(label) || []),
+    };
+    findingStore.put(stored);
   });
+  return transactionDone(transaction, "Error saving analysis run").then(() => run);
+};
+
+export const getAnalysisRuns = (): Promise<AnalysisRun[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const store = db.transaction([RUNS_STORE], 'readonly').objectStore(RUNS_STORE);
+  return requestToPromise(store.getAll(), "Error fetching analysis runs")
+    .then(runs => (runs as AnalysisRun[]).sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+};
+
+export const getFindingsForRun = (runId: string): Promise<StoredFinding[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const index = db.transaction([FINDINGS_STORE], 'readonly').objectStore(FINDINGS_STORE).index('runId');
+  return requestToPromise(index.getAll(runId), "Error fetching findings") as Promise<StoredFinding[]>;
+};
+
+export const getFindingsForDevice = (deviceId: string): Promise<StoredFinding[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const index = db.transaction([FINDINGS_STORE], 'readonly').objectStore(FINDINGS_STORE).index('deviceIds');
+  return requestToPromise(index.getAll(deviceId), "Error fetching findings") as Promise<StoredFinding[]>;
+};
+
+export const clearAllData = (): Promise<boolean> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([DEVICES_STORE, RUNS_STORE, FINDINGS_STORE], 'readwrite');
+  [DEVICES_STORE, RUNS_STORE, FINDINGS_STORE].forEach(name => transaction.objectStore(name).clear());
+  return transactionDone(transaction, "Error clearing database");
+};
+
+export const savePolicyPack = (pack: PolicyPack): Promise<boolean> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([POLICY_PACKS_STORE], 'readwrite');
+  transaction.objectStore(POLICY_PACKS_STORE).put(pack);
+  return transactionDone(transaction, "Error saving policy pack");
+};
+
+export const getPolicyPacks = (): Promise<PolicyPack[]> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const store = db.transaction([POLICY_PACKS_STORE], 'readonly').objectStore(POLICY_PACKS_STORE);
+  return requestToPromise(store.getAll(), "Error fetching policy packs") as Promise<PolicyPack[]>;
 };
 
-export const clearFindings = (): Promise<boolean> => {
-    return new Promise((resolve, reject) => {
-      if (!db) return reject("DB not initialized");
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.clear();
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => reject("Error clearing findings");
-    });
+export const deletePolicyPack = (packId: string): Promise<boolean> => {
+  if (!db) return Promise.reject("DB not initialized");
+  const transaction = db.transaction([POLICY_PACKS_STORE], 'readwrite');
+  transaction.objectStore(POLICY_PACKS_STORE).delete(packId);
+  return transactionDone(transaction, "Error deleting policy pack");
 };
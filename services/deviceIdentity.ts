@@ -0,0 +1,11 @@
+import { ParsedConfigData } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+
+/**
+ * Builds the inventory key for a parsed device: the ID generated for the upload it was parsed from.
+ * Two backups of one switch, or an edited file uploaded again under the same name, are kept as
+ * separate entries. Configs that did not come from an upload fall back to the device label.
+ */
+export const getDeviceId = (config: ParsedConfigData): string => {
+    return config.deviceId || getDeviceLabel(config);
+};
@@ -0,0 +1,203 @@
+import { ParsedConfigData, AnalysisFinding } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { describeSviIpv6, formatAddressCount } from './parserUtils';
+import { describeAclMatch } from './aclAnalysis';
+
+// Loaded from CDN in index.html
+declare var XLSX: any;
+declare var JSZip: any;
+
+type Cell = string | number;
+
+export interface ExportTable {
+    name: string; // Sheet and CSV file name, at most 31 characters for Excel
+    headers: string[];
+    rows: Cell[][];
+}
+
+const matchLine = (lines: string[], pattern: RegExp): string => {
+    for (const line of lines) {
+        const match = line.trim().match(pattern);
+        if (match) return match.slice(1).filter(Boolean).join(' ');
+    }
+    return '';
+};
+
+const formatDetails = (details: any): string => {
+    if (details === undefined || details === null) return '';
+    return typeof details === 'string' ? details : JSON.stringify(details);
+};
+
+/**
+ * Flattens the parsed devices and analysis findings into one table per report section.
+ * Every device table starts with a Device column so several devices can share a sheet.
+ */
+export const buildExportTables = (configs: ParsedConfigData[], findings: AnalysisFinding[]): ExportTable[] => {
+    const perDevice = (build: (config: ParsedConfigData, device: string) => Cell[][]) =>
+        configs.flatMap(config => build(config, getDeviceLabel(config)));
+
+    return [
+        {
+            name: 'VLANs',
+            headers: ['Device', 'VLAN ID', 'Name', 'Status', 'Ports'],
+            rows: perDevice((config, device) => (config.vlans || []).map(v => [device, Number(v.id) || v.id, v.name, v.status || '', (v.ports || []).join(', ')])),
+        },
+        {
+            name: 'SVIs',
+            headers: ['Device', 'SVI', 'VLAN', 'IP Address', 'Subnet Mask', 'IPv6', 'IP Helper', 'Status', 'HSRP', 'Additional Info'],
+            rows: perDevice((config, device) => (config.svis || []).map(s => [
+                device, s.svi, s.vlanId, s.ipAddress, s.subnetMask, describeSviIpv6(s), s.ipHelperAddress, s.status,
+                (s.hsrp || []).map(h => `group ${h.group} ${h.virtualIp}${h.priority ? ` priority ${h.priority}` : ''}`).join('; '),
+                s.additionalInfo,
+            ])),
+        },
+        {
+            name: 'IP Ranges',
+            headers: ['Device', 'VLAN', 'SVI', 'Network', 'Subnet Mask', 'Gateway', 'Usable Range', 'Broadcast', 'Total Addresses', 'Usable Addresses', 'Status'],
+            rows: perDevice((config, device) => (config.ipRanges || []).map(r => [
+                device, r.vlanId, r.svi, r.network, r.subnetMask, r.gateway, r.usableRange, r.broadcast, formatAddressCount(r, r.totalAddresses), formatAddressCount(r, r.usableAddresses), r.status,
+            ])),
+        },
+        {
+            name: 'Ports',
+            headers: ['Device', 'Port', 'Type', 'Description', 'Status', 'Link Status', 'Speed', 'Duplex', 'Mode', 'Access VLAN', 'Voice VLAN', 'Native VLAN', 'Allowed VLANs', 'IP Address', 'Subnet Mask', 'VRF', 'dot1Q Tag', 'Configured Speed', 'Configured Duplex', 'Member Of', 'Configuration'],
+            rows: perDevice((config, device) => (config.ports || []).map(p => [
+                device, p.port, p.type, p.description, p.status, p.linkStatus || '', p.speed || '', p.duplex || '',
+                p.mode || '', p.accessVlan || '', p.voiceVlan || '', p.nativeVlan || '', p.mode === 'trunk' || p.mode === 'hybrid' ? p.allowedVlans || 'all' : '',
+                p.ipAddress || '', p.subnetMask || '', p.vrf || '', p.encapsulationVlan || '', p.configuredSpeed || '', p.configuredDuplex || '',
+                p.members.join(', '), p.config.join('\n'),
+            ])),
+        },
+        {
+            name: 'Port-Channels & Uplinks',
+            headers: ['Device', 'Interface', 'Role', 'Members', 'Description'],
+            rows: perDevice((config, device) => [
+                ...(config.portChannels || []).map(pc => {
+                    // Member entries look like "Port-channel1 (active)"
+                    const members = (config.ports || []).filter(p => p.members.some(m => m.split(' ')[0] === pc)).map(p => p.port);
+                    const port = (config.ports || []).find(p => p.port === pc);
+                    return [device, pc, 'Port-Channel', members.join(', '), port?.description || ''];
+                }),
+                ...(config.uplinks || []).map(uplink => {
+                    const port = (config.ports || []).find(p => p.port === uplink);
+                    return [device, uplink, 'Uplink', port?.members.join(', ') || '', port?.description || ''];
+                }),
+            ]),
+        },
+        {
+            name: 'OSPF Networks',
+            headers: ['Device', 'Process ID', 'Router ID', 'Network', 'Wildcard', 'Area'],
+            rows: perDevice((config, device) => (config.ospf?.networks || []).map(n => [
+                device, config.ospf?.processId || '', config.ospf?.routerId || '', n.network, n.wildcard, n.area,
+            ])),
+        },
+        {
+            name: 'Static Routes',
+            headers: ['Device', 'VRF', 'Prefix', 'Mask', 'Next Hop', 'Interface', 'AD', 'Name', 'Tag', 'Track', 'Configuration'],
+            rows: perDevice((config, device) => (config.routing?.staticRoutes || []).map(r => [
+                device, r.vrf || 'global', r.prefix, r.mask, r.nextHop || '', r.interface || '', r.distance ?? '', r.name || '', r.tag || '',
+                `${r.track || ''}${r.permanent ? ' permanent' : ''}`.trim(), r.rawConfig,
+            ])),
+        },
+        {
+            name: 'EIGRP',
+            headers: ['Device', 'Process', 'AS Number', 'VRF', 'Router ID', 'Networks', 'Interfaces', 'Passive Interfaces', 'Redistribute'],
+            rows: perDevice((config, device) => (config.eigrp || []).map(e => [
+                device, e.process, e.asNumber || '', e.vrf || '', e.routerId || '',
+                e.networks.map(n => n.wildcard ? `${n.network} ${n.wildcard}` : n.network).join(', '),
+                e.interfaces.join(', '), e.passiveInterfaces.join(', '), e.redistribute.join(', '),
+            ])),
+        },
+        {
+            name: 'BGP Neighbors',
+            headers: ['Device', 'Local AS', 'Neighbor', 'VRF', 'Remote AS', 'Description', 'Update Source', 'Peer Group', 'Route-map In', 'Route-map Out', 'Address Families'],
+            rows: perDevice((config, device) => (config.bgp?.neighbors || []).map(n => [
+                device, config.bgp!.asNumber, `${n.address}${n.isPeerGroup ? ' (peer group)' : ''}`, n.vrf || 'global', n.remoteAs || '', n.description || '',
+                n.updateSource || '', n.peerGroup || '', n.routeMapIn || '', n.routeMapOut || '', n.addressFamilies.join(', '),
+            ])),
+        },
+        {
+            name: 'DHCP Pools',
+            headers: ['Device', 'Pool', 'Network', 'Default Router', 'DNS Servers', 'Configuration'],
+            rows: perDevice((config, device) => (config.dhcpPools || []).map(pool => [
+                device,
+                pool.name,
+                matchLine(pool.config, /^network\s+(\S+)\s+(?:mask\s+)?(\S+)/),
+                matchLine(pool.config, /^(?:default-router|gateway-list|gateway)\s+(.+)/),
+                matchLine(pool.config, /^(?:dns-server|dns-list)\s+(.+)/),
+                pool.config.join('\n'),
+            ])),
+        },
+        {
+            name: 'Access Lists',
+            headers: ['Device', 'ACL', 'Type', 'Sequence', 'Action', 'Protocol', 'Source', 'Destination', 'Options', 'Applied To'],
+            rows: perDevice((config, device) => (config.accessLists || []).flatMap(acl => {
+                const appliedTo = (config.aclBindings || []).filter(b => b.acl === acl.name).map(b => `${b.target}${b.direction ? ` ${b.direction}` : ''}`).join(', ');
+                return acl.entries.map(e => [
+                    device, acl.name, acl.type, e.sequence ?? '', e.action, e.protocol, describeAclMatch(e.source, e.sourcePort),
+                    acl.type === 'extended' ? describeAclMatch(e.destination, e.destinationPort) : '', e.options.join(' '), appliedTo,
+                ]);
+            })),
+        },
+        {
+            name: 'Lines & Users',
+            headers: ['Device', 'Kind', 'Name', 'Description', 'Usernames', 'Configuration'],
+            rows: perDevice((config, device) => [
+                ...(config.connections || []).map(c => [device, 'Line', `${c.type} ${c.range}`, c.description || '', c.usernames.join(', '), c.config.join('\n')]),
+                ...(config.usernames || []).map(u => [device, 'User', u.name, '', '', u.config]),
+            ]),
+        },
+        {
+            name: 'Findings',
+            headers: ['ID', 'Type', 'Severity', 'Description', 'Devices', 'Recommendation', 'Remediation', 'Rollback', 'Details'],
+            rows: findings.map(f => [
+                f.id, f.type, f.severity, f.description, f.devicesInvolved.join(', '), f.recommendation,
+                f.remediation?.commands.join('\n') || '', f.remediation?.rollback.join('\n') || '', formatDetails(f.details),
+            ]),
+        },
+    ];
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const escapeCsv = (value: Cell): string => {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tableToCsv = (table: ExportTable): string => {
+    return [table.headers, ...table.rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+/**
+ * Writes one worksheet per table into an .xlsx workbook and downloads it.
+ */
+export const exportToExcel = (configs: ParsedConfigData[], findings: AnalysisFinding[], filename: string) => {
+    const workbook = XLSX.utils.book_new();
+    buildExportTables(configs, findings).forEach(table => {
+        const sheet = XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]);
+        // Enable filtering on the header row
+        sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: table.rows.length, c: table.headers.length - 1 } }) };
+        XLSX.utils.book_append_sheet(workbook, sheet, table.name.slice(0, 31));
+    });
+    XLSX.writeFile(workbook, filename);
+};
+
+/**
+ * Writes one CSV file per table into a zip archive and downloads it.
+ */
+export const exportToCsvZip = async (configs: ParsedConfigData[], findings: AnalysisFinding[], filename: string) => {
+    const zip = new JSZip();
+    buildExportTables(configs, findings).forEach(table => {
+        // Prefix with a BOM so Excel opens the UTF-8 files correctly
+        zip.file(`${table.name.replace(/[^a-zA-Z0-9]+/g, '_')}.csv`, `\uFEFF${tableToCsv(table)}`);
+    });
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), filename);
+};
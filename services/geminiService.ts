@@ -1,7 +1,10 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { ParsedConfigData, AnalysisFinding, VendorName } from '../types';
+import { GoogleGenAI, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { ParsedConfigData, AnalysisFinding, VendorName, PortConfig, SviInfo } from '../types';
 import { GEMINI_TEXT_MODEL } from '../constants';
+import { getInitialParsedData, calculateSubnetInfo, sortPorts, parseVlanRanges, formatVlanRanges } from './parserUtils';
+import { isIPv4, prefixToMask } from './ipUtils';
+import { getDeviceLabel } from './conflictDetector';
 
 const API_KEY = process.env.API_KEY;
 
@@ -11,6 +14,8 @@ if (!API_KEY) {
 
 const ai = new GoogleGenAI({ apiKey: API_KEY! });
 
+export const isGeminiConfigured = (): boolean => !!API_KEY;
+
 const sanitizeAndParseJson = (jsonString: string): any => {
   let cleanJsonString = jsonString.trim();
   const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
@@ -27,6 +32,268 @@ const sanitizeAndParseJson = (jsonString: string): any => {
 };
 
 
+const stringList: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+// Mirrors the typed fields the local parsers fill, so a Gemini-parsed device renders like any other
+const PARSE_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    hostname: { type: Type.STRING },
+    osVersion: { type: Type.STRING },
+    model: { type: Type.STRING },
+    serialNumber: { type: Type.STRING },
+    vlans: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING, description: "VLAN ID, 1-4094" }, name: { type: Type.STRING } },
+        required: ["id"],
+      },
+    },
+    svis: {
+      type: Type.ARRAY,
+      description: "Layer 3 VLAN interfaces (Vlan10, Vlanif10, Vlan-interface10)",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          vlanId: { type: Type.STRING },
+          ipAddress: { type: Type.STRING },
+          subnetMask: { type: Type.STRING, description: "Dotted-decimal mask, e.g. 255.255.255.0" },
+          helperAddress: { type: Type.STRING, description: "DHCP relay / helper address" },
+          shutdown: { type: Type.BOOLEAN },
+          description: { type: Type.STRING },
+          config: { ...stringList, description: "The interface's configuration lines, including the interface line itself" },
+        },
+        required: ["name", "vlanId"],
+      },
+    },
+    ports: {
+      type: Type.ARRAY,
+      description: "Every other interface: physical ports, port-channels and subinterfaces",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          shutdown: { type: Type.BOOLEAN },
+          mode: { type: Type.STRING, enum: ["access", "trunk", "hybrid", "routed"] },
+          accessVlan: { type: Type.STRING },
+          voiceVlan: { type: Type.STRING },
+          nativeVlan: { type: Type.STRING },
+          allowedVlans: { type: Type.STRING, description: "Allowed VLAN list of a trunk, e.g. 10,20,30-40, or all" },
+          ipAddress: { type: Type.STRING },
+          subnetMask: { type: Type.STRING, description: "Dotted-decimal mask, e.g. 255.255.255.0" },
+          speed: { type: Type.STRING },
+          duplex: { type: Type.STRING },
+          vrf: { type: Type.STRING },
+          portChannel: { type: Type.STRING, description: "Port-channel / aggregation group the port is a member of" },
+          config: { ...stringList, description: "The interface's configuration lines, including the interface line itself" },
+        },
+        required: ["name"],
+      },
+    },
+    staticRoutes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          prefix: { type: Type.STRING },
+          mask: { type: Type.STRING, description: "Dotted-decimal mask, e.g. 255.255.255.0" },
+          nextHop: { type: Type.STRING },
+          interface: { type: Type.STRING },
+          vrf: { type: Type.STRING },
+          config: { type: Type.STRING, description: "The route's configuration line" },
+        },
+        required: ["prefix", "mask"],
+      },
+    },
+    defaultGateway: { type: Type.STRING },
+    dnsServers: stringList,
+    domain: { type: Type.STRING },
+  },
+  required: ["hostname", "vlans", "svis", "ports"],
+};
+
+interface GeminiParseResult {
+  hostname: string;
+  osVersion?: string;
+  model?: string;
+  serialNumber?: string;
+  vlans: { id: string, name?: string }[];
+  svis: { name: string, vlanId: string, ipAddress?: string, subnetMask?: string, helperAddress?: string, shutdown?: boolean, description?: string, config?: string[] }[];
+  ports: {
+    name: string, description?: string, shutdown?: boolean, mode?: PortConfig['mode'], accessVlan?: string, voiceVlan?: string, nativeVlan?: string,
+    allowedVlans?: string, ipAddress?: string, subnetMask?: string, speed?: string, duplex?: string, vrf?: string, portChannel?: string, config?: string[],
+  }[];
+  staticRoutes?: { prefix: string, mask: string, nextHop?: string, interface?: string, vrf?: string, config?: string }[];
+  defaultGateway?: string;
+  dnsServers?: string[];
+  domain?: string;
+}
+
+// Structural check of a reply against the response schema. Optional fields sent back as null are dropped
+const validateAgainstSchema = (value: any, schema: Schema, path: string, errors: string[]) => {
+  if (schema.type === Type.OBJECT) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${path} should be an object`);
+      return;
+    }
+    (schema.required || []).filter(key => value[key] === undefined || value[key] === null).forEach(key => errors.push(`${path}.${key} is missing`));
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (value[key] === null) delete value[key];
+      if (value[key] !== undefined) validateAgainstSchema(value[key], propertySchema, `${path}.${key}`, errors);
+    });
+  }
+  else if (schema.type === Type.ARRAY) {
+    if (!Array.isArray(value)) errors.push(`${path} should be an array`);
+    else value.forEach((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`, errors));
+  }
+  else if (schema.type === Type.STRING) {
+    if (typeof value !== 'string') errors.push(`${path} should be a string`);
+    else if (schema.enum && !schema.enum.includes(value)) errors.push(`${path} should be one of ${schema.enum.join(', ')}, got "${value}"`);
+  }
+  else if (schema.type === Type.BOOLEAN && typeof value !== 'boolean') errors.push(`${path} should be true or false`);
+};
+
+// Accepts "255.255.255.0", "/24" and "24"
+const normalizeMask = (mask: string) => {
+  const match = mask.trim().match(/^\/?(\d{1,2})$/);
+  return match && parseInt(match[1], 10) <= 32 ? prefixToMask(parseInt(match[1], 10)) : mask.trim();
+};
+
+// Checks the values the report and the audits compute with; the schema alone only guarantees their type
+const validateValues = (result: GeminiParseResult, errors: string[]) => {
+  const checkVlan = (value: string | undefined, path: string) => {
+    if (value !== undefined && !(/^\d+$/.test(value) && +value >= 1 && +value <= 4094)) errors.push(`${path} "${value}" is not a VLAN ID between 1 and 4094`);
+  };
+  const checkAddress = (value: string | undefined, path: string) => {
+    if (value && !isIPv4(value)) errors.push(`${path} "${value}" is not an IPv4 address`);
+  };
+  const checkMask = (value: string | undefined, path: string) => {
+    if (value && !isIPv4(normalizeMask(value))) errors.push(`${path} "${value}" is not a subnet mask`);
+  };
+
+  if (!result.hostname.trim()) errors.push('$.hostname is empty');
+  result.vlans.forEach((vlan, i) => checkVlan(vlan.id, `$.vlans[${i}].id`));
+  result.svis.forEach((svi, i) => {
+    checkVlan(svi.vlanId, `$.svis[${i}].vlanId`);
+    checkAddress(svi.ipAddress, `$.svis[${i}].ipAddress`);
+    checkMask(svi.subnetMask, `$.svis[${i}].subnetMask`);
+  });
+  result.ports.forEach((port, i) => {
+    (['accessVlan', 'voiceVlan', 'nativeVlan'] as const).forEach(key => checkVlan(port[key], `$.ports[${i}].${key}`));
+    checkAddress(port.ipAddress, `$.ports[${i}].ipAddress`);
+    checkMask(port.subnetMask, `$.ports[${i}].subnetMask`);
+  });
+  (result.staticRoutes || []).forEach((route, i) => {
+    checkAddress(route.prefix, `$.staticRoutes[${i}].prefix`);
+    checkMask(route.mask, `$.staticRoutes[${i}].mask`);
+    checkAddress(route.nextHop, `$.staticRoutes[${i}].nextHop`);
+  });
+  checkAddress(result.defaultGateway, '$.defaultGateway');
+};
+
+/** Throws with every problem found, so a malformed reply is reported instead of rendering half-empty sections. */
+const validateGeminiParseResult = (reply: any): GeminiParseResult => {
+  const errors: string[] = [];
+  validateAgainstSchema(reply, PARSE_RESPONSE_SCHEMA, '$', errors);
+  if (errors.length === 0) validateValues(reply as GeminiParseResult, errors);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 10).join('; ');
+    throw new Error(`The AI response did not match the expected configuration structure: ${shown}${errors.length > 10 ? ` (and ${errors.length - 10} more)` : ''}`);
+  }
+  return reply as GeminiParseResult;
+};
+
+/** Converts a validated reply into the data model the local parsers produce, calculating subnets locally. */
+const normalizeGeminiParseResult = (result: GeminiParseResult): ParsedConfigData => {
+  const data = getInitialParsedData();
+  data.hostname = result.hostname.trim();
+  data.iosVersion = result.osVersion || '';
+  data.modelNumber = result.model || '';
+  data.serialNumber = result.serialNumber || undefined;
+
+  const seenVlans = new Set<string>();
+  result.vlans.forEach(vlan => {
+    if (seenVlans.has(vlan.id)) return;
+    seenVlans.add(vlan.id);
+    data.vlans!.push({ id: vlan.id, name: vlan.name || 'Unnamed', rawConfig: [] });
+  });
+  data.vlans!.sort((a, b) => parseInt(a.id, 10) - parseInt(b.id, 10));
+
+  result.svis.forEach(entry => {
+    const status = entry.shutdown ? 'Disabled' : 'Enabled';
+    const svi: SviInfo = {
+      svi: entry.name,
+      vlanId: entry.vlanId,
+      ipAddress: entry.ipAddress || 'No IP address',
+      subnetMask: entry.subnetMask ? normalizeMask(entry.subnetMask) : '',
+      ipHelperAddress: entry.helperAddress || 'N/A',
+      status,
+      additionalInfo: entry.description ? `Description: ${entry.description}` : '',
+      rawConfig: entry.config || [],
+    };
+    data.svis!.push(svi);
+    if (entry.ipAddress && svi.subnetMask) {
+      data.ipRanges!.push({ vlanId: svi.vlanId, svi: svi.svi, ...calculateSubnetInfo(svi.ipAddress, svi.subnetMask), status });
+    }
+  });
+
+  result.ports.forEach(entry => {
+    const port: PortConfig = {
+      port: entry.name,
+      type: entry.mode && entry.mode !== 'routed' ? entry.mode : 'Physical',
+      config: entry.config && entry.config.length > 0 ? entry.config : [`interface ${entry.name}`],
+      description: entry.description || '',
+      status: entry.shutdown ? 'Disabled' : 'Enabled',
+      members: entry.portChannel ? [entry.portChannel] : [],
+      mode: entry.mode,
+      accessVlan: entry.accessVlan,
+      voiceVlan: entry.voiceVlan,
+      nativeVlan: entry.nativeVlan,
+      configuredSpeed: entry.speed,
+      configuredDuplex: entry.duplex,
+      ipAddress: entry.ipAddress,
+      subnetMask: entry.subnetMask ? normalizeMask(entry.subnetMask) : undefined,
+      vrf: entry.vrf,
+    };
+    // Trunks that carry every VLAN leave allowedVlans unset, as the local parsers do
+    if ((entry.mode === 'trunk' || entry.mode === 'hybrid') && entry.allowedVlans && !/^all$/i.test(entry.allowedVlans.trim())) {
+      const allowed = formatVlanRanges(parseVlanRanges(entry.allowedVlans));
+      if (allowed !== '1-4094') port.allowedVlans = allowed;
+    }
+    if (entry.name.includes('.')) port.parentInterface = entry.name.slice(0, entry.name.lastIndexOf('.'));
+    data.ports!.push(port);
+    if (entry.portChannel && !data.portChannels!.includes(entry.portChannel)) data.portChannels!.push(entry.portChannel);
+    if (/^(?:port-channel|eth-trunk|bridge-aggregation|ae)\s*\d/i.test(entry.name) && !data.portChannels!.includes(entry.name)) data.portChannels!.push(entry.name);
+    if (port.description.match(/UPLINK/i)) data.uplinks!.push(entry.name);
+  });
+  data.ports = sortPorts(data.ports!);
+
+  (result.staticRoutes || []).forEach(route => {
+    const mask = normalizeMask(route.mask);
+    const target = [route.interface, route.nextHop].filter(Boolean).join(' ');
+    data.routing!.staticRoutes!.push({
+      prefix: route.prefix,
+      mask,
+      nextHop: route.nextHop || undefined,
+      interface: route.interface || undefined,
+      vrf: route.vrf || undefined,
+      rawConfig: route.config || `ip route ${route.vrf ? `vrf ${route.vrf} ` : ''}${route.prefix} ${mask} ${target}`.trim(),
+    });
+    if (!route.vrf && route.prefix === '0.0.0.0' && mask === '0.0.0.0') data.routing!.defaultRoute = route.interface || route.nextHop || '';
+  });
+  data.routing!.defaultGateway = result.defaultGateway || '';
+  data.other!.dnsServers = (result.dnsServers || []).join(' ');
+  data.other!.domain = result.domain || '';
+
+  // The schema asks for no security or AAA settings, so leave them unset rather than audit them as missing
+  delete data.security;
+  delete data.aaa;
+  return data;
+};
+
 export const parseConfigurationWithGemini = async (
   configText: string,
   vendor: VendorName
@@ -35,18 +302,12 @@ export const parseConfigurationWithGemini = async (
 
   const prompt = `
 You are an expert network configuration parsing assistant.
-Parse the following ${vendor} configuration text.
-Extract structured data for the following categories:
-- Device Information: Hostname (hostname), OS version (os_version), model, serial number (serial_number), uptime.
-- Interfaces: Name (name), IP addresses (ip_address), subnet masks (subnet_mask), descriptions (description), status, speed/duplex, port-channels.
-- VLANs & SVIs: VLAN IDs (vlan_id), names (name), SVI IP addresses (svi_ip_address), helper addresses, network ranges, free IPs.
-- Routing Protocols: Protocol type, configurations, static routes, default gateways.
-- Security Features: AAA, SSH, SNMP, password encryption, ACLs, firewall rules.
-- Other Services: NTP, DNS, VTP, CDP/LLDP.
-
-Respond ONLY with a JSON object. The root object should contain keys: "deviceInfo", "interfaces" (array), "vlansSvis" (array), "routingProtocols" (array), "securityFeatures" (array), "otherServices" (array).
-Ensure all keys are camelCase. For example, use "osVersion" instead of "os_version".
-If a category is not present or data is not found, you can return an empty object for deviceInfo or an empty array for list-based categories.
+Parse the following ${vendor} configuration text into the JSON structure given by the response schema.
+- "vlans": every VLAN the device defines, with its name when one is configured.
+- "svis": every layer 3 VLAN interface, with its VLAN ID, primary IPv4 address, dotted-decimal subnet mask, DHCP helper address, whether it is shut down, and its configuration lines.
+- "ports": every other interface, with its description, whether it is shut down, switchport mode, access/voice/native VLANs, the allowed VLAN list of trunks, routed IPv4 address and mask, VRF, speed/duplex, the port-channel it belongs to, and its configuration lines.
+- "staticRoutes", "defaultGateway", "dnsServers" and "domain" as configured.
+Copy values exactly as they appear in the configuration. Leave out any field that is not configured instead of guessing; use empty arrays when a device has no VLANs, SVIs or ports.
 
 Configuration Text:
 ---
@@ -60,12 +321,13 @@ ${configText}
       contents: prompt,
       config: {
         responseMimeType: "application/json",
+        responseSchema: PARSE_RESPONSE_SCHEMA,
         temperature: 0.1, // Lower temperature for more deterministic parsing
       },
     });
-    
+
     const parsedJson = sanitizeAndParseJson(response.text);
-    return parsedJson as ParsedConfigData;
+    return normalizeGeminiParseResult(validateGeminiParseResult(parsedJson));
 
   } catch (error) {
     console.error("Error parsing configuration with Gemini:", error);
@@ -74,55 +336,60 @@ ${configText}
 };
 
 export const analyzeConfigurations = async (
-  configs: ParsedConfigData[]
+  configs: ParsedConfigData[],
+  localFindings: AnalysisFinding[] = []
 ): Promise<AnalysisFinding[]> => {
   if (!API_KEY) throw new Error("API_KEY is not configured.");
   if (configs.length === 0) return [];
 
-  const configToAnalyze = configs[0];
-
-  const simplifiedConfig = {
+  const simplifiedConfigs = configs.map(configToAnalyze => ({
     fileName: configToAnalyze.fileName,
     vendor: configToAnalyze.vendor,
-    hostname: configToAnalyze.hostname || configToAnalyze.deviceInfo?.hostname,
-    interfaces: (configToAnalyze.interfaces || configToAnalyze.svis)?.map(i => ({ 
-        name: i.name || i.svi, 
-        ip_address: i.ipAddress, 
-        description: i.description,
-        status: i.status
+    hostname: getDeviceLabel(configToAnalyze),
+    interfaces: (configToAnalyze.svis || []).map(svi => ({
+        name: svi.svi,
+        ip_address: svi.ipAddress,
+        status: svi.status
     })).slice(0, 20),
-    vlans: (configToAnalyze.vlansSvis || configToAnalyze.vlans)?.map(v => ({ 
-        id: v.vlan_id || v.id, 
-        name: v.name 
+    vlans: (configToAnalyze.vlans || []).map(v => ({
+        id: v.id,
+        name: v.name
     })).slice(0, 20),
     security: configToAnalyze.security, // Pass security compliance data
-  };
+  }));
 
   const prompt = `
 You are an expert Network Configuration Auditor.
-Analyze the following JSON object representing a single parsed device configuration.
-Identify configuration issues, security risks, and deviations from industry best practices.
+Analyze the following JSON array of parsed device configurations. Each element is one device.
+Identify configuration issues, security risks, and deviations from industry best practices, both per device and across devices.
 
 For each finding, provide:
 1. A unique 'id' string (e.g., "sec_risk_1").
 2. A 'type': "Conflict", "Security Risk", "Suggestion", or "Best Practice".
 3. A 'severity': "Critical", "High", "Medium", "Low", or "Info".
 4. A concise 'description' of the finding.
-5. The 'devicesInvolved' (an array containing the single fileName or hostname).
+5. The 'devicesInvolved' (an array of the hostnames, or fileNames when no hostname is known, of every affected device).
 6. The 'details' (an object or string with specific data related to the finding).
 7. A clear 'recommendation' for how to fix or improve the configuration.
 
 Focus on these areas:
-- Security Risks: Missing 'service password-encryption', HTTP server enabled (no 'no ip http server'), insecure SNMP configurations, lack of AAA, missing port-security on access ports, no BPDU guard on edge ports.
+- Security Risks: Anything beyond the findings already reported by the local audit below, such as weak routing protocol authentication, unused services left enabled or risky management settings.
 - Best Practices & Suggestions: Missing descriptions on interfaces/VLANs, inconsistent naming schemes (e.g., "DATA" vs "Data"), enabling CDP/LLDP, setting a VTP mode to transparent or off, unused configurations.
 - Internal Conflicts: Logically inconsistent settings (e.g., an interface in a VLAN that doesn't exist, a port-channel member without a matching port-channel interface).
+- Cross-Device Conflicts (only when more than one device is given): SVIs with overlapping IP subnets, the same VLAN ID with different names, inconsistent security settings (SNMP, AAA) between devices.
 
 Respond ONLY with a JSON array of finding objects following the specified structure. The root of the response must be a valid JSON array.
 If no issues are found, return an empty JSON array [].
 
-Configuration:
+The local rule-based audit has already reported the findings below. Do NOT repeat them; only add new findings or context they miss.
+Already reported:
+---
+${JSON.stringify(localFindings.map(f => ({ id: f.id, description: f.description, devicesInvolved: f.devicesInvolved })), null, 2)}
+---
+
+Configurations:
 ---
-${JSON.stringify(simplifiedConfig, null, 2)}
+${JSON.stringify(simplifiedConfigs, null, 2)}
 ---
 `;
 
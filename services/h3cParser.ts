@@ -0,0 +1,43 @@
+import { ParsedConfigData } from '../types';
+import { parseVrpFamilyConfig, VrpFamilyDialect } from './parserUtils';
+
+const H3C_DIALECT: VrpFamilyDialect = {
+    sviPrefix: 'Vlan-interface',
+    aggregationPrefix: 'Bridge-Aggregation',
+    aggregationMember: /^port\s+link-aggregation\s+group\s+(\d+)/,
+    aggregationMode: /^link-aggregation\s+mode\s+(\S+)/,
+    aggregationInterface: /^(Bridge|Route)-Aggregation\d+/i,
+    defaultAggregationMode: 'static',
+    // Comware has top-level local users, ISP domains and scheme views instead of an "aaa" view
+    parseBlock: ({ header: { line: header }, children }, data) => {
+        let match: RegExpMatchArray | null;
+        if ((match = header.match(/^version\s+(.+)/))) data.iosVersion = match[1];
+        else if ((match = header.match(/^local-user\s+(\S+)(?:\s+class\s+(\S+))?/))) {
+            // Users of class "network" are 802.1X/portal accounts, not device administrators
+            if (match[2] !== 'network') {
+                data.usernames!.push({ name: match[1], config: [header, ...children.map(c => c.line)].join('\n') });
+                children.forEach(child => { child.read = true; });
+            }
+        }
+        else if ((match = header.match(/^domain\s+(?!name\b)(\S+)/))) {
+            children.forEach(child => {
+                const subLine = child.line;
+                let subMatch: RegExpMatchArray | null;
+                if ((subMatch = subLine.match(/^authentication\s+(.+)/))) data.aaa!.details.push(`Authentication (domain ${match![1]}): ${subMatch[1]}`);
+                else if ((subMatch = subLine.match(/^authorization\s+(.+)/))) data.aaa!.details.push(`Authorization (domain ${match![1]}): ${subMatch[1]}`);
+                else if ((subMatch = subLine.match(/^accounting\s+(.+)/))) data.aaa!.details.push(`Accounting (domain ${match![1]}): ${subMatch[1]}`);
+                else return;
+                child.read = true;
+            });
+        }
+        else if ((match = header.match(/^(hwtacacs|radius)\s+scheme\s+(\S+)/))) {
+            data.aaa!.details.push(`${match[1] === 'radius' ? 'RADIUS' : 'HWTACACS'} scheme: ${match[2]}`);
+        }
+        else return false;
+        return true;
+    },
+};
+
+export function parseH3cConfigLocal(configText: string): ParsedConfigData {
+    return parseVrpFamilyConfig(configText, H3C_DIALECT);
+}
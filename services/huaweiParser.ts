@@ -0,0 +1,39 @@
+import { ParsedConfigData } from '../types';
+import { parseVrpFamilyConfig, VrpFamilyDialect } from './parserUtils';
+
+const HUAWEI_DIALECT: VrpFamilyDialect = {
+    sviPrefix: 'Vlanif',
+    aggregationPrefix: 'Eth-Trunk',
+    aggregationMember: /^eth-trunk\s+(\d+)/,
+    aggregationMode: /^mode\s+(lacp(?:-static|-dynamic)?|manual\s+load-balance)/,
+    aggregationInterface: /^Eth-Trunk\d+/i,
+    // VRP keeps schemes, domains and local users inside a single "aaa" view
+    parseBlock: ({ header, children }, data) => {
+        if (header.line !== 'aaa') return false;
+        children.forEach(child => {
+            const subLine = child.line;
+            let subMatch: RegExpMatchArray | null;
+            if ((subMatch = subLine.match(/^authentication-scheme\s+(\S+)/))) data.aaa!.details.push(`Authentication: scheme ${subMatch[1]}`);
+            else if ((subMatch = subLine.match(/^authorization-scheme\s+(\S+)/))) data.aaa!.details.push(`Authorization: scheme ${subMatch[1]}`);
+            else if ((subMatch = subLine.match(/^accounting-scheme\s+(\S+)/))) data.aaa!.details.push(`Accounting: scheme ${subMatch[1]}`);
+            else if ((subMatch = subLine.match(/^(authentication-mode|authorization-mode|accounting-mode)\s+(.+)/))) data.aaa!.details.push(`${subMatch[1]}: ${subMatch[2]}`);
+            else if ((subMatch = subLine.match(/^local-user\s+(\S+)\s+(.+)/))) {
+                const existing = data.usernames!.find(u => u.name === subMatch![1]);
+                if (existing) existing.config += `\n${subLine}`;
+                else data.usernames!.push({ name: subMatch[1], config: subLine });
+            }
+            else if ((subMatch = subLine.match(/^domain\s+(\S+)/))) data.aaa!.details.push(`Domain: ${subMatch[1]}`);
+            else return;
+            child.read = true;
+        });
+        if (data.usernames!.length > 0) data.aaa!.status = 'Configured';
+        return true;
+    },
+};
+
+export function parseHuaweiConfigLocal(configText: string): ParsedConfigData {
+    const data = parseVrpFamilyConfig(configText, HUAWEI_DIALECT);
+    const versionMatch = configText.match(/^!Software Version\s+(\S+)/m);
+    if (versionMatch) data.iosVersion = versionMatch[1];
+    return data;
+}
@@ -0,0 +1,83 @@
+import { ParsedConfigData, PortConfig } from '../types';
+import { vlanListIncludes, isNextPort } from './parserUtils';
+
+export interface VlanPortMembership {
+    port: string;
+    role: 'access' | 'voice' | 'tagged' | 'native';
+}
+
+// Trunks without a configured native VLAN send VLAN 1 untagged
+const nativeVlanOf = (port: PortConfig) => port.nativeVlan || '1';
+
+const isTrunk = (port: PortConfig) => port.mode === 'trunk' || port.mode === 'hybrid';
+
+/** Short summary of a port's VLANs or L3 settings, e.g. "access 10, voice 20" or "trunk native 99, allowed 10,20". */
+export const describePortVlans = (port: PortConfig): string => {
+    if (port.mode === 'access') return [`access ${port.accessVlan || '1'}`, port.voiceVlan ? `voice ${port.voiceVlan}` : ''].filter(Boolean).join(', ');
+    if (isTrunk(port)) return `${port.mode} native ${nativeVlanOf(port)}, allowed ${port.allowedVlans || 'all'}`;
+    if (port.encapsulationVlan) return `dot1Q ${port.encapsulationVlan}`;
+    return '';
+};
+
+export const describePortAddress = (port: PortConfig): string => {
+    return [port.ipAddress ? `${port.ipAddress} ${port.subnetMask || ''}`.trim() : '', port.vrf ? `vrf ${port.vrf}` : ''].filter(Boolean).join(', ');
+};
+
+/** Ports that carry the VLAN: access and voice ports in it, and trunks that allow it tagged or as native VLAN. */
+export const findPortsInVlan = (config: ParsedConfigData, vlanId: string): VlanPortMembership[] => {
+    return (config.ports || []).flatMap((port): VlanPortMembership[] => {
+        if (port.mode === 'access') {
+            const roles: VlanPortMembership[] = [];
+            if ((port.accessVlan || '1') === vlanId) roles.push({ port: port.port, role: 'access' });
+            if (port.voiceVlan === vlanId) roles.push({ port: port.port, role: 'voice' });
+            return roles;
+        }
+        if (isTrunk(port) && vlanListIncludes(port.allowedVlans, vlanId)) {
+            return [{ port: port.port, role: nativeVlanOf(port) === vlanId ? 'native' : 'tagged' }];
+        }
+        return [];
+    });
+};
+
+export const findTrunksNotAllowingVlan = (config: ParsedConfigData, vlanId: string): PortConfig[] => {
+    return (config.ports || []).filter(port => isTrunk(port) && !vlanListIncludes(port.allowedVlans, vlanId));
+};
+
+/**
+ * Access and voice VLANs that the device does not define. VLAN 1 always exists, and devices that
+ * define no VLANs at all are skipped, since their VLANs are usually learnt through VTP.
+ */
+export const findPortsInUndefinedVlans = (config: ParsedConfigData): { port: string, vlan: string, role: 'access' | 'voice' }[] => {
+    const defined = new Set((config.vlans || []).map(v => v.id));
+    if (defined.size === 0) return [];
+    return (config.ports || []).filter(port => port.mode === 'access').flatMap(port => [
+        ...(port.accessVlan && port.accessVlan !== '1' && !defined.has(port.accessVlan) ? [{ port: port.port, vlan: port.accessVlan, role: 'access' as const }] : []),
+        ...(port.voiceVlan && port.voiceVlan !== '1' && !defined.has(port.voiceVlan) ? [{ port: port.port, vlan: port.voiceVlan, role: 'voice' as const }] : []),
+    ]);
+};
+
+// Configuration with the port's own name masked, plus the operational state that would otherwise be hidden
+const portSignature = (port: PortConfig) => JSON.stringify([
+    port.config.map(line => line.split(port.port).join('<port>')),
+    port.linkStatus, port.speed, port.duplex,
+]);
+
+/**
+ * Display-only view that merges runs of consecutive ports whose configuration is identical apart
+ * from the interface name, and whose link state matches, into "Gi1/0/1 - Gi1/0/24" entries.
+ * Parsed data always keeps one entry per port.
+ */
+export const groupPortRanges = (ports: PortConfig[]): PortConfig[] => {
+    const groups: PortConfig[][] = [];
+    ports.forEach(port => {
+        const group = groups[groups.length - 1];
+        const last = group?.[group.length - 1];
+        if (last && isNextPort(last.port, port.port) && portSignature(last) === portSignature(port)) group.push(port);
+        else groups.push([port]);
+    });
+    return groups.map(group => {
+        if (group.length === 1) return group[0];
+        const first = group[0], label = `${first.port} - ${group[group.length - 1].port}`;
+        return { ...first, port: label, config: first.config.map(line => line.split(first.port).join(label)) };
+    });
+};
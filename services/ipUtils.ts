@@ -0,0 +1,83 @@
+// Helper functions for IPv4 calculation shared by the parsers and analysis engines
+
+export const ipToLong = (ip: string): number => {
+    return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+};
+
+export const longToIp = (long: number): string => {
+    return [(long >>> 24), (long >>> 16) & 255, (long >>> 8) & 255, long & 255].join('.');
+};
+
+export const isIPv4 = (ip: string): boolean => {
+    return /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.test(ip) && ip.split('.').every(o => parseInt(o, 10) <= 255);
+};
+
+/** Returns the [first, last] addresses of a range as numbers, or null when the addresses are not valid IPv4. */
+export const rangeToLongs = (network: string, broadcast: string): [number, number] | null => {
+    if (!isIPv4(network) || !isIPv4(broadcast)) return null;
+    return [ipToLong(network), ipToLong(broadcast)];
+};
+
+export const rangesOverlap = (a: [number, number], b: [number, number]): boolean => {
+    return a[0] <= b[1] && b[0] <= a[1];
+};
+
+export const prefixToMask = (prefix: number): string => {
+    return longToIp(prefix === 0 ? 0 : (0xFFFFFFFF << (32 - prefix)) >>> 0);
+};
+
+export const maskToWildcard = (mask: string): string => {
+    return longToIp((~ipToLong(mask)) >>> 0);
+};
+
+// IPv6 addresses are handled as 128-bit bigints
+
+/** Parses an IPv6 address (with optional "::" compression and embedded IPv4 tail) into a bigint, or null when invalid. */
+export const parseIpv6 = (ip: string): bigint | null => {
+    let text = ip.trim().toLowerCase().replace(/%.*$/, '');
+    const ipv4Tail = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+    if (ipv4Tail) {
+        if (!isIPv4(ipv4Tail[1])) return null;
+        const long = ipToLong(ipv4Tail[1]);
+        text = `${text.slice(0, -ipv4Tail[1].length)}${(long >>> 16).toString(16)}:${(long & 0xFFFF).toString(16)}`;
+    }
+    const halves = text.split('::');
+    if (halves.length > 2) return null;
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+    if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+    return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+};
+
+export const isIPv6 = (ip: string): boolean => parseIpv6(ip) !== null;
+
+/** Formats a 128-bit value in the RFC 5952 canonical form (lowercase, longest zero run compressed). */
+export const formatIpv6 = (value: bigint): string => {
+    const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt((7 - i) * 16)) & 0xFFFFn));
+    let bestStart = -1, bestLength = 1;
+    for (let i = 0; i < 8; i++) {
+        let length = 0;
+        while (i + length < 8 && groups[i + length] === 0) length++;
+        if (length > bestLength) [bestStart, bestLength] = [i, length];
+    }
+    const hex = groups.map(g => g.toString(16));
+    if (bestStart === -1) return hex.join(':');
+    return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+};
+
+/** Returns the [first, last] addresses of the prefix containing an IPv6 address, or null when invalid. */
+export const ipv6PrefixBounds = (ip: string, prefixLength: number): [bigint, bigint] | null => {
+    const value = parseIpv6(ip);
+    if (value === null || prefixLength < 0 || prefixLength > 128) return null;
+    const hostBits = BigInt(128 - prefixLength);
+    const first = (value >> hostBits) << hostBits;
+    return [first, first + (1n << hostBits) - 1n];
+};
+
+export const isIpv6LinkLocal = (ip: string): boolean => {
+    const value = parseIpv6(ip);
+    return value !== null && value >> 118n === 0x3FAn; // fe80::/10
+};
@@ -0,0 +1,232 @@
+import { ParsedConfigData, IpamPrefix, IpamSource, IpamOverlap, IpamDhcpPoolCheck, IpamHelperTarget, IpamSupernet, IpamFreeBlock, IpamReport } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { ipToLong, longToIp, isIPv4, prefixToMask, rangesOverlap } from './ipUtils';
+
+// Free blocks listed per supernet; the rest are only counted
+const MAX_FREE_BLOCKS = 32;
+// Shorter OSPF/static prefixes (default routes, "network 0.0.0.0 255.255.255.255") are not address plans
+const MIN_SUPERNET_LENGTH = 8;
+// Length of the supernets derived for SVI subnets that no configured summary covers
+const DERIVED_SUPERNET_LENGTH = 16;
+
+const maskToLength = (mask: string): number | null => {
+    if (!isIPv4(mask)) return null;
+    const bits = ipToLong(mask).toString(2).padStart(32, '0');
+    return /^1*0*$/.test(bits) ? bits.indexOf('0') === -1 ? 32 : bits.indexOf('0') : null;
+};
+
+const makePrefix = (device: string, source: IpamSource, name: string, address: string, length: number, ipAddress?: string): IpamPrefix | null => {
+    if (!isIPv4(address) || length < 0 || length > 32) return null;
+    const start = (ipToLong(address) & ipToLong(prefixToMask(length))) >>> 0;
+    const end = start + 2 ** (32 - length) - 1;
+    return { device, source, name, cidr: `${longToIp(start)}/${length}`, start, end, ipAddress };
+};
+
+const contains = (outer: { start: number, end: number }, inner: { start: number, end: number }) => outer.start <= inner.start && inner.end <= outer.end;
+
+// Pool statements across vendors: "network 10.1.1.0 255.255.255.0" (Cisco), "network 10.1.1.0 mask 24" (VRP/Comware),
+// "... family inet network 10.1.1.0/24" (Junos)
+const parsePoolNetwork = (lines: string[]): { address: string, length: number } | null => {
+    for (const line of lines) {
+        const match = line.match(/\bnetwork\s+(\d+\.\d+\.\d+\.\d+)(?:\/(\d+)|\s+(?:mask\s+)?\/?(\d+(?:\.\d+\.\d+\.\d+)?))/);
+        if (!match) continue;
+        const lengthText = match[2] || match[3];
+        const length = lengthText.includes('.') ? maskToLength(lengthText) : parseInt(lengthText, 10);
+        if (length !== null) return { address: match[1], length };
+    }
+    return null;
+};
+
+const parsePoolRouter = (lines: string[]): string | undefined => {
+    for (const line of lines) {
+        const match = line.match(/\b(?:default-router|gateway-list|router)\s+(\d+\.\d+\.\d+\.\d+)/);
+        if (match) return match[1];
+    }
+    return undefined;
+};
+
+const collectPrefixes = (config: ParsedConfigData): IpamPrefix[] => {
+    const device = getDeviceLabel(config);
+    const prefixes: (IpamPrefix | null)[] = [
+        ...(config.svis || []).map(svi => {
+            const length = maskToLength(svi.subnetMask);
+            return length === null ? null : makePrefix(device, 'SVI', svi.svi, svi.ipAddress, length, svi.ipAddress);
+        }),
+        ...(config.dhcpPools || []).map(pool => {
+            const network = parsePoolNetwork(pool.config);
+            return network ? makePrefix(device, 'DHCP Pool', pool.name, network.address, network.length) : null;
+        }),
+        // Routes in a VRF do not share an address space with the global SVIs and pools
+        ...(config.routing?.staticRoutes || []).filter(route => !route.vrf).map(route => {
+            const length = maskToLength(route.mask);
+            return length === null ? null : makePrefix(device, 'Static Route', route.nextHop || route.interface || '', route.prefix, length);
+        }),
+        ...(config.ospf?.networks || []).map(network => {
+            // Wildcards are inverted masks
+            const length = isIPv4(network.wildcard) ? maskToLength(longToIp((~ipToLong(network.wildcard)) >>> 0)) : null;
+            return length === null ? null : makePrefix(device, 'OSPF Network', `area ${network.area}`, network.network, length);
+        }),
+    ];
+    return prefixes.filter((p): p is IpamPrefix => p !== null);
+};
+
+/**
+ * SVI and DHCP pool subnets should never overlap each other, and a static route should not
+ * point at a subnet the device already has an SVI in. Static routes and OSPF statements that
+ * summarize connected subnets are expected, so they are not reported.
+ */
+const findOverlaps = (prefixes: IpamPrefix[]): IpamOverlap[] => {
+    const overlaps: IpamOverlap[] = [];
+    for (let i = 0; i < prefixes.length; i++) {
+        for (let j = i + 1; j < prefixes.length; j++) {
+            const a = prefixes[i], b = prefixes[j];
+            if (!rangesOverlap([a.start, a.end], [b.start, b.end])) continue;
+            const sameKind = a.source === b.source && (a.source === 'SVI' || a.source === 'DHCP Pool');
+            const [route, svi] = a.source === 'Static Route' ? [a, b] : [b, a];
+            const routeToConnected = route.source === 'Static Route' && svi.source === 'SVI' && a.device === b.device && !(contains(route, svi) && route.end - route.start > svi.end - svi.start);
+            if (!sameKind && !routeToConnected) continue;
+            overlaps.push({ a, b, kind: a.start === b.start && a.end === b.end ? 'identical' : 'overlap' });
+        }
+    }
+    return overlaps;
+};
+
+const checkDhcpPools = (configs: ParsedConfigData[], sviPrefixes: IpamPrefix[]): IpamDhcpPoolCheck[] => {
+    return configs.flatMap(config => {
+        const device = getDeviceLabel(config);
+        return (config.dhcpPools || []).map(pool => {
+            const network = parsePoolNetwork(pool.config);
+            const prefix = network ? makePrefix(device, 'DHCP Pool', pool.name, network.address, network.length) : null;
+            const check: IpamDhcpPoolCheck = { device, pool: pool.name, network: prefix?.cidr, defaultRouter: parsePoolRouter(pool.config), issues: [] };
+            if (!prefix) {
+                check.issues.push('No network statement');
+                return check;
+            }
+
+            // The pool may be served centrally for relayed subnets, so look at every device, preferring the local one
+            const matches = sviPrefixes
+                .filter(svi => svi.start === prefix.start && svi.end === prefix.end)
+                .sort((x, y) => Number(y.device === device) - Number(x.device === device));
+            if (matches.length === 0) {
+                const partial = sviPrefixes.find(svi => rangesOverlap([svi.start, svi.end], [prefix.start, prefix.end]));
+                check.issues.push(partial ? `Does not match SVI subnet ${partial.cidr} (${partial.device} ${partial.name})` : 'No SVI in this subnet on any loaded device');
+            } else {
+                check.matchingSvi = `${matches[0].device} ${matches[0].name}`;
+            }
+
+            if (!check.defaultRouter) {
+                check.issues.push('No default router');
+            } else if (!isIPv4(check.defaultRouter) || !contains(prefix, { start: ipToLong(check.defaultRouter), end: ipToLong(check.defaultRouter) })) {
+                check.issues.push(`Default router ${check.defaultRouter} is outside ${prefix.cidr}`);
+            } else if (matches.length > 0) {
+                // Redundant gateways hand out the HSRP virtual IP rather than an interface address
+                const gateways = matches.flatMap(svi => {
+                    const sviConfig = configs.find(c => getDeviceLabel(c) === svi.device)?.svis?.find(s => s.svi === svi.name);
+                    return [svi.ipAddress, ...(sviConfig?.hsrp || []).map(h => h.virtualIp)];
+                });
+                if (!gateways.includes(check.defaultRouter)) check.issues.push(`Default router ${check.defaultRouter} differs from SVI IP ${matches[0].ipAddress}`);
+            }
+            return check;
+        });
+    });
+};
+
+const findHelperTargets = (configs: ParsedConfigData[], sviPrefixes: IpamPrefix[], poolPrefixes: IpamPrefix[]): IpamHelperTarget[] => {
+    return configs.flatMap(config => {
+        const device = getDeviceLabel(config);
+        return (config.svis || [])
+            .filter(svi => isIPv4(svi.ipHelperAddress))
+            .map(svi => {
+                const subnet = sviPrefixes.find(p => p.device === device && p.name === svi.svi);
+                const host = sviPrefixes.find(p => p.ipAddress === svi.ipHelperAddress);
+                const pools = subnet ? poolPrefixes.filter(p => p.start === subnet.start && p.end === subnet.end) : [];
+                const pool = pools.find(p => p.device === device) || pools[0];
+                return {
+                    device,
+                    svi: svi.svi,
+                    subnet: subnet?.cidr || '',
+                    helper: svi.ipHelperAddress,
+                    hostedBy: host ? `${host.device} ${host.name}` : undefined,
+                    servingPool: pool ? `${pool.device} ${pool.name}` : undefined,
+                };
+            });
+    });
+};
+
+/** Splits a free range into the largest aligned CIDR blocks. */
+const toCidrBlocks = (start: number, end: number): IpamFreeBlock[] => {
+    const blocks: IpamFreeBlock[] = [];
+    while (start <= end) {
+        let hostBits = 0;
+        while (hostBits < 32 && start % 2 ** (hostBits + 1) === 0 && start + 2 ** (hostBits + 1) - 1 <= end) hostBits++;
+        blocks.push({ cidr: `${longToIp(start)}/${32 - hostBits}`, start, end: start + 2 ** hostBits - 1 });
+        start += 2 ** hostBits;
+    }
+    return blocks;
+};
+
+const analyzeSupernet = (supernet: IpamPrefix, subnets: IpamPrefix[]): IpamSupernet => {
+    const used = subnets
+        .filter(p => contains(supernet, p) && !(p.start === supernet.start && p.end === supernet.end))
+        .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const free: IpamFreeBlock[] = [];
+    let cursor = supernet.start, usedAddresses = 0;
+    used.forEach(p => {
+        if (p.start > cursor) free.push(...toCidrBlocks(cursor, p.start - 1));
+        if (p.end >= cursor) {
+            usedAddresses += p.end - Math.max(cursor, p.start) + 1;
+            cursor = p.end + 1;
+        }
+    });
+    if (cursor <= supernet.end) free.push(...toCidrBlocks(cursor, supernet.end));
+
+    return {
+        prefix: supernet,
+        used,
+        free: free.slice(0, MAX_FREE_BLOCKS),
+        omittedFreeBlocks: Math.max(0, free.length - MAX_FREE_BLOCKS),
+        utilization: Math.round((usedAddresses / (supernet.end - supernet.start + 1)) * 1000) / 10,
+    };
+};
+
+/**
+ * Summaries come from OSPF network statements and static routes shorter than the subnets
+ * they cover. SVI subnets outside every summary are grouped into derived /16 blocks.
+ */
+const findSupernets = (prefixes: IpamPrefix[]): IpamSupernet[] => {
+    const subnets = prefixes.filter(p => p.source === 'SVI' || p.source === 'DHCP Pool');
+    const summaries = new Map<string, IpamPrefix>();
+    prefixes
+        .filter(p => (p.source === 'OSPF Network' || p.source === 'Static Route') && 32 - Math.log2(p.end - p.start + 1) >= MIN_SUPERNET_LENGTH)
+        .filter(p => subnets.some(s => contains(p, s) && s.end - s.start < p.end - p.start))
+        .forEach(p => { if (!summaries.has(p.cidr)) summaries.set(p.cidr, p); });
+
+    subnets
+        .filter(s => s.source === 'SVI' && !Array.from(summaries.values()).some(p => contains(p, s)))
+        .forEach(s => {
+            const derived = makePrefix('All devices', 'Derived', `/${DERIVED_SUPERNET_LENGTH} around ${s.cidr}`, longToIp(s.start), DERIVED_SUPERNET_LENGTH)!;
+            if (!summaries.has(derived.cidr)) summaries.set(derived.cidr, derived);
+        });
+
+    return Array.from(summaries.values())
+        .sort((a, b) => a.start - b.start)
+        .map(supernet => analyzeSupernet(supernet, subnets));
+};
+
+/**
+ * Aggregates the IPv4 address plan of every loaded device: SVI subnets, DHCP pools, static
+ * routes and OSPF network statements, with overlap, DHCP and free-space analysis.
+ */
+export const buildIpamReport = (configs: ParsedConfigData[]): IpamReport => {
+    const prefixes = configs.flatMap(collectPrefixes);
+    const sviPrefixes = prefixes.filter(p => p.source === 'SVI');
+    const poolPrefixes = prefixes.filter(p => p.source === 'DHCP Pool');
+    return {
+        prefixes,
+        overlaps: findOverlaps(prefixes),
+        dhcpPools: checkDhcpPools(configs, sviPrefixes),
+        helpers: findHelperTargets(configs, sviPrefixes, poolPrefixes),
+        supernets: findSupernets(prefixes),
+    };
+};
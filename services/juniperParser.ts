@@ -0,0 +1,319 @@
+import { ParsedConfigData, PortConfig, SnmpAcl, ConnectionInfo, ParserWarning } from '../types';
+import { getInitialParsedData, calculateSubnetInfo, sortPorts, parseStaticRoute, parseVlanRanges, formatVlanRanges } from './parserUtils';
+import { prefixToMask, maskToWildcard, ipToLong, longToIp } from './ipUtils';
+import { buildParserDiagnostics, readMatching, TrackedLine } from './parserDiagnostics';
+
+type SetStatement = string[];
+
+const STATEMENT_PREFIXES = ['replace:', 'protect:'];
+
+function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const tokenPattern = /"((?:[^"\\]|\\.)*)"|(\/\*[\s\S]*?\*\/)|(#[^\n]*)|([{};[\]])|([^\s{};[\]"]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(text)) !== null) {
+        if (match[2] || match[3]) continue; // comments
+        if (match[1] !== undefined) tokens.push(match[1]);
+        else tokens.push(match[4] || match[5]);
+    }
+    return tokens;
+}
+
+/**
+ * Flattens a curly-brace Junos configuration into the equivalent
+ * `display set` statements (without the leading "set").
+ */
+function flattenHierarchy(configText: string): SetStatement[] {
+    const statements: SetStatement[] = [];
+    const path: { words: string[], inactive: boolean }[] = [];
+    let words: string[] = [];
+
+    const isInactive = () => path.some(p => p.inactive);
+    const takeWords = () => {
+        let inactive = false;
+        let current = words;
+        while (current.length > 0 && (current[0] === 'inactive:' || STATEMENT_PREFIXES.includes(current[0]))) {
+            if (current[0] === 'inactive:') inactive = true;
+            current = current.slice(1);
+        }
+        words = [];
+        return { words: current, inactive };
+    };
+
+    tokenize(configText).forEach(token => {
+        if (token === '{') {
+            path.push(takeWords());
+        } else if (token === ';') {
+            const statement = takeWords();
+            if (!statement.inactive && !isInactive() && statement.words.length > 0) {
+                statements.push([...path.flatMap(p => p.words), ...statement.words]);
+            }
+        } else if (token === '}') {
+            words = [];
+            path.pop();
+        } else {
+            words.push(token);
+        }
+    });
+    return statements;
+}
+
+function parseSetStatements(configText: string): SetStatement[] {
+    return configText.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.startsWith('set '))
+        .map(line => tokenize(line).slice(1));
+}
+
+/** Expands "[ a b c ]" lists at the end of a statement into their values. */
+function listValues(tokens: string[]): string[] {
+    return tokens.filter(t => t !== '[' && t !== ']');
+}
+
+export function isJunosSetFormat(configText: string): boolean {
+    return /^\s*set\s+\S+/m.test(configText) && !/\{\s*$/m.test(configText);
+}
+
+export function parseJuniperConfigLocal(configText: string): ParsedConfigData {
+    const data = getInitialParsedData();
+    const isSetFormat = isJunosSetFormat(configText);
+    const statements = isSetFormat ? parseSetStatements(configText) : flattenHierarchy(configText);
+    const toLine = (s: SetStatement) => `set ${s.map(t => (/\s/.test(t) ? `"${t}"` : t)).join(' ')}`;
+
+    const ports = new Map<string, PortConfig>();
+    const interfaceAddresses = new Map<string, { ip: string, mask: string, status: string, lines: string[] }>();
+    const vlansByName = new Map<string, { id: string, l3Interface?: string, rawConfig: string[] }>();
+    const clientLists = new Map<string, SnmpAcl>();
+    const serviceLines = new Map<string, string[]>();
+    const dnsServers: string[] = [];
+    const ospfInterfaces: { iface: string, area: string }[] = [];
+    // VLAN members by port, as names or IDs; resolved once all VLANs are known
+    const vlanMembers = new Map<string, string[]>();
+    const voiceVlans = new Map<string, string>();
+    const interfaceVrfs = new Map<string, string>();
+    // Only "display set" input maps each statement back to a line of the upload
+    const lineNumbers = isSetFormat ? configText.split(/\r?\n/).flatMap((line, index) => line.trim().startsWith('set ') ? [index + 1] : []) : [];
+    const allLines: TrackedLine[] = statements.map((s, index) => ({ line: toLine(s), lineNumber: lineNumbers[index] }));
+    const hasLine = (test: (line: string) => boolean) => readMatching(allLines, test).length > 0;
+
+    const getPort = (name: string): PortConfig => {
+        if (!ports.has(name)) ports.set(name, { port: name, type: 'Physical', config: [`interfaces ${name}`], description: '', status: 'Enabled', members: [] });
+        return ports.get(name)!;
+    };
+
+    statements.forEach((s, index) => {
+        const statement = allLines[index];
+        const line = statement.line;
+        const [section, ...rest] = s;
+
+        if (section === 'version') data.iosVersion = rest[0];
+        else if (section === 'system') {
+            if (rest[0] === 'host-name') data.hostname = rest[1];
+            else if (rest[0] === 'domain-name') data.other!.domain = rest[1];
+            else if (rest[0] === 'name-server') dnsServers.push(rest[1]);
+            else if (rest[0] === 'login' && rest[1] === 'user') {
+                const existing = data.usernames!.find(u => u.name === rest[2]);
+                if (existing) existing.config += `\n${line}`;
+                else data.usernames!.push({ name: rest[2], config: line });
+            }
+            else if (rest[0] === 'services' && rest[1]) {
+                serviceLines.set(rest[1], [...(serviceLines.get(rest[1]) || []), line]);
+            }
+            else if (rest[0] === 'authentication-order') {
+                data.aaa!.details.push(`Authentication: order ${listValues(rest.slice(1)).join(' ')}`);
+            }
+            else if (rest[0] === 'radius-server' || rest[0] === 'tacplus-server') {
+                const detail = `${rest[0] === 'radius-server' ? 'RADIUS' : 'TACACS+'} server: ${rest[1]}`;
+                if (!data.aaa!.details.includes(detail)) data.aaa!.details.push(detail);
+            }
+            else if (rest[0] === 'accounting') {
+                if (!data.aaa!.details.some(d => d.startsWith('Accounting'))) data.aaa!.details.push('Accounting: enabled');
+            }
+            else return;
+        }
+        else if (section === 'interfaces' && rest[0] && rest[0] !== 'interface-range') {
+            const ifName = rest[0];
+            const unitIndex = rest.indexOf('unit');
+            const unit = unitIndex === 1 ? rest[2] : undefined;
+            const logicalName = unit !== undefined ? `${ifName}.${unit}` : ifName;
+            const inetIndex = rest.indexOf('inet');
+            const isLayer3Vlan = ifName === 'irb' || ifName === 'vlan';
+
+            if (inetIndex > 0 && rest[inetIndex + 1] === 'address' && rest[inetIndex + 2]?.includes('/')) {
+                const [ip, prefix] = rest[inetIndex + 2].split('/');
+                const existing = interfaceAddresses.get(logicalName);
+                if (!existing) interfaceAddresses.set(logicalName, { ip, mask: prefixToMask(parseInt(prefix, 10)), status: 'Enabled', lines: [line] });
+                else existing.lines.push(line);
+                statement.read = true;
+            } else if (interfaceAddresses.has(logicalName)) {
+                interfaceAddresses.get(logicalName)!.lines.push(line);
+            }
+
+            if (isLayer3Vlan) {
+                if (rest.includes('disable') && interfaceAddresses.has(logicalName)) {
+                    interfaceAddresses.get(logicalName)!.status = 'Disabled';
+                    statement.read = true;
+                }
+                return;
+            }
+
+            const port = getPort(ifName);
+            port.config.push(line);
+            const modeIndex = rest.findIndex(t => t === 'interface-mode' || t === 'port-mode');
+            const membersIndex = rest.indexOf('members');
+            if (rest[1] === 'description') port.description = rest[2];
+            else if (rest[1] === 'disable') port.status = 'Disabled';
+            else if (rest[1] === 'ether-options' && rest[2] === '802.3ad' && rest[3]) {
+                port.members.push(rest[3]);
+                if (!data.portChannels!.includes(rest[3])) data.portChannels!.push(rest[3]);
+            }
+            else if (rest[1] === 'aggregated-ether-options' && !data.portChannels!.includes(ifName)) data.portChannels!.push(ifName);
+            else if (modeIndex > 0 && rest[modeIndex + 1]) {
+                port.type = rest[modeIndex + 1];
+                port.mode = rest[modeIndex + 1] === 'trunk' ? 'trunk' : 'access';
+            }
+            else if (rest.includes('ethernet-switching') && rest[membersIndex - 1] === 'vlan') vlanMembers.set(ifName, [...(vlanMembers.get(ifName) || []), ...listValues(rest.slice(membersIndex + 1))]);
+            else if (rest[rest.length - 2] === 'native-vlan-id') port.nativeVlan = rest[rest.length - 1];
+            else if (rest[rest.length - 2] === 'speed') port.configuredSpeed = rest[rest.length - 1];
+            else if (rest[rest.length - 2] === 'link-mode') port.configuredDuplex = rest[rest.length - 1].replace(/-duplex$/, '');
+            else return;
+        }
+        else if ((section === 'switch-options' || section === 'ethernet-switching-options') && rest[0] === 'voip' && rest[1] === 'interface' && rest[3] === 'vlan') {
+            voiceVlans.set(rest[2].split('.')[0], rest[4]);
+        }
+        else if (section === 'routing-instances' && rest[1] === 'interface' && rest[2]) {
+            interfaceVrfs.set(rest[2].split('.')[0], rest[0]);
+        }
+        else if (section === 'vlans' && rest[0]) {
+            const vlan = vlansByName.get(rest[0]) || { id: '', rawConfig: [] };
+            vlan.rawConfig.push(line);
+            vlansByName.set(rest[0], vlan);
+            if (rest[1] === 'vlan-id') vlan.id = rest[2];
+            else if (rest[1] === 'l3-interface') vlan.l3Interface = rest[2];
+            else return;
+        }
+        else if (section === 'protocols' && rest[0] === 'ospf') {
+            data.ospf!.status = 'Configured';
+            data.ospf!.processId = data.ospf!.processId || 'default';
+            data.ospf!.rawConfig.push(line);
+            if (rest[1] === 'area' && rest[3] === 'interface' && rest[4]) {
+                if (!ospfInterfaces.some(o => o.iface === rest[4] && o.area === rest[2])) ospfInterfaces.push({ iface: rest[4], area: rest[2] });
+                if (rest[5] === 'passive' && !data.ospf!.passiveInterfaces!.includes(rest[4])) data.ospf!.passiveInterfaces!.push(rest[4]);
+                else if (rest.length > 5) data.ospf!.details.push(`Area ${rest[2]} ${rest[4]}: ${rest.slice(5).join(' ')}`);
+            } else {
+                data.ospf!.details.push(rest.slice(1).join(' '));
+            }
+        }
+        else if (section === 'routing-options') {
+            if (rest[0] === 'router-id') data.ospf!.routerId = rest[1];
+            else if (rest[0] === 'static' && rest[1] === 'route' && rest[2]) {
+                if (rest[2] === '0.0.0.0/0' && rest[3] === 'next-hop') data.routing!.defaultRoute = rest[4];
+                const route = ['next-hop', 'discard', 'reject'].includes(rest[3]) ? parseStaticRoute([rest[2]], line) : null;
+                if (route && rest[3] === 'next-hop') route.nextHop = rest[4];
+                else if (route) route.interface = rest[3];
+                if (route) data.routing!.staticRoutes!.push(route);
+            }
+            else return;
+        }
+        else if (section === 'snmp') {
+            data.snmp!.status = 'Configured';
+            data.snmp!.details.push(rest.join(' '));
+            if (rest[0] === 'client-list' && rest[1]) {
+                const acl = clientLists.get(rest[1]) || { name: rest[1], rules: [] };
+                acl.rules.push(line);
+                clientLists.set(rest[1], acl);
+            } else if (rest[0] === 'community' && rest[2] === 'clients') {
+                const acl = clientLists.get(`community ${rest[1]}`) || { name: `community ${rest[1]}`, rules: [] };
+                acl.rules.push(line);
+                clientLists.set(`community ${rest[1]}`, acl);
+            }
+        }
+        else if (section === 'access' && rest[0] === 'address-assignment' && rest[1] === 'pool' && rest[2]) {
+            const pool = data.dhcpPools!.find(p => p.name === rest[2]);
+            if (pool) pool.config.push(line);
+            else data.dhcpPools!.push({ name: rest[2], config: [line] });
+        }
+        else return;
+        statement.read = true;
+    });
+
+    const warnings: ParserWarning[] = [];
+    vlansByName.forEach((vlan, name) => {
+        if (!vlan.id) return;
+        const duplicate = data.vlans!.find(v => v.id === vlan.id);
+        if (duplicate) warnings.push({ message: `VLAN ${vlan.id} is defined more than once (${duplicate.name} and ${name}).`, line: vlan.rawConfig[0] });
+        data.vlans!.push({ id: vlan.id, name, rawConfig: vlan.rawConfig });
+    });
+    data.vlans!.sort((a, b) => Number(a.id) - Number(b.id));
+
+    interfaceAddresses.forEach((address, logicalName) => {
+        const [ifName, unit] = logicalName.split('.');
+        if (ifName !== 'irb' && ifName !== 'vlan') return;
+        const vlan = Array.from(vlansByName.values()).find(v => v.l3Interface === logicalName);
+        const vlanId = vlan?.id || unit;
+        data.svis!.push({ svi: logicalName, vlanId, ipAddress: address.ip, subnetMask: address.mask, ipHelperAddress: 'N/A', status: address.status, additionalInfo: '', rawConfig: address.lines });
+        data.ipRanges!.push({ vlanId, svi: logicalName, ...calculateSubnetInfo(address.ip, address.mask), status: address.status });
+    });
+
+    // Junos enables OSPF per interface, so derive the advertised networks from the interface addresses
+    ospfInterfaces.forEach(({ iface, area }) => {
+        const address = interfaceAddresses.get(iface.includes('.') ? iface : `${iface}.0`) || interfaceAddresses.get(iface);
+        if (!address) {
+            data.ospf!.details.push(`Area ${area}: interface ${iface}`);
+            return;
+        }
+        const network = longToIp(ipToLong(address.ip) & ipToLong(address.mask));
+        data.ospf!.networks!.push({ network, wildcard: maskToWildcard(address.mask), area });
+    });
+
+    const vlanId = (member: string) => vlansByName.get(member)?.id || member;
+    ports.forEach(port => {
+        const members = (vlanMembers.get(port.port) || []).map(vlanId);
+        if (members.length > 0 && port.mode === 'trunk') {
+            if (!members.includes('all')) port.allowedVlans = formatVlanRanges(parseVlanRanges(members.join(',')));
+        } else if (members.length > 0) {
+            port.mode = 'access';
+            port.accessVlan = members[0];
+        }
+        if (voiceVlans.has(port.port)) port.voiceVlan = vlanId(voiceVlans.get(port.port)!);
+        if (interfaceVrfs.has(port.port)) port.vrf = interfaceVrfs.get(port.port);
+        const address = interfaceAddresses.get(`${port.port}.0`);
+        if (address && !port.mode) {
+            port.mode = 'routed';
+            port.ipAddress = address.ip;
+            port.subnetMask = address.mask;
+        }
+        if (port.description.match(/UPLINK/i)) data.uplinks!.push(port.port);
+        data.ports!.push(port);
+    });
+
+    data.snmp!.acls = Array.from(clientLists.values());
+    data.other!.dnsServers = dnsServers.join(' ');
+
+    serviceLines.forEach((lines, service) => {
+        if (!['ssh', 'telnet', 'netconf'].includes(service)) return;
+        const connection: ConnectionInfo = { type: service, range: 'inbound', config: lines, usernames: data.usernames!.map(u => u.name) };
+        data.connections!.push(connection);
+    });
+
+    if (data.aaa!.details.length > 0) {
+        data.aaa!.status = 'Configured';
+        data.security!.present.push('AAA Authentication');
+    }
+    // Needs at least one hashed password, so a config without any password does not pass
+    const hashedPasswords = hasLine(l => / encrypted-password\b/.test(l));
+    const plainPasswords = hasLine(l => / plain-text-password/.test(l));
+    if (hashedPasswords && !plainPasswords) data.security!.present.push('Password Encryption');
+    if (serviceLines.has('ssh')) data.security!.present.push('SSH Enabled');
+    if (!hasLine(l => /^set system services web-management (http|https)\b/.test(l))) data.security!.present.push('HTTP/HTTPS Server Disabled');
+    if (hasLine(l => / (mac-limit|interface-mac-limit) /.test(l))) data.security!.present.push('Port Security on Access Ports');
+    if (hasLine(l => / (bpdu-block-on-edge|bpdu-block)\b/.test(l))) data.security!.present.push('BPDU Guard');
+    if (hasLine(l => / (examine-dhcp|dhcp-security)\b/.test(l))) data.security!.present.push('DHCP Snooping');
+    if (hasLine(l => / arp-inspection\b/.test(l))) data.security!.present.push('Dynamic ARP Inspection');
+    data.security!.missing = ['AAA Authentication', 'Password Encryption', 'SSH Enabled', 'HTTP/HTTPS Server Disabled', 'Port Security on Access Ports', 'BPDU Guard', 'DHCP Snooping', 'Dynamic ARP Inspection']
+        .filter(f => !data.security!.present.includes(f));
+
+    data.ports = sortPorts(data.ports!);
+    data.diagnostics = buildParserDiagnostics(allLines.map(header => ({ header, children: [] })), data, warnings);
+    return data;
+}
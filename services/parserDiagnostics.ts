@@ -0,0 +1,60 @@
+import { ParsedConfigData, ParserDiagnostics, ParserWarning, ConfigLineRef } from '../types';
+import { ConfigBlock } from './parserUtils';
+
+/** A configuration line; the extractor that uses it sets `read`. */
+export interface TrackedLine extends ConfigLineRef {
+    read?: boolean;
+}
+
+/** A top-level command and every line nested below it. */
+export interface DiagnosticBlock {
+    header: TrackedLine;
+    children: TrackedLine[];
+}
+
+/** Diagnostic blocks of a VRP or Comware configuration, as split by splitTopLevelBlocks. */
+export const fromConfigBlocks = (blocks: ConfigBlock[]): DiagnosticBlock[] => blocks.map(block => ({
+    header: { line: block.header, lineNumber: block.lineNumber },
+    children: block.children.map((child, index) => ({ line: child.trim(), lineNumber: block.childLineNumbers[index] })),
+}));
+
+/** Returns the lines that pass a check, marking them as read, e.g. for the security checks that scan the whole configuration. */
+export const readMatching = <T extends TrackedLine>(lines: T[], test: (line: string) => boolean): T[] => {
+    const matches = lines.filter(line => test(line.line));
+    matches.forEach(line => { line.read = true; });
+    return matches;
+};
+
+const percentage = (read: number, total: number) => total === 0 ? 100 : Math.round((read / total) * 1000) / 10;
+
+const toLineRef = ({ line, lineNumber }: TrackedLine): ConfigLineRef => ({ line, lineNumber });
+
+/**
+ * Reports the lines no extractor marked as read, and adds warnings that only show up in the
+ * parsed data, such as an invalid subnet mask.
+ */
+export const buildParserDiagnostics = (blocks: DiagnosticBlock[], data: ParsedConfigData, warnings: ParserWarning[] = []): ParserDiagnostics => {
+    const unparsedBlocks: ParserDiagnostics['unparsedBlocks'] = [];
+    const unmatchedLines: ConfigLineRef[] = [];
+    let totalLines = 0;
+
+    blocks.forEach(({ header, children }) => {
+        const lines = [header, ...children];
+        const unread = lines.filter(line => !line.read);
+        totalLines += lines.length;
+        if (unread.length === lines.length) unparsedBlocks.push({ header: header.line, lineNumber: header.lineNumber, lineCount: lines.length });
+        unmatchedLines.push(...unread.map(toLineRef));
+    });
+
+    (data.ipRanges || []).filter(range => range.network === 'Error').forEach(range => {
+        warnings.push({ message: `Invalid IP address or subnet mask "${range.ipAddress} ${range.subnetMask}" on ${range.svi}; no subnet was calculated.` });
+    });
+
+    return {
+        totalLines,
+        unparsedBlocks,
+        unmatchedLines: unmatchedLines.sort((a, b) => (a.lineNumber || 0) - (b.lineNumber || 0)),
+        warnings,
+        coverage: percentage(totalLines - unmatchedLines.length, totalLines),
+    };
+};
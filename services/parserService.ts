@@ -1,6 +1,11 @@
 import { UploadedFile, ParsedConfigData, VendorName } from '../types';
 import { parseCiscoConfigLocal } from './ciscoParser';
+import { parseHuaweiConfigLocal } from './huaweiParser';
+import { parseJuniperConfigLocal } from './juniperParser';
+import { parseH3cConfigLocal } from './h3cParser';
 import { parseConfigurationWithGemini } from './geminiService';
+import { parseShowOutputs, mergeOperationalState } from './showOutputParser';
+import { getDeviceLabel } from './conflictDetector';
 
 /**
  * Orchestrates the parsing of a configuration file.
@@ -14,9 +19,15 @@ export const parseConfiguration = async (file: UploadedFile): Promise<ParsedConf
     if (file.vendor === VendorName.CISCO) {
         // Local parser is synchronous, wrap in promise to have a consistent async interface
         parsedData = await Promise.resolve(parseCiscoConfigLocal(file.content));
+    } else if (file.vendor === VendorName.HUAWEI) {
+        parsedData = await Promise.resolve(parseHuaweiConfigLocal(file.content));
+    } else if (file.vendor === VendorName.JUNIPER) {
+        parsedData = await Promise.resolve(parseJuniperConfigLocal(file.content));
+    } else if (file.vendor === VendorName.H3C) {
+        parsedData = await Promise.resolve(parseH3cConfigLocal(file.content));
     } else {
         // Use Gemini for other vendors
-        // The Gemini response is expected to be in the legacy format.
+        // The reply is validated against the typed schema and normalized into the same fields as the local parsers
         parsedData = await parseConfigurationWithGemini(file.content, file.vendor);
     }
     
@@ -24,9 +35,33 @@ export const parseConfiguration = async (file: UploadedFile): Promise<ParsedConf
     const finalData: ParsedConfigData = {
         ...parsedData,
         fileName: file.name,
+        deviceId: file.id,
         vendor: file.vendor,
         rawConfig: file.content
     };
-    
-    return finalData;
+
+    // Show output saved in the same file as the configuration
+    const operational = parseShowOutputs(file.content);
+    return operational ? mergeOperationalState(finalData, operational) : finalData;
+};
+
+/**
+ * Merges an upload that holds only show command output into the parsed device it belongs to.
+ * The device is found by the hostname in the CLI prompt or in "show version"; without one,
+ * the output can only belong to a single parsed device.
+ * @throws Error when no parsed device matches.
+ */
+export const applyShowOutputFile = (configs: ParsedConfigData[], file: UploadedFile): ParsedConfigData[] => {
+    const operational = parseShowOutputs(file.content);
+    if (!operational) throw new Error('No supported show command output found.');
+    const hostname = operational.hostname?.toLowerCase();
+    const index = hostname
+        ? configs.findIndex(config => getDeviceLabel(config).toLowerCase() === hostname)
+        : (configs.length === 1 ? 0 : -1);
+    if (index === -1) {
+        throw new Error(hostname
+            ? `No parsed device is named ${operational.hostname}.`
+            : 'The output has no CLI prompt or show version hostname to match it to a device.');
+    }
+    return configs.map((config, i) => i === index ? mergeOperationalState(config, operational) : config);
 };
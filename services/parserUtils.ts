@@ -0,0 +1,704 @@
+declare var ipaddr: any;
+import { ParsedConfigData, PortConfig, IpRangeInfo, StaticRoute, Ipv6StaticRoute, SviInfo, SnmpAcl, ConnectionInfo, ParserWarning } from '../types';
+import { ipToLong, longToIp, isIPv4, prefixToMask, isIPv6, parseIpv6, ipv6PrefixBounds, formatIpv6, isIpv6LinkLocal } from './ipUtils';
+import { buildParserDiagnostics, fromConfigBlocks, readMatching, DiagnosticBlock, TrackedLine } from './parserDiagnostics';
+
+// Building blocks shared by the vendor-specific local parsers
+
+export function getInitialParsedData(): ParsedConfigData {
+    return {
+        hostname: '',
+        iosVersion: '',
+        modelNumber: '',
+        vlans: [],
+        ipRanges: [],
+        ospf: { status: 'Not configured', details: [], rawConfig: [], networks: [], passiveInterfaces: [] },
+        ospfv3: { status: 'Not configured', interfaces: [], passiveInterfaces: [], details: [], rawConfig: [] },
+        snmp: { status: 'Not configured', details: [], acls: [] },
+        svis: [],
+        dhcpPools: [],
+        aaa: { status: 'Not configured', details: [] },
+        other: { dnsServers: '', domain: '' },
+        connections: [],
+        usernames: [],
+        ports: [],
+        uplinks: [],
+        portChannels: [],
+        routing: { defaultGateway: '', defaultRoute: '', staticRoutes: [], ipv6StaticRoutes: [] },
+        security: { present: [], missing: [] }
+    };
+}
+
+export function calculateSubnetInfo(ipAddress: string, subnetMask: string): Omit<IpRangeInfo, 'vlanId'|'svi'|'status'> {
+    const errorResult = {
+        ipAddress,
+        network: "Error",
+        usableRange: "Error",
+        broadcast: "Error",
+        subnetMask: subnetMask || "N/A",
+        totalAddresses: 0,
+        usableAddresses: 0,
+        gateway: ipAddress,
+    };
+
+    // Use ipaddr.js for validation, which is what it's good at.
+    if (!ipaddr.IPv4.isValid(ipAddress) || !ipaddr.IPv4.isValid(subnetMask)) {
+        return errorResult;
+    }
+
+    try {
+        const ipAsLong = ipToLong(ipAddress);
+        const maskAsLong = ipToLong(subnetMask);
+        
+        const networkAsLong = ipAsLong & maskAsLong;
+        const broadcastAsLong = networkAsLong | (~maskAsLong >>> 0);
+
+        const networkAddr = longToIp(networkAsLong);
+        const broadcastAddr = longToIp(broadcastAsLong);
+
+        const prefix = ipaddr.IPv4.parse(subnetMask).prefixLengthFromSubnetMask();
+        if (prefix === null) {
+            return errorResult;
+        }
+
+        const totalAddresses = Math.pow(2, 32 - prefix);
+        let usableAddresses = 0;
+        let usableRange = "N/A";
+
+        if (prefix < 31) {
+             usableAddresses = totalAddresses > 2 ? totalAddresses - 2 : 0;
+             if (usableAddresses > 0) {
+                const firstUsable = longToIp(networkAsLong + 1);
+                const lastUsable = longToIp(broadcastAsLong - 1);
+                usableRange = `${firstUsable} - ${lastUsable}`;
+             } else {
+                 usableRange = "None (subnet too small)";
+             }
+        } else if (prefix === 31) {
+            usableAddresses = 2; // Point-to-point links are usable (RFC 3021)
+            usableRange = `${networkAddr} - ${broadcastAddr}`;
+        } else { // prefix === 32
+            usableAddresses = 1; // Host route
+            usableRange = ipAddress;
+        }
+        
+        return {
+            ipAddress,
+            network: networkAddr,
+            usableRange: usableRange,
+            broadcast: broadcastAddr,
+            subnetMask: `${subnetMask} (/${prefix})`,
+            totalAddresses,
+            usableAddresses,
+            gateway: ipAddress,
+        };
+
+    } catch (e) {
+        console.error(`CRITICAL: Error in calculateSubnetInfo for ${ipAddress}/${subnetMask}:`, e);
+        return errorResult;
+    }
+}
+
+export function calculateIpv6SubnetInfo(address: string, prefixLength: number): Omit<IpRangeInfo, 'vlanId'|'svi'|'status'> {
+    const bounds = ipv6PrefixBounds(address, prefixLength);
+    if (!bounds) {
+        return { ipAddress: address, network: "Error", usableRange: "Error", broadcast: "N/A", subnetMask: `/${prefixLength}`, totalAddresses: 0, usableAddresses: 0, gateway: address, ipVersion: 6, prefixLength };
+    }
+    // IPv6 has no broadcast address, so the whole prefix is assignable
+    const totalAddresses = Math.pow(2, 128 - prefixLength);
+    return {
+        ipAddress: address,
+        network: `${formatIpv6(bounds[0])}/${prefixLength}`,
+        usableRange: `${formatIpv6(bounds[0])} - ${formatIpv6(bounds[1])}`,
+        broadcast: "N/A (IPv6)",
+        subnetMask: `/${prefixLength}`,
+        totalAddresses,
+        usableAddresses: totalAddresses,
+        gateway: address,
+        ipVersion: 6,
+        prefixLength,
+    };
+}
+
+/** Address counts of IPv6 prefixes are too large to print in full, so they are shown as powers of two. */
+export function formatAddressCount(range: IpRangeInfo, count: number): string | number {
+    return range.ipVersion === 6 && range.prefixLength !== undefined ? `2^${128 - range.prefixLength}` : count;
+}
+
+export type Ipv6InterfaceInfo = Pick<SviInfo, 'ipv6Enabled' | 'ipv6Addresses' | 'ipv6LinkLocal' | 'ipv6DhcpRelay'>;
+
+/**
+ * Applies one interface line to the IPv6 settings of an interface. The address syntax is shared by
+ * Cisco IOS/NX-OS, Huawei VRP and H3C Comware; only the DHCPv6 relay commands differ.
+ * @returns true when the line was an IPv6 setting
+ */
+export function parseIpv6InterfaceLine(line: string, info: Ipv6InterfaceInfo): boolean {
+    let match: RegExpMatchArray | null;
+    if (line === 'ipv6 enable' || line === 'ipv6 address auto link-local' || line === 'ipv6 address use-link-local-only') info.ipv6Enabled = true;
+    else if ((match = line.match(/^ipv6\s+address\s+(\S+)\s+link-local$/)) || (match = line.match(/^ipv6\s+link-local\s+(\S+)/))) {
+        info.ipv6LinkLocal = match[1].toLowerCase();
+        info.ipv6Enabled = true;
+    }
+    else if ((match = line.match(/^ipv6\s+address\s+([0-9a-fA-F:.]+)\/(\d+)(\s+eui-64)?/))) {
+        info.ipv6Addresses = [...(info.ipv6Addresses || []), { address: match[1].toLowerCase(), prefixLength: parseInt(match[2], 10), eui64: match[3] ? true : undefined }];
+        info.ipv6Enabled = true;
+    }
+    else if ((match = line.match(/^(?:ipv6\s+dhcp\s+relay\s+(?:destination|address|server-address)|dhcpv6\s+relay\s+(?:destination|server-ip))\s+(\S+)/))) {
+        info.ipv6DhcpRelay = [...(info.ipv6DhcpRelay || []), match[1].toLowerCase()];
+    }
+    else return false;
+    return true;
+}
+
+/** One-line summary of the IPv6 side of an SVI, e.g. "2001:db8:10::1/64, link-local fe80::1, relay 2001:db8::53". */
+export function describeSviIpv6(svi: SviInfo): string {
+    const parts = (svi.ipv6Addresses || []).map(a => `${a.address}/${a.prefixLength}${a.eui64 ? ' eui-64' : ''}`);
+    if (svi.ipv6LinkLocal) parts.push(`link-local ${svi.ipv6LinkLocal}`);
+    if (svi.ipv6DhcpRelay?.length) parts.push(`relay ${svi.ipv6DhcpRelay.join(' ')}`);
+    if (parts.length === 0 && svi.ipv6Enabled) parts.push('enabled (link-local only)');
+    return parts.join(', ');
+}
+
+/** Builds the IP ranges rows for the global IPv6 prefixes of an SVI. Link-local addresses are left out. */
+export function ipv6RangesForSvi(svi: SviInfo): IpRangeInfo[] {
+    return (svi.ipv6Addresses || [])
+        .filter(a => !isIpv6LinkLocal(a.address))
+        .map(a => {
+            const range: IpRangeInfo = { vlanId: svi.vlanId, svi: svi.svi, ...calculateIpv6SubnetInfo(a.address, a.prefixLength), status: svi.status };
+            // With EUI-64 only the prefix is configured; the interface ID comes from the MAC address
+            if (a.eui64) range.ipAddress = range.gateway = `${a.address} eui-64`;
+            return range;
+        });
+}
+
+/**
+ * Reads an IPv6 static route from the words that follow "ipv6 route" / "ipv6 route-static".
+ * The destination is "<prefix>/<length>" or "<prefix> <length>" (VRP/Comware).
+ */
+export function parseIpv6StaticRoute(words: string[], rawConfig: string): Ipv6StaticRoute | null {
+    let prefix: string, length: string, target: string[];
+    if (words[0]?.includes('/')) {
+        [prefix, length] = words[0].split('/');
+        target = words.slice(1);
+    } else {
+        [prefix, length, target] = [words[0], words[1], words.slice(2)];
+    }
+    const bounds = /^\d+$/.test(length || '') ? ipv6PrefixBounds(prefix, parseInt(length, 10)) : null;
+    if (!bounds) return null;
+
+    const route: Ipv6StaticRoute = { prefix: `${formatIpv6(bounds[0])}/${length}`, rawConfig };
+    if (target[0] && isIPv6(target[0])) route.nextHop = formatIpv6(parseIpv6(target[0])!);
+    else if (target[0]) {
+        route.interface = target[0];
+        if (target[1] && isIPv6(target[1])) route.nextHop = formatIpv6(parseIpv6(target[1])!);
+    }
+    return route;
+}
+
+/**
+ * Reads a static route from the words that follow "ip route" / "ip route-static".
+ * The destination is "<prefix> <mask>", "<prefix> <length>" or "<prefix>/<length>", followed by
+ * a next-hop address, an exit interface, or an exit interface and next-hop, then the optional
+ * distance ("250" or "preference 250"), name/description, tag, track and permanent options.
+ */
+export function parseStaticRoute(words: string[], rawConfig: string, vrf?: string): StaticRoute | null {
+    let prefix: string, mask: string, target: string[];
+    if (words[0]?.includes('/')) {
+        const [address, length] = words[0].split('/');
+        [prefix, mask, target] = [address, length, words.slice(1)];
+    } else {
+        [prefix, mask, target] = [words[0], words[1], words.slice(2)];
+    }
+    if (!isIPv4(prefix || '') || !mask) return null;
+    if (/^\d+$/.test(mask)) mask = prefixToMask(parseInt(mask, 10));
+    if (!isIPv4(mask)) return null;
+
+    const route: StaticRoute = { prefix, mask, rawConfig };
+    if (vrf) route.vrf = vrf;
+    let options = target.slice(1);
+    if (target[0] && isIPv4(target[0])) route.nextHop = target[0];
+    else if (target[0]) {
+        route.interface = target[0];
+        if (target[1] && isIPv4(target[1])) {
+            route.nextHop = target[1];
+            options = target.slice(2);
+        }
+    }
+    for (let i = 0; i < options.length; i++) {
+        const word = options[i], next = options[i + 1];
+        if (/^\d+$/.test(word) && route.distance === undefined) route.distance = parseInt(word, 10);
+        else if (word === 'permanent') route.permanent = true;
+        else if (next === undefined) break;
+        else if (word === 'preference') route.distance = parseInt(options[++i], 10);
+        else if (word === 'name' || word === 'description') route.name = options[++i];
+        else if (word === 'tag') route.tag = options[++i];
+        else if (word === 'track') {
+            // IOS tracks an object number; VRP/Comware track "bfd-session <name>" or "nqa <admin> <test>"
+            const length = /^\d+$/.test(next) ? 1 : next === 'nqa' ? 3 : 2;
+            route.track = options.slice(i + 1, i + 1 + length).join(' ');
+            i += length;
+        }
+    }
+    return route;
+}
+
+/** Reads "10,20,30-40" (Cisco) or "10 20 30 to 40" (VRP/Comware) into sorted, merged VLAN ranges. */
+export function parseVlanRanges(list: string): [number, number][] {
+    const ranges: [number, number][] = [];
+    const tokens = list.trim().replace(/\s+to\s+/g, '-').split(/[\s,]+/).filter(Boolean);
+    tokens.forEach(token => {
+        const match = token.match(/^(\d+)(?:-(\d+))?$/);
+        if (match) ranges.push([Number(match[1]), Number(match[2] || match[1])]);
+    });
+    return mergeVlanRanges(ranges);
+}
+
+function mergeVlanRanges(ranges: [number, number][]): [number, number][] {
+    const merged: [number, number][] = [];
+    [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+        else merged.push([start, end]);
+    });
+    return merged;
+}
+
+function removeVlanRanges(ranges: [number, number][], removed: [number, number][]): [number, number][] {
+    return removed.reduce((remaining, [from, to]) => remaining.flatMap(([start, end]): [number, number][] => {
+        if (to < start || from > end) return [[start, end]];
+        return [[start, from - 1], [to + 1, end]].filter(([a, b]) => a <= b) as [number, number][];
+    }), ranges);
+}
+
+export function formatVlanRanges(ranges: [number, number][]): string {
+    if (ranges.length === 0) return 'none';
+    return ranges.map(([start, end]) => start === end ? String(start) : `${start}-${end}`).join(',');
+}
+
+/** True when a VLAN list in the "10,20,30-40" form contains the VLAN; an omitted list means all VLANs. */
+export function vlanListIncludes(list: string | undefined, vlanId: string): boolean {
+    if (list === undefined) return true;
+    const id = Number(vlanId);
+    return parseVlanRanges(list).some(([start, end]) => id >= start && id <= end);
+}
+
+const ALL_VLANS: [number, number][] = [[1, 4094]];
+
+/**
+ * Fills the typed L2/L3 fields of a port from its Cisco, VRP or Comware configuration lines:
+ * switchport mode, access/voice/native VLANs, the allowed VLAN list of a trunk, speed/duplex,
+ * the primary IP address, VRF and the dot1Q tag of a subinterface. Marks the lines it reads.
+ */
+export function parseInterfaceAttributes(port: PortConfig, lines: TrackedLine[]): void {
+    // Cisco trunks carry every VLAN by default, VRP and Comware trunks only VLAN 1
+    let allowed: [number, number][] | null = null;
+    let defaultAllowed = ALL_VLANS;
+    let routed = false;
+
+    lines.forEach(tracked => {
+        const line = tracked.line;
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^(switchport\s+mode|port\s+link-type)\s+(access|trunk|hybrid)$/))) {
+            port.mode = match[2] as PortConfig['mode'];
+            if (match[1] !== 'switchport mode') defaultAllowed = [[1, 1]];
+        }
+        else if ((match = line.match(/^(?:switchport\s+access\s+vlan|port\s+default\s+vlan|port\s+access\s+vlan)\s+(\d+)/))) port.accessVlan = match[1];
+        else if ((match = line.match(/^(?:switchport\s+voice\s+vlan\s+(\d+)|voice[-\s]vlan\s+(\d+)\s+enable)/))) port.voiceVlan = match[1] || match[2];
+        else if ((match = line.match(/^(?:switchport\s+trunk\s+native\s+vlan|port\s+(?:trunk|hybrid)\s+pvid\s+vlan)\s+(\d+)/))) port.nativeVlan = match[1];
+        else if ((match = line.match(/^switchport\s+trunk\s+allowed\s+vlan\s+(?:(add|remove|except)\s+)?(.+)$/))) {
+            const list = match[2] === 'all' ? ALL_VLANS : match[2] === 'none' ? [] : parseVlanRanges(match[2]);
+            if (match[1] === 'add') allowed = mergeVlanRanges([...(allowed || defaultAllowed), ...list]);
+            else if (match[1] === 'remove') allowed = removeVlanRanges(allowed || defaultAllowed, list);
+            else if (match[1] === 'except') allowed = removeVlanRanges(ALL_VLANS, list);
+            else allowed = list;
+        }
+        else if ((match = line.match(/^(undo\s+)?port\s+(?:trunk\s+(?:allow-pass|permit)|hybrid\s+(?:un)?tagged)\s+vlan\s+(.+)$/))) {
+            defaultAllowed = [[1, 1]];
+            const list = match[2] === 'all' ? ALL_VLANS : parseVlanRanges(match[2]);
+            allowed = match[1] ? removeVlanRanges(allowed || defaultAllowed, list) : mergeVlanRanges([...(allowed || defaultAllowed), ...list]);
+        }
+        else if (line === 'no switchport' || line === 'undo portswitch' || line === 'port link-mode route') routed = true;
+        else if ((match = line.match(/^speed\s+(\S+)/))) port.configuredSpeed = match[1];
+        else if ((match = line.match(/^duplex\s+(\S+)/))) port.configuredDuplex = match[1];
+        else if ((match = line.match(/^(?:(?:ip\s+)?vrf\s+(?:forwarding|member)|ip\s+binding\s+vpn-instance)\s+(\S+)/))) port.vrf = match[1];
+        else if ((match = line.match(/^encapsulation\s+dot1q\s+(\d+)|^dot1q\s+termination\s+vid\s+(\d+)|^vlan-type\s+dot1q\s+vid\s+(\d+)/i))) port.encapsulationVlan = match[1] || match[2] || match[3];
+        else if ((match = line.match(/^ip\s+address\s+([\d.]+)(?:\/(\d+)|\s+([\d.]+))(?!.*\s(?:secondary|sub)\b)/)) && !port.ipAddress) {
+            port.ipAddress = match[1];
+            port.subnetMask = match[2] ? prefixToMask(parseInt(match[2], 10)) : /^\d+$/.test(match[3]) ? prefixToMask(parseInt(match[3], 10)) : match[3];
+        }
+        else return;
+        tracked.read = true;
+    });
+
+    if (port.port.includes('.')) port.parentInterface = port.port.slice(0, port.port.lastIndexOf('.'));
+    if (!port.mode && (routed || port.parentInterface || port.ipAddress)) port.mode = 'routed';
+    if (!port.mode && port.accessVlan) port.mode = 'access';
+    if (port.mode === 'trunk' || port.mode === 'hybrid') {
+        const carried = allowed || defaultAllowed;
+        if (carried !== ALL_VLANS && formatVlanRanges(carried) !== '1-4094') port.allowedVlans = formatVlanRanges(carried);
+    }
+}
+
+// Longest-first, each followed by the slot number so "Ten 1/1/1" is not read as "Te"
+const INTERFACE_ABBREVIATIONS: [RegExp, string][] = [
+    [/^(?:hundredgigabitethernet|hundredgige|hu)(?=\d)/i, 'Hu'],
+    [/^(?:fortygigabitethernet|fortygige|fo)(?=\d)/i, 'Fo'],
+    [/^(?:twentyfivegigabitethernet|twentyfivegige|twe)(?=\d)/i, 'Twe'],
+    [/^(?:tengigabitethernet|tengige|ten|te|xge)(?=\d)/i, 'Te'],
+    [/^(?:gigabitethernet|gig|gi|ge)(?=\d)/i, 'Gi'],
+    [/^(?:fastethernet|fas|fa)(?=\d)/i, 'Fa'],
+    [/^(?:ethernet|eth)(?=\d)/i, 'Eth'],
+    [/^(?:port-channel|po)(?=\d)/i, 'Po'],
+];
+
+/** Shortens interface names so "GigabitEthernet1/0/48", "Gig 1/0/48" and "Gi1/0/48" compare equal. */
+export function shortInterfaceName(name: string): string {
+    const compact = name.replace(/\s+/g, '');
+    const abbreviation = INTERFACE_ABBREVIATIONS.find(([pattern]) => pattern.test(compact));
+    return abbreviation ? compact.replace(abbreviation[0], abbreviation[1]) : compact;
+}
+
+
+const PORT_NUMBER_PATTERN = /^([A-Za-z-]+)(\d+(?:\/\d+)*)$/;
+
+/** Sorts ports by type, then numerically by slot/port ("Gi1/0/2" before "Gi1/0/10"), dropping unnamed entries. */
+export function sortPorts(ports: PortConfig[]): PortConfig[] {
+    return (ports || []).filter(port => port && typeof port.port === 'string' && port.port.trim() !== '').sort((a, b) => {
+        const matchA = a.port.match(PORT_NUMBER_PATTERN);
+        const matchB = b.port.match(PORT_NUMBER_PATTERN);
+        if (!matchA || !matchB) return a.port.localeCompare(b.port);
+        const [, typeA, numA] = matchA;
+        const [, typeB, numB] = matchB;
+        if (typeA !== typeB) return typeA.localeCompare(typeB);
+        const numASplit = numA.split('/').map(Number);
+        const numBSplit = numB.split('/').map(Number);
+        for (let i = 0; i < Math.max(numASplit.length, numBSplit.length); i++) {
+            const partA = numASplit[i] || 0;
+            const partB = numBSplit[i] || 0;
+            if (partA !== partB) return partA - partB;
+        }
+        return 0;
+    });
+}
+
+/** True when port b directly follows port a on the same module, e.g. "Gi1/0/4" and "Gi1/0/5". */
+export function isNextPort(a: string, b: string): boolean {
+    const matchA = a.match(PORT_NUMBER_PATTERN);
+    const matchB = b.match(PORT_NUMBER_PATTERN);
+    if (!matchA || !matchB || matchA[1] !== matchB[1]) return false;
+    const numA = matchA[2].split('/').map(Number);
+    const numB = matchB[2].split('/').map(Number);
+    return numA.length === numB.length &&
+        numA.slice(0, -1).every((val, idx) => val === numB[idx]) &&
+        numB[numB.length - 1] === numA[numA.length - 1] + 1;
+}
+
+export interface ConfigBlock {
+    header: string;
+    children: string[];
+    lineNumber: number; // 1-based, of the header
+    childLineNumbers: number[];
+}
+
+/**
+ * Splits an indentation-based configuration (Huawei VRP, H3C Comware) into
+ * top-level blocks. Separator/comment lines ('#', '!', 'return') close the current block.
+ * A line only belongs to a block when it is indented deeper than the block header, because
+ * Comware prints many global commands with a single leading space.
+ * Child lines keep their leading whitespace so nested sections can still be told apart.
+ */
+export function splitTopLevelBlocks(configText: string): ConfigBlock[] {
+    const blocks: ConfigBlock[] = [];
+    let current: ConfigBlock | null = null;
+    let headerIndent = 0;
+
+    configText.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.replace(/\s+$/, '');
+        if (line.trim() === '') return;
+        if (/^\s*[#!]/.test(line) || line === 'return') {
+            current = null;
+            return;
+        }
+        const indent = line.length - line.trimStart().length;
+        if (current && indent > headerIndent) {
+            current.children.push(line);
+            current.childLineNumbers.push(index + 1);
+        } else {
+            current = { header: line.trim(), children: [], lineNumber: index + 1, childLineNumbers: [] };
+            headerIndent = indent;
+            blocks.push(current);
+        }
+    });
+    return blocks;
+}
+
+export interface ConfigNode {
+    line: string; // Trimmed
+    lineNumber: number; // 1-based, in the uploaded text
+    children: ConfigNode[];
+    read?: boolean; // Set by the extractor that uses the line
+}
+
+/**
+ * Builds the command tree of a Cisco IOS / IOS-XE / NX-OS configuration: each line is a child of
+ * the closest preceding line with less indentation. Blocks therefore end at the first line that is
+ * not indented deeper than their header, whether or not a '!' separator follows, which is what
+ * NX-OS and "show running-config | section" output need. Separator and comment lines and the closing
+ * "end" are dropped, and the text of a multi-line banner is kept as children of its "banner" command.
+ */
+export function parseConfigTree(configText: string): ConfigNode[] {
+    const roots: ConfigNode[] = [];
+    const stack: { node: ConfigNode, indent: number }[] = [];
+    let bannerEnd: { node: ConfigNode, delimiter: string } | null = null;
+
+    configText.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (bannerEnd) {
+            if (line !== '') bannerEnd.node.children.push({ line, lineNumber: index + 1, children: [] });
+            if (line.includes(bannerEnd.delimiter)) bannerEnd = null;
+            return;
+        }
+        if (line === '' || line.startsWith('!') || line === 'end') return;
+
+        const indent = rawLine.length - rawLine.trimStart().length;
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const node: ConfigNode = { line, lineNumber: index + 1, children: [] };
+        if (stack.length > 0) stack[stack.length - 1].node.children.push(node);
+        else roots.push(node);
+        stack.push({ node, indent });
+
+        // "banner motd ^C" runs until the next delimiter, regardless of indentation
+        const banner = line.match(/^banner\s+\S+\s+(\^C|\S)(.*)$/);
+        if (banner && !banner[2].includes(banner[1])) bannerEnd = { node, delimiter: banner[1] };
+    });
+    return roots;
+}
+
+/** Every line below a node, depth first, in configuration order. */
+export function flattenConfigNode(node: ConfigNode): string[] {
+    return node.children.flatMap(child => [child.line, ...flattenConfigNode(child)]);
+}
+
+/** Expands "10 20 30 to 35" style VLAN lists into individual VLAN IDs. */
+export function expandVlanList(list: string): string[] {
+    const ids: string[] = [];
+    const tokens = list.trim().split(/\s+/);
+    for (let i = 0; i < tokens.length; i++) {
+        const start = parseInt(tokens[i], 10);
+        if (isNaN(start)) continue;
+        if (tokens[i + 1] === 'to' && !isNaN(parseInt(tokens[i + 2], 10))) {
+            const end = parseInt(tokens[i + 2], 10);
+            for (let id = start; id <= end; id++) ids.push(String(id));
+            i += 2;
+        } else {
+            ids.push(String(start));
+        }
+    }
+    return ids;
+}
+
+/** Keywords in which Huawei VRP and H3C Comware differ; every other block is read the same way. */
+export interface VrpFamilyDialect {
+    sviPrefix: string; // "Vlanif" / "Vlan-interface"
+    aggregationPrefix: string; // "Eth-Trunk" / "Bridge-Aggregation"
+    aggregationMember: RegExp; // Member port line, group number in match[1]
+    aggregationMode: RegExp; // Mode line of the aggregate interface, mode in match[1]
+    aggregationInterface: RegExp;
+    defaultAggregationMode?: string; // Shown for members whose aggregate sets no mode
+    // Reads the dialect's own top-level blocks, such as AAA, marking the children it uses; returns false to leave the block to the shared extraction
+    parseBlock?: (block: DiagnosticBlock, data: ParsedConfigData) => boolean;
+}
+
+/**
+ * Extracts a Huawei VRP or H3C Comware configuration, which share their block layout and most
+ * commands. Patterns accept the keywords of both platforms where they do not collide, e.g.
+ * "user-interface vty" and "line vty", "ip pool" and "dhcp server ip-pool".
+ */
+export function parseVrpFamilyConfig(configText: string, dialect: VrpFamilyDialect): ParsedConfigData {
+    const data = getInitialParsedData();
+    const blocks = splitTopLevelBlocks(configText);
+    const diagnosticBlocks = fromConfigBlocks(blocks);
+    const allLines = diagnosticBlocks.flatMap(({ header, children }) => [header, ...children]);
+    const hasLine = (test: (line: string) => boolean) => readMatching(allLines, test).length > 0;
+    const sviPattern = new RegExp(`^interface\\s+${dialect.sviPrefix}(\\d+)`, 'i');
+
+    const vlanNames = new Map<string, { name: string, rawConfig: string[] }>();
+    const acls = new Map<string, SnmpAcl>();
+    const aggregationModes = new Map<string, string>();
+    const dnsServers: string[] = [];
+    const vlanBlocks = new Set<string>();
+    const aaaLogins: ConnectionInfo[] = [];
+    const warnings: ParserWarning[] = [];
+
+    blocks.forEach((block, blockIndex) => {
+        const { header } = block;
+        const tracked = diagnosticBlocks[blockIndex];
+        const children = tracked.children.map(c => c.line);
+        let match: RegExpMatchArray | null;
+
+        if (dialect.parseBlock?.(tracked, data)) tracked.header.read = true;
+        else if ((match = header.match(/^sysname\s+(\S+)/))) data.hostname = match[1];
+        else if ((match = header.match(/^vlan\s+batch\s+(.+)/))) {
+            expandVlanList(match[1]).forEach(id => {
+                if (!vlanNames.has(id)) vlanNames.set(id, { name: 'Unnamed', rawConfig: [header] });
+            });
+        }
+        else if ((match = header.match(/^vlan\s+(\d+(?:\s+to\s+\d+)?(?:\s+\d+(?:\s+to\s+\d+)?)*)$/))) {
+            const ids = expandVlanList(match[1]);
+            if (ids.length === 1 && vlanBlocks.has(ids[0])) warnings.push({ message: `VLAN ${ids[0]} is defined more than once; the last definition is used.`, line: header, lineNumber: block.lineNumber });
+            if (ids.length === 1) vlanBlocks.add(ids[0]);
+            const nameLine = readMatching(tracked.children, c => /^name\s+/.test(c))[0]?.line || readMatching(tracked.children, c => /^description\s+/.test(c))[0]?.line;
+            ids.forEach(id => vlanNames.set(id, {
+                name: ids.length === 1 && nameLine ? nameLine.replace(/^(name|description)\s+/, '') : 'Unnamed',
+                rawConfig: [header, ...children],
+            }));
+        }
+        else if ((match = header.match(sviPattern))) {
+            const vlanId = match[1], sviName = `${dialect.sviPrefix}${vlanId}`;
+            let ipAddress = 'No IP address', subnetMask = '', ipHelperAddress = 'N/A', sviStatus = 'Enabled';
+            const additionalInfo: string[] = [];
+            const ipv6: Ipv6InterfaceInfo = {};
+            tracked.children.forEach(child => {
+                const subLine = child.line;
+                let subMatch: RegExpMatchArray | null;
+                if (parseIpv6InterfaceLine(subLine, ipv6)) {
+                    child.read = true;
+                    return;
+                }
+                if ((subMatch = subLine.match(/^ip\s+address\s+([\d.]+)\s+([\d.]+)(\s+sub)?/))) {
+                    if (subMatch[3]) additionalInfo.push(`Secondary: ${subMatch[1]} ${subMatch[2]}`);
+                    else [, ipAddress, subnetMask] = subMatch;
+                }
+                else if ((subMatch = subLine.match(/^dhcp\s+relay\s+server-(?:ip|address)\s+(\S+)/))) ipHelperAddress = subMatch[1];
+                else if (subLine === 'shutdown') { sviStatus = 'Disabled'; additionalInfo.push('shutdown'); }
+                else if (subLine === 'undo shutdown') sviStatus = 'Enabled';
+                else if ((subMatch = subLine.match(/^description\s+(.+)/))) additionalInfo.push(`Description: ${subMatch[1]}`);
+                else if (subLine === 'dhcp select global') additionalInfo.push('DHCP: global pool');
+                else return;
+                child.read = true;
+            });
+            const svi: SviInfo = { svi: sviName, vlanId, ipAddress, subnetMask, ipHelperAddress, status: sviStatus, additionalInfo: additionalInfo.join(', '), ...ipv6, rawConfig: [header, ...block.children, '#'] };
+            data.svis!.push(svi);
+            if (ipAddress !== 'No IP address' && subnetMask) {
+                data.ipRanges!.push({ vlanId, svi: sviName, ...calculateSubnetInfo(ipAddress, subnetMask), status: sviStatus });
+            }
+            data.ipRanges!.push(...ipv6RangesForSvi(svi));
+        }
+        else if ((match = header.match(/^interface\s+(\S+)/))) {
+            const interfaceName = match[1];
+            const port: PortConfig = { port: interfaceName, type: 'Physical', config: [header, ...children, '#'], description: '', status: 'Enabled', members: [] };
+            tracked.children.forEach(child => {
+                const subLine = child.line;
+                let subMatch: RegExpMatchArray | null;
+                if ((subMatch = subLine.match(/^description\s+(.+)/))) port.description = subMatch[1];
+                else if (subLine === 'shutdown') port.status = 'Disabled';
+                else if (subLine === 'undo shutdown') port.status = 'Enabled';
+                else if ((subMatch = subLine.match(/^port\s+link-type\s+(\S+)/))) port.type = subMatch[1];
+                // Comware ports are access ports unless a link type says otherwise
+                else if (subLine.match(/^port\s+access\s+vlan\s+\d+/) && port.type === 'Physical') port.type = 'access';
+                else if ((subMatch = subLine.match(dialect.aggregationMember))) {
+                    const aggregation = `${dialect.aggregationPrefix}${subMatch[1]}`;
+                    port.members.push(aggregation);
+                    if (!data.portChannels!.includes(aggregation)) data.portChannels!.push(aggregation);
+                }
+                else if ((subMatch = subLine.match(dialect.aggregationMode))) aggregationModes.set(interfaceName, subMatch[1]);
+                else return;
+                child.read = true;
+            });
+            parseInterfaceAttributes(port, tracked.children);
+            if (dialect.aggregationInterface.test(interfaceName) && !data.portChannels!.includes(interfaceName)) data.portChannels!.push(interfaceName);
+            if (port.description.match(/UPLINK/i)) data.uplinks!.push(interfaceName);
+            data.ports!.push(port);
+        }
+        else if ((match = header.match(/^ospf(?:\s+(\d+))?(?:\s+router-id\s+([\d.]+))?/))) {
+            const ospf = data.ospf!;
+            ospf.status = 'Configured';
+            ospf.processId = match[1] || '1';
+            if (match[2]) ospf.routerId = match[2];
+            ospf.rawConfig = [header, ...block.children];
+            tracked.children.forEach(child => { child.read = true; });
+            let currentArea = '';
+            children.forEach(subLine => {
+                let subMatch: RegExpMatchArray | null;
+                if ((subMatch = subLine.match(/^area\s+(\S+)/))) currentArea = subMatch[1];
+                else if ((subMatch = subLine.match(/^network\s+([\d.]+)\s+([\d.]+)/)) && currentArea) ospf.networks!.push({ network: subMatch[1], wildcard: subMatch[2], area: currentArea });
+                else if ((subMatch = subLine.match(/^silent-interface\s+(\S+)/))) ospf.passiveInterfaces!.push(subMatch[1]);
+                else ospf.details.push(currentArea ? `Area ${currentArea}: ${subLine}` : subLine);
+            });
+        }
+        else if ((match = header.match(/^snmp-agent(?:\s+(.+))?$/))) {
+            data.snmp!.status = 'Configured';
+            data.snmp!.details.push(match[1] || 'enabled');
+        }
+        else if ((match = header.match(/^acl\s+(?:number|basic|advanced|name)\s+(?:name\s+)?(\S+)/))) {
+            acls.set(match[1], { name: match[1], rules: [header, ...children] });
+            tracked.children.forEach(child => { child.read = true; });
+        }
+        else if ((match = header.match(/^(?:user-interface|line)\s+(con|console|aux|vty)\s+(\d+(?:\s+\d+)?)/))) {
+            const line: ConnectionInfo = { type: match[1] === 'console' ? 'con' : match[1], range: match[2], config: [header, ...children], usernames: [] };
+            const descriptionLine = readMatching(tracked.children, c => c.startsWith('description '))[0];
+            if (descriptionLine) line.description = descriptionLine.line.replace(/^description\s+/, '');
+            if (readMatching(tracked.children, c => /^authentication-mode\s+(?:aaa|scheme)$/.test(c)).length > 0) aaaLogins.push(line);
+            data.connections!.push(line);
+        }
+        else if ((match = header.match(/^(?:ip\s+pool|dhcp\s+server\s+ip-pool)\s+(\S+)/))) {
+            data.dhcpPools!.push({ name: match[1], config: [header, ...children] });
+            tracked.children.forEach(child => { child.read = true; });
+        }
+        else if ((match = header.match(/^ip\s+route-static\s+(?:vpn-instance\s+(\S+)\s+)?(.+)/))) {
+            const route = parseStaticRoute(match[2].split(/\s+/), header, match[1]);
+            if (route) data.routing!.staticRoutes!.push(route);
+            if (route && !route.vrf && route.prefix === '0.0.0.0' && route.mask === '0.0.0.0') data.routing!.defaultRoute = route.interface || route.nextHop || '';
+        }
+        else if ((match = header.match(/^ipv6\s+route-static\s+(?!vpn-instance\s)(.+)/))) {
+            const route = parseIpv6StaticRoute(match[1].split(/\s+/), header);
+            if (route) data.routing!.ipv6StaticRoutes!.push(route);
+        }
+        else if ((match = header.match(/^dns\s+server\s+(\S+)/))) dnsServers.push(match[1]);
+        else if ((match = header.match(/^dns\s+domain\s+(\S+)/))) data.other!.domain = match[1];
+        else return;
+        tracked.header.read = true;
+    });
+
+    vlanNames.forEach((vlan, id) => data.vlans!.push({ id, name: vlan.name, rawConfig: vlan.rawConfig }));
+    data.vlans!.sort((a, b) => Number(a.id) - Number(b.id));
+    data.other!.dnsServers = dnsServers.join(' ');
+
+    data.ports!.forEach(port => {
+        const aggregation = port.members[0];
+        const mode = aggregation && (aggregationModes.get(aggregation) || dialect.defaultAggregationMode);
+        if (mode) port.members[0] = `${aggregation} (${mode})`;
+    });
+
+    // SNMP communities and trap hosts may reference a basic ACL by number or name
+    data.snmp!.details.forEach(detail => {
+        const aclMatch = detail.match(/\bacl\s+(?:name\s+)?(\S+)/);
+        if (aclMatch && acls.has(aclMatch[1]) && !data.snmp!.acls.some(a => a.name === aclMatch[1])) {
+            data.snmp!.acls.push(acls.get(aclMatch[1])!);
+        }
+    });
+
+    // VTY/console lines authenticated through AAA ("aaa" on VRP, "scheme" on Comware) accept the local users
+    aaaLogins.forEach(line => { line.usernames = data.usernames!.map(u => u.name); });
+
+    if (data.aaa!.details.length > 0) data.aaa!.status = 'Configured';
+    if (data.aaa!.status === 'Configured') data.security!.present.push('AAA Authentication');
+    // Needs at least one password stored hashed or as cipher text, so a config without any password does not pass
+    const hashedPasswords = hasLine(l => /\bpassword\s+(?:(?:level|role)\s+\S+\s+)?(?:irreversible-cipher|cipher|hash)\b/.test(l));
+    const plainPasswords = hasLine(l => /\bpassword\s+(?:(?:level|role)\s+\S+\s+)?simple\b/.test(l));
+    if (hashedPasswords && !plainPasswords) data.security!.present.push('Password Encryption');
+    if (hasLine(l => /^(?:stelnet|ssh)\s+server\s+enable$/.test(l))) data.security!.present.push('SSH Enabled');
+    const httpDisabled = hasLine(l => l === 'undo http server enable' || l === 'undo ip http enable');
+    const httpsEnabled = hasLine(l => l === 'http secure-server enable' || l === 'ip https enable');
+    if (httpDisabled && !httpsEnabled) data.security!.present.push('HTTP/HTTPS Server Disabled');
+    if (hasLine(l => /^port-security\s+(enable|port-mode)/.test(l))) data.security!.present.push('Port Security on Access Ports');
+    if (hasLine(l => /^stp\s+(port\s+)?bpdu-protection/.test(l))) data.security!.present.push('BPDU Guard');
+    if (hasLine(l => l === 'dhcp snooping enable')) data.security!.present.push('DHCP Snooping');
+    if (hasLine(l => /^arp\s+anti-attack\s+check\s+user-bind\s+enable/.test(l) || l === 'arp detection enable')) data.security!.present.push('Dynamic ARP Inspection');
+    data.security!.missing = ['AAA Authentication', 'Password Encryption', 'SSH Enabled', 'HTTP/HTTPS Server Disabled', 'Port Security on Access Ports', 'BPDU Guard', 'DHCP Snooping', 'Dynamic ARP Inspection']
+        .filter(f => !data.security!.present.includes(f));
+
+    data.ports = sortPorts(data.ports!);
+    data.diagnostics = buildParserDiagnostics(diagnosticBlocks, data, warnings);
+    return data;
+}
@@ -0,0 +1,391 @@
+import { ParsedConfigData, AnalysisFinding, PolicyEvaluation, VendorName } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { buildExportTables, ExportTable } from './exportService';
+
+// Loaded from CDN in index.html, together with the jspdf-autotable plugin
+declare var jspdf: any;
+
+export interface PdfReportOptions {
+    includeRawConfig: boolean;
+}
+
+interface TocEntry {
+    title: string;
+    page: number;
+}
+
+const MARGIN = 40;
+const HEADER_HEIGHT = 50;
+const FOOTER_HEIGHT = 40;
+const SEVERITIES: AnalysisFinding['severity'][] = ['Critical', 'High', 'Medium', 'Low', 'Info'];
+const SEVERITY_COLORS: Record<AnalysisFinding['severity'], [number, number, number]> = {
+    Critical: [185, 28, 28],
+    High: [234, 88, 12],
+    Medium: [202, 138, 4],
+    Low: [37, 99, 235],
+    Info: [107, 114, 128],
+};
+const BRAND_COLOR: [number, number, number] = [30, 64, 175];
+
+/**
+ * Findings that belong in a single device's report: those naming the device, plus global ones naming none.
+ */
+export const getFindingsForReport = (config: ParsedConfigData, findings: AnalysisFinding[]): AnalysisFinding[] => {
+    const device = getDeviceLabel(config);
+    return findings.filter(f => !f.devicesInvolved?.length || f.devicesInvolved.includes(device));
+};
+
+const withoutDeviceColumn = (table: ExportTable): ExportTable => {
+    if (table.headers[0] !== 'Device') return table;
+    return { ...table, headers: table.headers.slice(1), rows: table.rows.map(row => row.slice(1)) };
+};
+
+/**
+ * Lays out a text-based report with jsPDF. Content flows top to bottom through a cursor; headers,
+ * footers and the table of contents are written last, once the final page count is known.
+ */
+class ReportWriter {
+    readonly pdf: any;
+    readonly toc: TocEntry[] = [];
+    readonly pageWidth: number;
+    readonly pageHeight: number;
+    y = MARGIN;
+
+    constructor() {
+        const { jsPDF } = jspdf;
+        this.pdf = new jsPDF({ orientation: 'p', unit: 'pt', format: 'a4' });
+        this.pageWidth = this.pdf.internal.pageSize.getWidth();
+        this.pageHeight = this.pdf.internal.pageSize.getHeight();
+    }
+
+    get contentWidth() {
+        return this.pageWidth - MARGIN * 2;
+    }
+
+    get currentPage(): number {
+        return this.pdf.internal.getCurrentPageInfo().pageNumber;
+    }
+
+    newPage() {
+        this.pdf.addPage();
+        this.y = HEADER_HEIGHT;
+    }
+
+    ensureSpace(height: number) {
+        if (this.y + height > this.pageHeight - FOOTER_HEIGHT) this.newPage();
+    }
+
+    section(title: string) {
+        this.ensureSpace(60);
+        this.toc.push({ title, page: this.currentPage });
+        this.y += 10;
+        this.pdf.setFont('helvetica', 'bold');
+        this.pdf.setFontSize(14);
+        this.pdf.setTextColor(...BRAND_COLOR);
+        this.pdf.text(title, MARGIN, this.y);
+        this.pdf.setDrawColor(...BRAND_COLOR);
+        this.pdf.line(MARGIN, this.y + 4, this.pageWidth - MARGIN, this.y + 4);
+        this.y += 20;
+    }
+
+    subheading(title: string) {
+        this.ensureSpace(40);
+        this.pdf.setFont('helvetica', 'bold');
+        this.pdf.setFontSize(11);
+        this.pdf.setTextColor(31, 41, 55);
+        this.pdf.text(title, MARGIN, this.y);
+        this.y += 14;
+    }
+
+    paragraph(text: string, font: 'helvetica' | 'courier' = 'helvetica', fontSize = 10) {
+        this.pdf.setFont(font, 'normal');
+        this.pdf.setFontSize(fontSize);
+        this.pdf.setTextColor(55, 65, 81);
+        const lineHeight = fontSize * 1.3;
+        const lines: string[] = this.pdf.splitTextToSize(text || ' ', this.contentWidth);
+        lines.forEach(line => {
+            this.ensureSpace(lineHeight);
+            this.pdf.text(line, MARGIN, this.y);
+            this.y += lineHeight;
+        });
+        this.y += 4;
+    }
+
+    details(items: [string, string | undefined][]) {
+        this.table(['Item', 'Value'], items.map(([label, value]) => [label, value || 'N/A']), { columnStyles: { 0: { fontStyle: 'bold', cellWidth: 140 } } });
+    }
+
+    table(headers: string[], rows: (string | number)[][], extra: Record<string, any> = {}) {
+        if (rows.length === 0) {
+            this.paragraph('None');
+            return;
+        }
+        this.pdf.autoTable({
+            head: [headers],
+            body: rows.map(row => row.map(cell => String(cell ?? ''))),
+            startY: this.y,
+            margin: { top: HEADER_HEIGHT, bottom: FOOTER_HEIGHT, left: MARGIN, right: MARGIN },
+            theme: 'grid',
+            styles: { fontSize: 8, cellPadding: 3, overflow: 'linebreak', valign: 'top' },
+            headStyles: { fillColor: BRAND_COLOR, textColor: 255, fontStyle: 'bold' },
+            alternateRowStyles: { fillColor: [243, 244, 246] },
+            showHead: 'everyPage',
+            rowPageBreak: 'avoid',
+            ...extra,
+        });
+        this.y = this.pdf.lastAutoTable.finalY + 14;
+    }
+
+    exportTable(tables: ExportTable[], name: string, columns?: string[]) {
+        const table = tables.find(t => t.name === name)!;
+        const indexes = columns ? columns.map(c => table.headers.indexOf(c)) : table.headers.map((_, i) => i);
+        this.table(indexes.map(i => table.headers[i]), table.rows.map(row => indexes.map(i => row[i])));
+    }
+
+    /** Writes the page header and "Page X of Y" footer on every page except the cover. */
+    decoratePages(device: string, generatedAt: string) {
+        const total = this.pdf.getNumberOfPages();
+        for (let page = 2; page <= total; page++) {
+            this.pdf.setPage(page);
+            this.pdf.setFont('helvetica', 'normal');
+            this.pdf.setFontSize(8);
+            this.pdf.setTextColor(107, 114, 128);
+            this.pdf.text(device, MARGIN, 28);
+            this.pdf.text(generatedAt, this.pageWidth - MARGIN, 28, { align: 'right' });
+            this.pdf.setDrawColor(209, 213, 219);
+            this.pdf.line(MARGIN, 34, this.pageWidth - MARGIN, 34);
+            this.pdf.text(`Page ${page} of ${total}`, this.pageWidth / 2, this.pageHeight - 20, { align: 'center' });
+        }
+    }
+
+    /** Fills the contents list reserved on the cover page, linking each entry to its page. */
+    writeToc(startY: number) {
+        this.pdf.setPage(1);
+        let y = startY;
+        this.pdf.setFont('helvetica', 'bold');
+        this.pdf.setFontSize(14);
+        this.pdf.setTextColor(...BRAND_COLOR);
+        this.pdf.text('Contents', MARGIN, y);
+        y += 20;
+        this.pdf.setFont('helvetica', 'normal');
+        this.pdf.setFontSize(10);
+        this.pdf.setTextColor(55, 65, 81);
+        this.toc.forEach(entry => {
+            this.pdf.textWithLink(entry.title, MARGIN, y, { pageNumber: entry.page });
+            this.pdf.text(String(entry.page), this.pageWidth - MARGIN, y, { align: 'right' });
+            this.pdf.setDrawColor(209, 213, 219);
+            this.pdf.setLineDashPattern([1, 2], 0);
+            this.pdf.line(MARGIN + this.pdf.getTextWidth(entry.title) + 6, y, this.pageWidth - MARGIN - 20, y);
+            this.pdf.setLineDashPattern([], 0);
+            y += 16;
+        });
+    }
+}
+
+const writeCover = (writer: ReportWriter, config: ParsedConfigData, findings: AnalysisFinding[], generatedAt: string): number => {
+    const { pdf } = writer;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(22);
+    pdf.setTextColor(...BRAND_COLOR);
+    pdf.text('Network Configuration Report', MARGIN, 80);
+    pdf.setFontSize(16);
+    pdf.setTextColor(31, 41, 55);
+    pdf.text(getDeviceLabel(config), MARGIN, 108);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.setTextColor(107, 114, 128);
+    pdf.text(`${config.vendor || 'Unknown vendor'}${config.osDialect ? ` ${config.osDialect}` : ''} - ${config.fileName}`, MARGIN, 126);
+    pdf.text(`Generated ${generatedAt}`, MARGIN, 140);
+
+    writer.y = 175;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.setTextColor(...BRAND_COLOR);
+    pdf.text('Severity Summary', MARGIN, writer.y);
+    writer.y += 10;
+    writer.table(
+        [...SEVERITIES, 'Total'],
+        [[...SEVERITIES.map(severity => findings.filter(f => f.severity === severity).length), findings.length]],
+        {
+            headStyles: { textColor: 255, fontStyle: 'bold', halign: 'center' },
+            bodyStyles: { halign: 'center', fontSize: 12 },
+            didParseCell: (data: any) => {
+                if (data.section === 'head') data.cell.styles.fillColor = SEVERITY_COLORS[SEVERITIES[data.column.index]] || BRAND_COLOR;
+            },
+        },
+    );
+    return writer.y + 10;
+};
+
+const writeDeviceSections = (writer: ReportWriter, config: ParsedConfigData, policyEvaluations: PolicyEvaluation[]) => {
+    const tables = buildExportTables([config], []).map(withoutDeviceColumn);
+
+    writer.section('Device Information');
+    writer.details([
+        ['Hostname', config.hostname],
+        ['Vendor', config.vendor],
+        [config.vendor === VendorName.CISCO ? `${config.osDialect === 'NX-OS' ? 'NX-OS' : 'iOS'} Version` : 'OS Version', config.iosVersion],
+        ['Model Number', config.modelNumber],
+        ['Serial Number', config.serialNumber],
+        ['Uptime', config.uptime],
+        ['Last Reload Reason', config.operational?.lastReloadReason],
+        ['Enabled Features', config.features?.join(', ')],
+        ['Source File', config.fileName],
+    ]);
+
+    if (config.operational && config.operational.inventory.length > 0) {
+        writer.subheading('Inventory');
+        writer.table(['Name', 'Description', 'PID', 'Serial'], config.operational.inventory.map(i => [i.name, i.description, i.pid || '', i.serial || '']));
+    }
+
+    writer.section('VLANs and Names');
+    writer.exportTable(tables, 'VLANs');
+
+    writer.section('Available IP Ranges');
+    writer.exportTable(tables, 'IP Ranges', ['VLAN', 'Network', 'Usable Range', 'Broadcast', 'Subnet Mask', 'Gateway', 'Total Addresses', 'Usable Addresses']);
+
+    writer.section('SVIs and Assigned IPs');
+    writer.exportTable(tables, 'SVIs');
+
+    writer.section('Uplinks and Port Channels');
+    writer.exportTable(tables, 'Port-Channels & Uplinks');
+
+    if (config.vpc) {
+        writer.section('vPC Domain');
+        writer.details([
+            ['Domain ID', config.vpc.domainId],
+            ['Role Priority', config.vpc.rolePriority],
+            ['System Priority', config.vpc.systemPriority],
+            ['Peer-Link', config.vpc.peerLink || 'Not configured'],
+            ['Peer-Keepalive', config.vpc.peerKeepalive ? `${config.vpc.peerKeepalive.destination}${config.vpc.peerKeepalive.vrf ? ` vrf ${config.vpc.peerKeepalive.vrf}` : ''}` : 'Not configured'],
+            ['Peer-Gateway', config.vpc.peerGateway ? 'Enabled' : 'Disabled'],
+        ]);
+        writer.table(['vPC ID', 'Port-Channel'], config.vpc.memberPortChannels.map(m => [m.vpcId, m.portChannel]));
+    }
+
+    writer.section('Port Configurations');
+    writer.exportTable(tables, 'Ports', ['Port', 'Description', 'Status', 'Link Status', 'Mode', 'Access VLAN', 'Allowed VLANs', 'IP Address', 'VRF', 'Member Of', 'Configuration']);
+
+    writer.section('Routing');
+    writer.details([
+        ['Default Gateway', config.routing?.defaultGateway || 'Not configured'],
+        ['Default Route', config.routing?.defaultRoute || 'Not configured'],
+        ['BGP', config.bgp ? `AS ${config.bgp.asNumber}${config.bgp.routerId ? `, router ID ${config.bgp.routerId}` : ''}` : 'Not configured'],
+    ]);
+    if (config.routing?.staticRoutes?.length) {
+        writer.subheading('Static Routes');
+        writer.exportTable(tables, 'Static Routes', ['VRF', 'Prefix', 'Mask', 'Next Hop', 'Interface', 'AD', 'Name', 'Track']);
+    }
+    if (config.eigrp?.length) {
+        writer.subheading('EIGRP');
+        writer.exportTable(tables, 'EIGRP', ['Process', 'AS Number', 'Router ID', 'Networks', 'Interfaces', 'Passive Interfaces', 'Redistribute']);
+    }
+    if (config.bgp?.neighbors.length) {
+        writer.subheading('BGP Neighbors');
+        writer.exportTable(tables, 'BGP Neighbors', ['Neighbor', 'VRF', 'Remote AS', 'Description', 'Update Source', 'Route-map In', 'Route-map Out', 'Address Families']);
+    }
+
+    writer.section('OSPF Configuration');
+    if (config.ospf?.status === 'Configured') {
+        writer.details([
+            ['Process ID', config.ospf.processId],
+            ['Router ID', config.ospf.routerId],
+            ['Passive Interfaces', config.ospf.passiveInterfaces?.join(', ') || 'None'],
+        ]);
+        writer.subheading('Advertised Networks');
+        writer.exportTable(tables, 'OSPF Networks', ['Network', 'Wildcard', 'Area']);
+    } else {
+        writer.paragraph('Not configured');
+    }
+
+    if (config.ospfv3?.status === 'Configured') {
+        writer.section('OSPFv3 Configuration');
+        writer.details([
+            ['Process ID', config.ospfv3.processId],
+            ['Router ID', config.ospfv3.routerId],
+            ['Passive Interfaces', config.ospfv3.passiveInterfaces.join(', ') || 'None'],
+        ]);
+        writer.table(['Interface', 'Area'], config.ospfv3.interfaces.map(i => [i.iface, i.area]));
+    }
+
+    writer.section('Security Compliance');
+    writer.details([
+        ['Present', config.security?.present.join(', ') || 'None'],
+        ['Missing (Recommended)', config.security?.missing.join(', ') || 'None'],
+    ]);
+    policyEvaluations.forEach(evaluation => {
+        writer.subheading(`Policy: ${evaluation.packName}`);
+        writer.table(
+            ['Rule', 'Severity', 'Status', 'Description', 'Failures'],
+            evaluation.results.map(r => [r.ruleId, r.severity, r.status, r.description, r.failures.join('\n')]),
+        );
+    });
+
+    writer.section('DHCP, DNS, AAA, SNMP');
+    writer.details([
+        ['DNS Servers', config.other?.dnsServers],
+        ['Domain Name', config.other?.domain],
+        ['AAA Config', config.aaa?.details.join('\n') || config.aaa?.status],
+        ['SNMP Config', config.snmp?.details.join('\n') || config.snmp?.status],
+    ]);
+    writer.subheading('DHCP Pools');
+    writer.exportTable(tables, 'DHCP Pools', ['Pool', 'Network', 'Default Router', 'DNS Servers']);
+
+    writer.section('Available Connections (VTY/Console)');
+    writer.exportTable(tables, 'Lines & Users', ['Kind', 'Name', 'Description', 'Usernames']);
+};
+
+const writeFindings = (writer: ReportWriter, findings: AnalysisFinding[]) => {
+    writer.section('Analysis Findings');
+    const sorted = [...findings].sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+    writer.table(
+        ['Severity', 'Type', 'Description', 'Recommendation', 'Remediation'],
+        sorted.map(f => [f.severity, f.type, f.description, f.recommendation, f.remediation?.commands.join('\n') || '']),
+        {
+            columnStyles: { 0: { cellWidth: 50, fontStyle: 'bold' }, 1: { cellWidth: 60 }, 4: { font: 'courier', fontSize: 7 } },
+            didParseCell: (data: any) => {
+                if (data.section === 'body' && data.column.index === 0) data.cell.styles.textColor = SEVERITY_COLORS[data.cell.raw as AnalysisFinding['severity']];
+            },
+        },
+    );
+};
+
+/**
+ * Builds a searchable, text-based PDF for one device and downloads it. Findings are limited to
+ * those that concern the device; the raw configuration is appended only when requested.
+ */
+export const exportToPdf = (config: ParsedConfigData, findings: AnalysisFinding[], policyEvaluations: PolicyEvaluation[], options: PdfReportOptions, filename: string) => {
+    const writer = new ReportWriter();
+    const device = getDeviceLabel(config);
+    const generatedAt = new Date().toLocaleString();
+    const reportFindings = getFindingsForReport(config, findings);
+
+    const tocStartY = writeCover(writer, config, reportFindings, generatedAt);
+    writer.newPage();
+
+    if (config.hostname) {
+        writeDeviceSections(writer, config, policyEvaluations);
+    } else {
+        // Devices parsed by Gemini before it returned typed fields only carry the legacy summary structure
+        writer.section('Configuration Summary');
+        writer.paragraph(JSON.stringify({
+            deviceInfo: config.deviceInfo,
+            interfaces: config.interfaces,
+            vlansSvis: config.vlansSvis,
+            routingProtocols: config.routingProtocols,
+            securityFeatures: config.securityFeatures,
+        }, null, 2), 'courier', 8);
+    }
+
+    if (reportFindings.length > 0) writeFindings(writer, reportFindings);
+
+    if (options.includeRawConfig) {
+        writer.newPage();
+        writer.section('Appendix: Raw Configuration');
+        writer.paragraph(config.rawConfig || 'N/A', 'courier', 7);
+    }
+
+    writer.decoratePages(device, generatedAt);
+    writer.writeToc(tocStartY);
+    writer.pdf.save(filename);
+};
@@ -0,0 +1,150 @@
+import { parse as parseYaml } from 'yaml';
+import { ParsedConfigData, PolicyPack, PolicyRule, PolicyScope, PolicyEvaluation, PolicyRuleResult, AnalysisFinding, VendorName } from '../types';
+import { SUPPORTED_VENDORS_DATA } from '../constants';
+import { getDeviceLabel } from './conflictDetector';
+import { getDeviceId } from './deviceIdentity';
+import { buildPolicyRemediation } from './remediation';
+
+const SCOPES: PolicyScope[] = ['global', 'interface', 'line-vty', 'svi'];
+const SEVERITIES: AnalysisFinding['severity'][] = ['Critical', 'High', 'Medium', 'Low', 'Info'];
+
+interface PolicyTarget {
+    name: string;
+    lines: string[];
+}
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function validateRule(rule: any, index: number): string[] {
+    const errors: string[] = [];
+    const label = `Rule ${rule?.id || `#${index + 1}`}`;
+    if (!rule || typeof rule !== 'object') return [`${label}: must be an object`];
+    if (typeof rule.id !== 'string' || !rule.id) errors.push(`${label}: 'id' is required`);
+    if (typeof rule.description !== 'string') errors.push(`${label}: 'description' is required`);
+    if (!SEVERITIES.includes(rule.severity)) errors.push(`${label}: 'severity' must be one of ${SEVERITIES.join(', ')}`);
+    if (!SCOPES.includes(rule.scope)) errors.push(`${label}: 'scope' must be one of ${SCOPES.join(', ')}`);
+    if (rule.interfaceMode !== undefined && typeof rule.interfaceMode !== 'string') errors.push(`${label}: 'interfaceMode' must be a string`);
+    if (rule.vendors !== undefined && !(isStringArray(rule.vendors) && rule.vendors.every((v: string) => Object.values(VendorName).includes(v as VendorName)))) {
+        errors.push(`${label}: 'vendors' must list known vendors (${Object.values(VendorName).join(', ')})`);
+    }
+    if (rule.os !== undefined && !isStringArray(rule.os)) errors.push(`${label}: 'os' must be a list of OS names`);
+    if (rule.required !== undefined && !isStringArray(rule.required)) errors.push(`${label}: 'required' must be a list of patterns`);
+    if (rule.forbidden !== undefined && !isStringArray(rule.forbidden)) errors.push(`${label}: 'forbidden' must be a list of patterns`);
+    if (!rule.required?.length && !rule.forbidden?.length) errors.push(`${label}: needs at least one 'required' or 'forbidden' pattern`);
+    [...(rule.required || []), ...(rule.forbidden || [])].forEach((pattern: string) => {
+        try {
+            new RegExp(pattern);
+        } catch {
+            errors.push(`${label}: invalid pattern "${pattern}"`);
+        }
+    });
+    if (typeof rule.remediation !== 'string') errors.push(`${label}: 'remediation' is required`);
+    return errors;
+}
+
+/**
+ * Reads a policy pack from JSON or YAML text and validates its structure.
+ * @throws Error listing every problem found, so the whole pack can be fixed in one pass.
+ */
+export const parsePolicyPack = (text: string): PolicyPack => {
+    let raw: any;
+    try {
+        raw = text.trim().startsWith('{') ? JSON.parse(text) : parseYaml(text);
+    } catch (e) {
+        throw new Error(`Policy pack is not valid JSON or YAML: ${(e as Error).message}`);
+    }
+    if (!raw || typeof raw !== 'object') throw new Error("Policy pack must be an object with 'name' and 'rules'.");
+
+    const errors: string[] = [];
+    if (typeof raw.name !== 'string' || !raw.name) errors.push("'name' is required");
+    if (!Array.isArray(raw.rules) || raw.rules.length === 0) errors.push("'rules' must be a non-empty list");
+    else raw.rules.forEach((rule: any, index: number) => errors.push(...validateRule(rule, index)));
+    if (errors.length > 0) throw new Error(`Invalid policy pack: ${errors.join('; ')}`);
+
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : raw.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        name: raw.name,
+        version: raw.version !== undefined ? String(raw.version) : undefined,
+        description: raw.description,
+        rules: raw.rules,
+    };
+};
+
+// Cisco configs carry their dialect; other vendors have a single supported OS
+const getConfigOs = (config: ParsedConfigData): string | undefined => {
+    return config.osDialect || SUPPORTED_VENDORS_DATA.find(v => v.name === config.vendor)?.os[0];
+};
+
+const appliesTo = (rule: PolicyRule, config: ParsedConfigData): boolean => {
+    if (rule.vendors && rule.vendors.length > 0 && !rule.vendors.includes(config.vendor!)) return false;
+    if (rule.os && rule.os.length > 0 && !rule.os.some(os => os.toLowerCase() === getConfigOs(config)?.toLowerCase())) return false;
+    return true;
+};
+
+const getTargets = (rule: PolicyRule, config: ParsedConfigData): PolicyTarget[] => {
+    switch (rule.scope) {
+        case 'global':
+            return [{ name: 'Global configuration', lines: (config.rawConfig || '').split(/\r?\n/) }];
+        case 'interface':
+            return (config.ports || [])
+                .filter(port => !rule.interfaceMode || port.type.toLowerCase() === rule.interfaceMode.toLowerCase())
+                .map(port => ({ name: port.port, lines: port.config }));
+        case 'line-vty':
+            return (config.connections || []).filter(line => line.type === 'vty').map(line => ({ name: `vty ${line.range}`, lines: line.config }));
+        case 'svi':
+            return (config.svis || []).map(svi => ({ name: svi.svi, lines: svi.rawConfig || [] }));
+    }
+};
+
+/**
+ * Evaluates one rule against a device. Patterns are matched case-insensitively against each
+ * trimmed line of a target; a target fails if any required pattern matches no line, or any
+ * forbidden pattern matches a line.
+ */
+export const evaluatePolicyRule = (rule: PolicyRule, config: ParsedConfigData): PolicyRuleResult => {
+    const result: PolicyRuleResult = { ruleId: rule.id, description: rule.description, severity: rule.severity, status: 'pass', failures: [], failedTargets: [], remediation: rule.remediation };
+    const targets = appliesTo(rule, config) ? getTargets(rule, config) : [];
+    if (targets.length === 0) return { ...result, status: 'not-applicable' };
+
+    const required = (rule.required || []).map(p => new RegExp(p, 'i'));
+    const forbidden = (rule.forbidden || []).map(p => new RegExp(p, 'i'));
+    targets.forEach(target => {
+        const lines = target.lines.map(line => line.trim());
+        const problems = [
+            ...required.filter(r => !lines.some(line => r.test(line))).map(r => `missing /${r.source}/`),
+            ...forbidden.flatMap(f => lines.filter(line => f.test(line)).map(line => `forbidden "${line}"`)),
+        ];
+        if (problems.length > 0) {
+            result.failures.push(`${target.name}: ${problems.join(', ')}`);
+            result.failedTargets.push(target.name);
+        }
+    });
+    return { ...result, status: result.failures.length > 0 ? 'fail' : 'pass' };
+};
+
+export const evaluatePolicyPacks = (packs: PolicyPack[], config: ParsedConfigData): PolicyEvaluation[] => {
+    return packs.map(pack => ({
+        packId: pack.id,
+        packName: pack.name,
+        results: pack.rules.map(rule => evaluatePolicyRule(rule, config)),
+    }));
+};
+
+/**
+ * Turns failed policy rules into analysis findings, one per rule and device.
+ */
+export const policyFindingsForDevice = (packs: PolicyPack[], config: ParsedConfigData): AnalysisFinding[] => {
+    const device = getDeviceLabel(config);
+    return evaluatePolicyPacks(packs, config).flatMap((evaluation, packIndex) => evaluation.results
+        .filter(result => result.status === 'fail')
+        .map(result => ({
+            id: `policy_${evaluation.packId}_${result.ruleId}_${getDeviceId(config)}`.toLowerCase().replace(/[^a-z0-9]+/g, '_'),
+            type: 'Security Risk' as const,
+            severity: result.severity,
+            description: `${result.ruleId} (${evaluation.packName}): ${result.description} - failed on ${device}`,
+            devicesInvolved: [device],
+            details: result.failures,
+            recommendation: result.remediation,
+            remediation: buildPolicyRemediation(packs[packIndex].rules.find(r => r.id === result.ruleId)!, config, result.failedTargets) || undefined,
+        })));
+};
@@ -0,0 +1,373 @@
+import { ParsedConfigData, RemediationSnippet, VendorName, PolicyRule, AnalysisFinding, AuditFindingDetails, PortConfig } from '../types';
+
+type Platform = 'ios' | 'nxos' | 'vrp' | 'comware' | 'junos';
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+    ios: 'Cisco IOS',
+    nxos: 'Cisco NX-OS',
+    vrp: 'Huawei VRP',
+    comware: 'H3C Comware',
+    junos: 'Juniper Junos',
+};
+
+// Placeholders the engineer has to fill in before applying a snippet
+const MGMT_SUBNET = '<mgmt-subnet>';
+const MGMT_WILDCARD = '<mgmt-wildcard>';
+const NMS_HOST = '<nms-host>';
+const ADMIN_USER = '<admin-user>';
+const ADMIN_SECRET = '<admin-secret>';
+const MGMT_ACL = 'MGMT-ACCESS';
+const SNMP_ACL = 'SNMP-ACCESS';
+const MGMT_ACL_NUMBER = '2999';
+const SNMP_ACL_NUMBER = '2998';
+
+const INTERFACE_ABBREVIATIONS: [RegExp, string][] = [
+    [/^HundredGigE/i, 'Hu'],
+    [/^FortyGigabitEthernet/i, 'Fo'],
+    [/^TwentyFiveGigE/i, 'Twe'],
+    [/^TenGigabitEthernet/i, 'Te'],
+    [/^GigabitEthernet/i, 'Gi'],
+    [/^FastEthernet/i, 'Fa'],
+];
+
+export const getPlatform = (config: ParsedConfigData): Platform | null => {
+    switch (config.vendor) {
+        case VendorName.CISCO: return config.osDialect === 'NX-OS' ? 'nxos' : 'ios';
+        case VendorName.HUAWEI: return 'vrp';
+        case VendorName.H3C: return 'comware';
+        case VendorName.JUNIPER: return 'junos';
+        default: return null;
+    }
+};
+
+/**
+ * Builds the command that reverts a single configuration line, keeping its indentation.
+ */
+const negate = (platform: Platform, line: string): string => {
+    const indent = line.match(/^\s*/)![0];
+    const command = line.trim();
+    if (platform === 'junos') return command.replace(/^set\s/, 'delete ');
+    const prefix = platform === 'vrp' || platform === 'comware' ? 'undo ' : 'no ';
+    return command.startsWith(prefix) ? `${indent}${command.slice(prefix.length)}` : `${indent}${prefix}${command}`;
+};
+
+const isModeCommand = (platform: Platform, line: string) => {
+    return !line.startsWith(' ') && (/^(interface|line|user-interface|port-group|vlan|ip access-list|acl)\b/.test(line) || (platform !== 'junos' && /^(exit|quit)$/.test(line)));
+};
+
+/**
+ * Reverts a list of commands in reverse order. Mode-entering lines (interface, line, acl...) are
+ * kept as they are so the negated sub-commands land in the same context.
+ */
+const buildRollback = (platform: Platform, commands: string[]): string[] => {
+    if (platform === 'junos') return commands.filter(c => c.startsWith('set ')).map(c => negate(platform, c)).reverse();
+    const blocks: string[][] = [];
+    commands.forEach(line => {
+        if (isModeCommand(platform, line) && !/^(exit|quit)$/.test(line)) blocks.push([line]);
+        else if (/^(exit|quit)$/.test(line)) blocks[blocks.length - 1]?.push(line);
+        else if (line.startsWith(' ') && blocks.length > 0) blocks[blocks.length - 1].push(line);
+        else blocks.push([line]);
+    });
+    return blocks.reverse().flatMap(block => {
+        const [head, ...rest] = block;
+        // Access lists created by a snippet are removed as a whole
+        if (!isModeCommand(platform, head) || /^(ip access-list|acl)\b/.test(head)) return [negate(platform, head)];
+        const body = rest.filter(l => !/^(exit|quit)$/.test(l)).reverse().map(l => negate(platform, l));
+        const exit = rest.some(l => /^(exit|quit)$/.test(l)) ? [platform === 'vrp' || platform === 'comware' ? 'quit' : 'exit'] : [];
+        return [head, ...body, ...exit];
+    });
+};
+
+const snippet = (platform: Platform, commands: string[], rollback = buildRollback(platform, commands)): RemediationSnippet => ({
+    platform: PLATFORM_LABELS[platform],
+    commands,
+    rollback,
+});
+
+interface PortGroup {
+    first: string;
+    last: string;
+}
+
+const splitPortName = (name: string) => name.match(/^(.*?)(\d+)$/);
+
+/** Groups port names into runs of consecutive ports. */
+export const groupPorts = (names: string[]): PortGroup[] => {
+    const groups: PortGroup[] = [];
+    names.forEach(name => {
+        const previous = groups[groups.length - 1];
+        const previousMatch = previous && splitPortName(previous.last);
+        const match = splitPortName(name);
+        if (previousMatch && match && previousMatch[1] === match[1] && Number(match[2]) === Number(previousMatch[2]) + 1) {
+            previous.last = name;
+        } else {
+            groups.push({ first: name, last: name });
+        }
+    });
+    return groups;
+};
+
+const abbreviate = (name: string) => {
+    const rule = INTERFACE_ABBREVIATIONS.find(([pattern]) => pattern.test(name));
+    return rule ? name.replace(rule[0], rule[1]) : name;
+};
+
+/**
+ * Enters configuration mode for a group of ports using each platform's range syntax.
+ */
+const enterPortGroup = (platform: Platform, group: PortGroup): string => {
+    const single = group.first === group.last;
+    const lastNumber = splitPortName(group.last)?.[2] || group.last;
+    switch (platform) {
+        case 'ios': return single ? `interface ${abbreviate(group.first)}` : `interface range ${abbreviate(group.first)} - ${lastNumber}`;
+        case 'nxos': return single ? `interface ${group.first}` : `interface ${group.first}-${lastNumber}`;
+        case 'vrp': return single ? `interface ${group.first}` : `port-group group-member ${group.first} to ${group.last}`;
+        case 'comware': return single ? `interface ${group.first}` : `interface range ${group.first} to ${group.last}`;
+        case 'junos': return '';
+    }
+};
+
+/**
+ * Applies the same sub-commands to every listed port, grouped into ranges where the platform allows.
+ * On Junos the sub-commands are full set statements with a <port> placeholder, repeated per port.
+ */
+const forPorts = (platform: Platform, ports: string[], subCommands: string[]): string[] => {
+    if (platform === 'junos') {
+        return ports.flatMap(port => subCommands.map(c => c.replace('<port>', port)));
+    }
+    const exit = platform === 'vrp' || platform === 'comware' ? 'quit' : 'exit';
+    return groupPorts(ports).flatMap(group => [enterPortGroup(platform, group), ...subCommands.map(c => ` ${c}`), exit]);
+};
+
+const getVtyHeader = (platform: Platform, range: string) => {
+    switch (platform) {
+        case 'ios': return `line vty ${range}`;
+        case 'nxos': return 'line vty';
+        case 'vrp': return `user-interface vty ${range}`;
+        default: return `line vty ${range}`;
+    }
+};
+
+const getAccessVlans = (config: ParsedConfigData): string[] => {
+    const vlans = new Set((config.ports || []).filter(p => p.mode === 'access' && p.accessVlan).map(p => p.accessVlan!));
+    return Array.from(vlans).sort((a, b) => Number(a) - Number(b));
+};
+
+const communityName = (detail: string) => detail.match(/^community\s+(?:(?:read|write)\s+)?(?:(?:cipher|simple)\s+)?(\S+)/)?.[1] || '<community>';
+
+type RemediationBuilder = (platform: Platform, config: ParsedConfigData, details: AuditFindingDetails) => RemediationSnippet | null;
+
+const AUDIT_REMEDIATIONS: Record<string, RemediationBuilder> = {
+    password_encryption: (platform) => {
+        if (platform === 'ios') return snippet(platform, ['service password-encryption']);
+        return null;
+    },
+    http_server: (platform) => {
+        switch (platform) {
+            case 'ios': return snippet(platform, ['no ip http server', 'no ip http secure-server']);
+            case 'nxos': return snippet(platform, ['no feature nxapi']);
+            case 'vrp': return snippet(platform, ['undo http server enable', 'undo http secure-server enable']);
+            case 'comware': return snippet(platform, ['undo ip http enable', 'undo ip https enable']);
+            case 'junos': return snippet(platform, ['delete system services web-management'], ['rollback 1']);
+        }
+    },
+    ssh_disabled: (platform) => {
+        switch (platform) {
+            case 'ios': return snippet(platform, ['crypto key generate rsa modulus 2048', 'ip ssh version 2'], ['no ip ssh version 2']);
+            case 'nxos': return snippet(platform, ['feature ssh']);
+            case 'vrp': return snippet(platform, ['stelnet server enable']);
+            case 'comware': return snippet(platform, ['public-key local create rsa', 'ssh server enable'], ['undo ssh server enable']);
+            case 'junos': return snippet(platform, ['set system services ssh protocol-version v2']);
+        }
+    },
+    vty_telnet: (platform, config, details) => {
+        if (platform === 'junos') return snippet(platform, ['delete system services telnet'], ['set system services telnet']);
+        const lines = (config.connections || []).filter(line => (details.lines || []).includes(`${line.type} ${line.range}`));
+        const command = platform === 'vrp' || platform === 'comware' ? 'protocol inbound ssh' : 'transport input ssh';
+        const exit = platform === 'vrp' || platform === 'comware' ? 'quit' : 'exit';
+        const commands = lines.flatMap(line => [getVtyHeader(platform, line.range), ` ${command}`, exit]);
+        // Rolling back restores the original transport settings rather than negating the new one
+        const rollback = lines.flatMap(line => {
+            const original = line.config.map(c => c.trim()).find(c => /^(transport\s+input|protocol\s+inbound)\s/.test(c));
+            return original ? [getVtyHeader(platform, line.range), ` ${original}`, exit] : [];
+        });
+        return commands.length > 0 ? snippet(platform, commands, rollback) : null;
+    },
+    vty_no_acl: (platform, config, details) => {
+        const ranges = (config.connections || []).filter(line => (details.lines || []).includes(`vty ${line.range}`)).map(line => line.range);
+        switch (platform) {
+            case 'ios': return snippet(platform, [`ip access-list standard ${MGMT_ACL}`, ` permit ${MGMT_SUBNET} ${MGMT_WILDCARD}`, 'exit', ...ranges.flatMap(r => [getVtyHeader(platform, r), ` access-class ${MGMT_ACL} in`, 'exit'])]);
+            case 'nxos': return snippet(platform, [`ip access-list ${MGMT_ACL}`, ` permit ip ${MGMT_SUBNET} any`, 'exit', 'line vty', ` access-class ${MGMT_ACL} in`, 'exit']);
+            case 'vrp':
+            case 'comware': {
+                const aclHeader = platform === 'vrp' ? `acl number ${MGMT_ACL_NUMBER}` : `acl basic ${MGMT_ACL_NUMBER}`;
+                return snippet(platform, [aclHeader, ` rule permit source ${MGMT_SUBNET} ${MGMT_WILDCARD}`, 'quit', ...ranges.flatMap(r => [getVtyHeader(platform, r), ` acl ${MGMT_ACL_NUMBER} inbound`, 'quit'])]);
+            }
+            default: return null;
+        }
+    },
+    snmp_no_acl: (platform, config, details) => {
+        const communities = details.communities || [];
+        switch (platform) {
+            case 'ios': return snippet(platform,
+                [`ip access-list standard ${SNMP_ACL}`, ` permit ${NMS_HOST}`, 'exit', ...communities.map(c => `snmp-server community ${communityName(c)} ${/\bRW\b/i.test(c) ? 'RW' : 'RO'} ${SNMP_ACL}`)],
+                [...communities.map(c => `snmp-server ${c}`), `no ip access-list standard ${SNMP_ACL}`]);
+            case 'nxos': return snippet(platform, [`ip access-list ${SNMP_ACL}`, ` permit udp ${NMS_HOST}/32 any eq snmp`, 'exit', ...communities.map(c => `snmp-server community ${communityName(c)} use-acl ${SNMP_ACL}`)]);
+            case 'vrp': return snippet(platform, [`acl number ${SNMP_ACL_NUMBER}`, ` rule permit source ${NMS_HOST} 0`, 'quit', `snmp-agent acl ${SNMP_ACL_NUMBER}`]);
+            case 'junos': return snippet(platform, communities.map(c => `set snmp community ${communityName(c)} clients ${NMS_HOST}/32`));
+            default: return null;
+        }
+    },
+    snmp_default_community: (platform, config, details) => {
+        const communities = details.communities || [];
+        const restore = (prefix: string) => communities.map(c => `${prefix}${c}`);
+        switch (platform) {
+            case 'ios':
+            case 'nxos': return snippet(platform, communities.map(c => `no snmp-server community ${communityName(c)}`), restore('snmp-server '));
+            case 'vrp':
+            case 'comware': return snippet(platform, communities.map(c => `undo snmp-agent community ${communityName(c)}`), restore('snmp-agent '));
+            case 'junos': return snippet(platform, Array.from(new Set(communities.map(c => `delete snmp community ${communityName(c)}`))), ['rollback 1']);
+        }
+    },
+    aaa_missing: (platform, config) => {
+        if (platform !== 'ios') return null;
+        const commands = ['aaa new-model', 'aaa authentication login default group tacacs+ local', 'aaa authorization exec default group tacacs+ local'];
+        const rollback = ['no aaa authorization exec default', 'no aaa authentication login default', 'no aaa new-model'];
+        if ((config.usernames || []).length > 0) return snippet(platform, commands, rollback);
+        // Without a local user the "local" fallback has nobody to authenticate, which locks out every login while TACACS+ is unreachable
+        return snippet(platform,
+            ['! No local user is configured: create one before AAA is enabled', `username ${ADMIN_USER} privilege 15 secret ${ADMIN_SECRET}`, ...commands],
+            [...rollback, `no username ${ADMIN_USER}`]);
+    },
+    port_security: (platform, config, details) => {
+        const ports = details.ports || [];
+        switch (platform) {
+            case 'ios': return snippet(platform, forPorts(platform, ports, ['switchport port-security maximum 2', 'switchport port-security violation restrict', 'switchport port-security']));
+            case 'nxos': return snippet(platform, ['feature port-security', ...forPorts(platform, ports, ['switchport port-security maximum 2', 'switchport port-security'])]);
+            case 'vrp': return snippet(platform, forPorts(platform, ports, ['port-security enable', 'port-security max-mac-num 2']));
+            case 'comware': return snippet(platform, ['port-security enable', ...forPorts(platform, ports, ['port-security max-mac-count 2', 'port-security port-mode autolearn'])]);
+            case 'junos': return snippet(platform, forPorts(platform, ports, ['set switch-options interface <port> interface-mac-limit 2']));
+        }
+    },
+    bpdu_guard: (platform, config, details) => {
+        const ports = details.ports || [];
+        if (ports.length === 0) {
+            switch (platform) {
+                case 'ios': return snippet(platform, ['spanning-tree portfast bpduguard default']);
+                case 'nxos': return snippet(platform, ['spanning-tree port type edge bpduguard default']);
+                case 'vrp':
+                case 'comware': return snippet(platform, ['stp bpdu-protection']);
+                case 'junos': return snippet(platform, ['set protocols rstp bpdu-block-on-edge']);
+            }
+        }
+        switch (platform) {
+            case 'ios':
+            case 'nxos': return snippet(platform, forPorts(platform, ports, ['spanning-tree bpduguard enable']));
+            case 'vrp': return snippet(platform, ['stp bpdu-protection', ...forPorts(platform, ports, ['stp edged-port enable'])]);
+            case 'comware': return snippet(platform, ['stp bpdu-protection', ...forPorts(platform, ports, ['stp edged-port'])]);
+            case 'junos': return snippet(platform, ['set protocols rstp bpdu-block-on-edge', ...forPorts(platform, ports, ['set protocols rstp interface <port> edge'])]);
+        }
+    },
+    dhcp_snooping: (platform, config) => {
+        const vlans = getAccessVlans(config).join(',') || '<user-vlans>';
+        const uplinks = config.uplinks || [];
+        switch (platform) {
+            case 'ios': return snippet(platform, ['ip dhcp snooping', `ip dhcp snooping vlan ${vlans}`, ...forPorts(platform, uplinks, ['ip dhcp snooping trust'])]);
+            case 'nxos': return snippet(platform, ['feature dhcp', 'ip dhcp snooping', `ip dhcp snooping vlan ${vlans}`, ...forPorts(platform, uplinks, ['ip dhcp snooping trust'])]);
+            case 'vrp': return snippet(platform, ['dhcp enable', 'dhcp snooping enable', ...forPorts(platform, uplinks, ['dhcp snooping trusted'])]);
+            case 'comware': return snippet(platform, ['dhcp snooping enable', ...forPorts(platform, uplinks, ['dhcp snooping trust'])]);
+            default: return null;
+        }
+    },
+    arp_inspection: (platform, config) => {
+        const vlans = getAccessVlans(config);
+        const uplinks = config.uplinks || [];
+        switch (platform) {
+            case 'ios':
+            case 'nxos': return snippet(platform, [`ip arp inspection vlan ${vlans.join(',') || '<user-vlans>'}`, ...forPorts(platform, uplinks, ['ip arp inspection trust'])]);
+            case 'comware': return snippet(platform, [...(vlans.length > 0 ? vlans : ['<user-vlan>']).flatMap(v => [`vlan ${v}`, ' arp detection enable', 'quit']), ...forPorts(platform, uplinks, ['arp detection trust'])]);
+            default: return null;
+        }
+    },
+    access_vlan_undefined: (platform, config, details) => {
+        const vlans = details.vlans || [];
+        switch (platform) {
+            case 'ios':
+            case 'nxos': return snippet(platform, vlans.flatMap(v => [`vlan ${v}`, 'exit']), vlans.map(v => `no vlan ${v}`));
+            case 'vrp': return snippet(platform, [`vlan batch ${vlans.join(' ')}`], [`undo vlan batch ${vlans.join(' ')}`]);
+            case 'comware': return snippet(platform, [`vlan ${vlans.join(' ')}`, 'quit'], [`undo vlan ${vlans.join(' ')}`]);
+            case 'junos': return snippet(platform, vlans.map(v => `set vlans VLAN${v} vlan-id ${v}`), ['rollback 1']);
+        }
+    },
+};
+
+/**
+ * Builds the remediation snippet for a finding of the local security audit.
+ * @returns null when the rule has no vendor-correct fix for this platform.
+ */
+export const buildAuditRemediation = (ruleId: string, config: ParsedConfigData, details: AuditFindingDetails): RemediationSnippet | null => {
+    const platform = getPlatform(config);
+    const builder = AUDIT_REMEDIATIONS[ruleId];
+    return platform && builder ? builder(platform, config, details) : null;
+};
+
+/**
+ * Builds the remediation for a failed policy rule. The rule's remediation lines are applied
+ * globally, or inside every failing interface, VTY line or SVI depending on the rule scope.
+ */
+export const buildPolicyRemediation = (rule: PolicyRule, config: ParsedConfigData, failedTargets: string[]): RemediationSnippet | null => {
+    const platform = getPlatform(config);
+    if (!platform) return null;
+    const lines = rule.remediation.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    const exit = platform === 'vrp' || platform === 'comware' ? 'quit' : 'exit';
+    switch (rule.scope) {
+        case 'global': return snippet(platform, lines);
+        case 'interface': {
+            const ports = (config.ports || []).filter((p: PortConfig) => failedTargets.includes(p.port)).map(p => p.port);
+            return snippet(platform, forPorts(platform, ports, lines));
+        }
+        case 'line-vty': return snippet(platform, failedTargets.flatMap(target => [getVtyHeader(platform, target.replace(/^vty\s+/, '')), ...lines.map(l => ` ${l}`), exit]));
+        case 'svi': return snippet(platform, failedTargets.flatMap(target => [`interface ${target}`, ...lines.map(l => ` ${l}`), exit]));
+    }
+};
+
+const getCommentPrefix = (platform: Platform) => platform === 'ios' || platform === 'nxos' ? '!' : '#';
+
+const getModeWrappers = (platform: Platform): { enter: string[], leave: string[] } => {
+    switch (platform) {
+        case 'ios':
+        case 'nxos': return { enter: ['configure terminal'], leave: ['end', 'copy running-config startup-config'] };
+        case 'vrp':
+        case 'comware': return { enter: ['system-view'], leave: ['return', 'save'] };
+        case 'junos': return { enter: ['configure'], leave: ['commit check', 'commit'] };
+    }
+};
+
+/**
+ * Combines the remediation of every finding for one device into a single change script,
+ * followed by a rollback section that reverts the changes in reverse order.
+ */
+export const buildChangeScript = (config: ParsedConfigData, device: string, findings: AnalysisFinding[]): string => {
+    const platform = getPlatform(config);
+    const withSnippets = findings.filter(f => f.remediation && f.devicesInvolved.includes(device));
+    if (!platform || withSnippets.length === 0) return '';
+    const comment = getCommentPrefix(platform);
+    const { enter, leave } = getModeWrappers(platform);
+    // Junos applies the whole script in one commit, so undoing that commit is the exact rollback
+    const junosRollback = platform === 'junos';
+
+    return [
+        `${comment} Change script for ${device} (${PLATFORM_LABELS[platform]})`,
+        `${comment} Generated ${new Date().toISOString()}. Replace any <placeholders> before applying.`,
+        comment,
+        ...enter,
+        ...withSnippets.flatMap(f => [`${comment} [${f.severity}] ${f.description}`, ...f.remediation!.commands]),
+        ...leave,
+        comment,
+        `${comment} ---------- ROLLBACK ----------`,
+        comment,
+        ...(junosRollback
+            ? ['configure', 'rollback 1', 'commit']
+            : [...enter, ...[...withSnippets].reverse().flatMap(f => [`${comment} Revert: ${f.description}`, ...f.remediation!.rollback]), ...leave]),
+    ].join('\n');
+};
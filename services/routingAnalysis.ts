@@ -0,0 +1,71 @@
+import { ParsedConfigData } from '../types';
+import { ipToLong, isIPv4, prefixToMask } from './ipUtils';
+
+export interface ConnectedSubnet {
+    iface: string;
+    ip: string;
+    mask: string;
+    vrf?: string; // Omitted for the global routing table
+}
+
+export interface UnreachableNextHop {
+    nextHop: string;
+    vrf?: string;
+    rawConfig: string;
+}
+
+// "vrf forwarding X" / "ip vrf forwarding X" (IOS), "vrf member X" (NX-OS), "ip binding vpn-instance X" (VRP/Comware)
+const INTERFACE_VRF = /^(?:(?:ip\s+)?vrf\s+(?:forwarding|member)|ip\s+binding\s+vpn-instance)\s+(\S+)/;
+// "ip address A M", "ip address A/len" and the VRP/Comware "ip address A len", including secondaries
+const INTERFACE_ADDRESS = /^ip\s+address\s+([\d.]+)(?:\/(\d+)|\s+([\d.]+))/;
+
+const toMask = (value: string) => /^\d+$/.test(value) ? prefixToMask(parseInt(value, 10)) : value;
+
+/** IPv4 subnets the device is directly attached to, from its SVIs and routed interfaces. */
+export const getConnectedSubnets = (config: ParsedConfigData): ConnectedSubnet[] => {
+    const subnets: ConnectedSubnet[] = [];
+    const add = (iface: string, ip: string, mask: string, vrf?: string) => {
+        if (!isIPv4(ip) || !isIPv4(mask) || subnets.some(s => s.iface === iface && s.ip === ip && s.mask === mask)) return;
+        subnets.push(vrf ? { iface, ip, mask, vrf } : { iface, ip, mask });
+    };
+    const addFromLines = (iface: string, lines: string[], primary?: { ip: string, mask: string }) => {
+        const trimmed = lines.map(line => line.trim());
+        const vrf = trimmed.map(line => line.match(INTERFACE_VRF)).find(Boolean)?.[1];
+        if (primary) add(iface, primary.ip, primary.mask, vrf);
+        trimmed.forEach(line => {
+            const match = line.match(INTERFACE_ADDRESS);
+            if (match) add(iface, match[1], toMask(match[2] || match[3]), vrf);
+        });
+    };
+
+    (config.svis || []).forEach(svi => addFromLines(svi.svi, svi.rawConfig || [], { ip: svi.ipAddress, mask: svi.subnetMask }));
+    (config.ports || []).forEach(port => addFromLines(port.port, port.config));
+    return subnets;
+};
+
+const inSubnet = (address: string, subnet: ConnectedSubnet) => {
+    const mask = ipToLong(subnet.mask);
+    return ((ipToLong(address) & mask) >>> 0) === ((ipToLong(subnet.ip) & mask) >>> 0);
+};
+
+/**
+ * Static route next-hops (and the default gateway) that are not inside any connected subnet of
+ * the same VRF, so the device cannot resolve them. Devices without any parsed interface
+ * address are skipped, because every next-hop would be reported.
+ */
+export const findUnreachableNextHops = (config: ParsedConfigData): UnreachableNextHop[] => {
+    const subnets = getConnectedSubnets(config);
+    if (subnets.length === 0) return [];
+    const isConnected = (address: string, vrf?: string) => subnets.some(s => s.vrf === vrf && inSubnet(address, s));
+
+    const unreachable: UnreachableNextHop[] = (config.routing?.staticRoutes || [])
+        // An exit interface makes the next-hop resolvable through that interface; "global" resolves outside the VRF
+        .filter(route => route.nextHop && !route.interface && !/\sglobal(?:\s|$)/.test(route.rawConfig))
+        .filter(route => !isConnected(route.nextHop!, route.vrf))
+        .map(route => ({ nextHop: route.nextHop!, vrf: route.vrf, rawConfig: route.rawConfig }));
+    const gateway = config.routing?.defaultGateway;
+    if (gateway && isIPv4(gateway) && !isConnected(gateway)) {
+        unreachable.push({ nextHop: gateway, rawConfig: `ip default-gateway ${gateway}` });
+    }
+    return unreachable;
+};
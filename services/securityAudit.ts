@@ -0,0 +1,307 @@
+import { ParsedConfigData, AnalysisFinding, AuditFindingDetails, PortConfig, ConnectionInfo } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { getDeviceId } from './deviceIdentity';
+import { buildAuditRemediation } from './remediation';
+import { findShadowedEntries, findUndefinedAclBindings, findUnusedAcls, isPermitAnyAny, describeAclEntry } from './aclAnalysis';
+import { findUnreachableNextHops } from './routingAnalysis';
+import { findPortsInUndefinedVlans } from './interfaceAnalysis';
+
+interface AuditRule {
+    id: string;
+    type: AnalysisFinding['type'];
+    severity: AnalysisFinding['severity'];
+    description: string;
+    recommendation: string;
+    // Returns the details of the violation, or null when the device passes
+    check: (config: ParsedConfigData) => AuditFindingDetails | null;
+}
+
+// Per-port commands that enable port security or BPDU guard, across the supported vendors
+const PORT_SECURITY_PATTERNS = [/^\s*switchport\s+port-security\b/, /^\s*port-security\s+(enable|max-mac-num|mac-address|port-mode)\b/];
+const BPDU_GUARD_PATTERNS = [/^\s*spanning-tree\s+bpduguard\s+enable/, /^\s*spanning-tree\s+port\s+type\s+edge\s+bpduguard/];
+
+// Global commands that cover every edge/access port at once
+const GLOBAL_PORT_SECURITY_PATTERNS = [/\bsecure-access-port\s+interface\s+\S+\s+mac-limit\b/m, /^set\s+switch-options\s+interface\s+\S+\s+interface-mac-limit\b/m];
+const GLOBAL_BPDU_GUARD_PATTERNS = [
+    /^spanning-tree\s+portfast\s+(edge\s+)?bpduguard\s+default/m,
+    /^spanning-tree\s+port\s+type\s+edge\s+bpduguard\s+default/m,
+    /^\s*stp\s+bpdu-protection/m,
+    /\bbpdu-block-on-edge\b/m,
+];
+
+const DEFAULT_COMMUNITY_PATTERN = /\bcommunity\s+(?:(?:read|write)\s+)?(?:(?:cipher|simple)\s+)?(public|private)\b/i;
+
+const matchesAny = (line: string, patterns: RegExp[]) => patterns.some(pattern => pattern.test(line));
+
+const isMissing = (config: ParsedConfigData, item: string) => (config.security?.missing || []).includes(item);
+
+const getActiveAccessPorts = (config: ParsedConfigData): PortConfig[] => {
+    return (config.ports || []).filter(port => port.type === 'access' && port.status !== 'Disabled');
+};
+
+const getVtyLines = (config: ParsedConfigData): ConnectionInfo[] => {
+    return (config.connections || []).filter(line => line.type === 'vty');
+};
+
+// A community is protected when any of its lines references an ACL or client list
+const COMMUNITY_ACL_PATTERNS = [
+    /^community\s+\S+(?:\s+view\s+\S+)?\s+(?:RO|RW)\s+(?:ipv6\s+\S+\s+)?\S+/i, // Cisco IOS: community <name> RO <acl>
+    /^community\s+\S+\s+use-(?:ipv4)?acl\s+\S+/, // NX-OS
+    /\bacl\s+(?:name\s+)?\S+/, // Huawei/H3C
+    /^community\s+\S+\s+clients?\b/, // Junos
+];
+
+const getUnprotectedCommunities = (config: ParsedConfigData): string[] => {
+    const linesByCommunity = new Map<string, string[]>();
+    (config.snmp?.details || []).forEach(detail => {
+        const match = detail.match(/^community\s+(?:(?:read|write)\s+)?(?:(?:cipher|simple)\s+)?(\S+)/);
+        if (!match) return;
+        linesByCommunity.set(match[1], [...(linesByCommunity.get(match[1]) || []), detail]);
+    });
+    return Array.from(linesByCommunity.entries())
+        .filter(([, lines]) => !lines.some(line => matchesAny(line, COMMUNITY_ACL_PATTERNS)))
+        .map(([, lines]) => lines[0]);
+};
+
+const AUDIT_RULES: AuditRule[] = [
+    {
+        id: 'password_encryption',
+        type: 'Security Risk',
+        severity: 'High',
+        description: 'Passwords are stored in clear text',
+        recommendation: "Enable password encryption (e.g. 'service password-encryption' on Cisco IOS) and use hashed secrets for local users.",
+        check: config => isMissing(config, 'Password Encryption') ? { missing: 'Password Encryption' } : null,
+    },
+    {
+        id: 'http_server',
+        type: 'Security Risk',
+        severity: 'Medium',
+        description: 'HTTP/HTTPS management server is enabled',
+        recommendation: "Disable the web management server ('no ip http server' and 'no ip http secure-server' on Cisco IOS) unless it is required.",
+        check: config => isMissing(config, 'HTTP/HTTPS Server Disabled') ? { missing: 'HTTP/HTTPS Server Disabled' } : null,
+    },
+    {
+        id: 'ssh_disabled',
+        type: 'Security Risk',
+        severity: 'High',
+        description: 'SSH is not enabled for remote management',
+        recommendation: 'Generate an RSA key and enable SSH version 2 for remote management.',
+        check: config => isMissing(config, 'SSH Enabled') ? { missing: 'SSH Enabled' } : null,
+    },
+    {
+        id: 'vty_telnet',
+        type: 'Security Risk',
+        severity: 'High',
+        description: 'Telnet is allowed for remote management',
+        recommendation: "Restrict remote access to SSH ('transport input ssh' on Cisco, 'protocol inbound ssh' on Huawei).",
+        check: config => {
+            const lines = (config.connections || []).filter(line =>
+                line.type === 'telnet' ||
+                (line.type === 'vty' && line.config.some(c => /^\s*(transport\s+input|protocol\s+inbound)\s+(.*\btelnet\b|all)/.test(c)))
+            );
+            return lines.length > 0 ? { lines: lines.map(l => `${l.type} ${l.range}`) } : null;
+        },
+    },
+    {
+        id: 'vty_no_acl',
+        type: 'Security Risk',
+        severity: 'Medium',
+        description: 'VTY lines accept management sessions from any source',
+        recommendation: "Apply an access list to the VTY lines ('access-class <acl> in' on Cisco, 'acl <acl> inbound' on Huawei/H3C).",
+        check: config => {
+            const lines = getVtyLines(config).filter(line => !line.config.some(c => /^\s*(access-class\s+\S+\s+in|acl\s+\S+\s+inbound|ip\s+access-class\s+\S+\s+in)/.test(c)));
+            return lines.length > 0 ? { lines: lines.map(l => `vty ${l.range}`) } : null;
+        },
+    },
+    {
+        id: 'snmp_no_acl',
+        type: 'Security Risk',
+        severity: 'High',
+        description: 'SNMP communities are not restricted by an access list',
+        recommendation: 'Bind every SNMP community or user to an access list that only permits the network management stations.',
+        check: config => {
+            const communities = getUnprotectedCommunities(config);
+            return communities.length > 0 ? { communities } : null;
+        },
+    },
+    {
+        id: 'snmp_default_community',
+        type: 'Security Risk',
+        severity: 'Critical',
+        description: "SNMP uses a default community string ('public' or 'private')",
+        recommendation: 'Replace default community strings with unique values, or migrate to SNMPv3 with authentication and privacy.',
+        check: config => {
+            const communities = (config.snmp?.details || []).filter(detail => DEFAULT_COMMUNITY_PATTERN.test(detail));
+            return communities.length > 0 ? { communities } : null;
+        },
+    },
+    {
+        id: 'aaa_missing',
+        type: 'Best Practice',
+        severity: 'Medium',
+        description: 'AAA is not configured',
+        recommendation: 'Enable AAA and authenticate administrators against a central TACACS+/RADIUS server with a local fallback. Create a local administrator first if the device has none, or enabling AAA can lock out every login.',
+        check: config => config.aaa?.status !== 'Configured' ? { aaa: config.aaa?.status || 'Not configured' } : null,
+    },
+    {
+        id: 'port_security',
+        type: 'Security Risk',
+        severity: 'Medium',
+        description: 'Access ports without port security',
+        recommendation: 'Enable port security on access ports to limit the number of MAC addresses learned per port.',
+        check: config => {
+            if (GLOBAL_PORT_SECURITY_PATTERNS.some(p => p.test(config.rawConfig || ''))) return null;
+            const ports = getActiveAccessPorts(config).filter(port => !port.config.some(line => matchesAny(line, PORT_SECURITY_PATTERNS)));
+            return ports.length > 0 ? { ports: ports.map(p => p.port) } : null;
+        },
+    },
+    {
+        id: 'bpdu_guard',
+        type: 'Security Risk',
+        severity: 'Medium',
+        description: 'Access ports without BPDU guard',
+        recommendation: 'Enable BPDU guard on edge ports, either per port or as the global edge-port default.',
+        check: config => {
+            if (GLOBAL_BPDU_GUARD_PATTERNS.some(p => p.test(config.rawConfig || ''))) return null;
+            const ports = getActiveAccessPorts(config).filter(port => !port.config.some(line => matchesAny(line, BPDU_GUARD_PATTERNS)));
+            if (ports.length > 0) return { ports: ports.map(p => p.port) };
+            // Without access ports to inspect, fall back to the parser's global verdict
+            return getActiveAccessPorts(config).length === 0 && isMissing(config, 'BPDU Guard') ? { missing: 'BPDU Guard' } : null;
+        },
+    },
+    {
+        id: 'dhcp_snooping',
+        type: 'Best Practice',
+        severity: 'Low',
+        description: 'DHCP snooping is not enabled',
+        recommendation: 'Enable DHCP snooping on user VLANs and trust only the uplinks towards legitimate DHCP servers.',
+        check: config => isMissing(config, 'DHCP Snooping') && getActiveAccessPorts(config).length > 0 ? { missing: 'DHCP Snooping' } : null,
+    },
+    {
+        id: 'arp_inspection',
+        type: 'Best Practice',
+        severity: 'Low',
+        description: 'Dynamic ARP Inspection is not enabled',
+        recommendation: 'Enable Dynamic ARP Inspection on user VLANs once DHCP snooping is in place.',
+        check: config => isMissing(config, 'Dynamic ARP Inspection') && getActiveAccessPorts(config).length > 0 ? { missing: 'Dynamic ARP Inspection' } : null,
+    },
+    {
+        id: 'acl_shadowed_entries',
+        type: 'Conflict',
+        severity: 'Medium',
+        description: 'Access list entries are shadowed by earlier entries and never match',
+        recommendation: 'Remove the shadowed entries, or move them above the broader entry if they were meant to take effect.',
+        check: config => {
+            const entries = (config.accessLists || []).flatMap(acl => findShadowedEntries(acl)
+                .filter(issue => !issue.duplicate)
+                .map(issue => `${acl.name}: "${describeAclEntry(issue.entry)}" is shadowed by "${describeAclEntry(issue.coveredBy)}"${issue.entry.action !== issue.coveredBy.action ? ` (opposite action, ${issue.entry.action} never applies)` : ''}`));
+            return entries.length > 0 ? { entries } : null;
+        },
+    },
+    {
+        id: 'acl_duplicate_entries',
+        type: 'Best Practice',
+        severity: 'Low',
+        description: 'Access lists contain duplicate entries',
+        recommendation: 'Remove the duplicate entries to keep the access lists readable.',
+        check: config => {
+            const entries = (config.accessLists || []).flatMap(acl => findShadowedEntries(acl)
+                .filter(issue => issue.duplicate)
+                .map(issue => `${acl.name}: "${describeAclEntry(issue.entry)}" duplicates "${describeAclEntry(issue.coveredBy)}"`));
+            return entries.length > 0 ? { entries } : null;
+        },
+    },
+    {
+        id: 'acl_undefined',
+        type: 'Conflict',
+        severity: 'High',
+        description: 'Access lists are referenced but not defined',
+        recommendation: 'Define the missing access lists. An undefined ACL usually permits all traffic, so the intended filter is not in effect.',
+        check: config => {
+            const references = findUndefinedAclBindings(config).map(b => `${b.acl} (${b.target}: ${b.rawConfig})`);
+            return references.length > 0 ? { references } : null;
+        },
+    },
+    {
+        id: 'acl_unused',
+        type: 'Best Practice',
+        severity: 'Low',
+        description: 'Access lists are defined but not used',
+        recommendation: 'Remove unused access lists, or apply them where they were intended to filter traffic.',
+        check: config => {
+            const acls = findUnusedAcls(config).map(acl => acl.name);
+            return acls.length > 0 ? { acls } : null;
+        },
+    },
+    {
+        id: 'acl_permit_any',
+        type: 'Security Risk',
+        severity: 'Medium',
+        description: "Access lists contain 'permit any any' entries",
+        recommendation: 'Replace catch-all permits with entries for the sources, destinations and services that are actually required.',
+        check: config => {
+            const entries = (config.accessLists || []).flatMap(acl => acl.entries.filter(isPermitAnyAny).map(entry => `${acl.name}: ${describeAclEntry(entry)}`));
+            return entries.length > 0 ? { entries } : null;
+        },
+    },
+    {
+        id: 'static_route_next_hop',
+        type: 'Conflict',
+        severity: 'Medium',
+        description: 'Static route next-hops are not in any connected subnet',
+        recommendation: 'Correct the next-hop address, add the missing interface address, or give the route an exit interface so the next-hop can be resolved.',
+        check: config => {
+            const routes = findUnreachableNextHops(config).map(hop => hop.vrf ? `${hop.rawConfig} (VRF ${hop.vrf})` : hop.rawConfig);
+            return routes.length > 0 ? { routes } : null;
+        },
+    },
+    {
+        id: 'access_vlan_undefined',
+        type: 'Conflict',
+        severity: 'Medium',
+        description: 'Access ports are assigned to VLANs that are not defined',
+        recommendation: 'Create the missing VLANs or move the ports to an existing VLAN; a port in an undefined VLAN does not forward traffic.',
+        check: config => {
+            const missing = findPortsInUndefinedVlans(config);
+            if (missing.length === 0) return null;
+            const vlans = Array.from(new Set(missing.map(p => p.vlan))).sort((a, b) => Number(a) - Number(b));
+            return { vlans, ports: missing.map(p => `${p.port}: ${p.role} VLAN ${p.vlan}`) };
+        },
+    },
+];
+
+const toIdPart = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+/**
+ * Runs the deterministic security rules against one device. Finding IDs are derived from the rule
+ * and the device's inventory ID, so the same issue keeps the same ID across analysis runs and
+ * devices sharing a hostname still get distinct IDs.
+ */
+export const auditConfiguration = (config: ParsedConfigData): AnalysisFinding[] => {
+    const device = getDeviceLabel(config);
+    const deviceId = getDeviceId(config);
+    const findings: AnalysisFinding[] = [];
+    AUDIT_RULES.forEach(rule => {
+        const details = rule.check(config);
+        if (!details) return;
+        findings.push({
+            id: `audit_${rule.id}_${toIdPart(deviceId)}`,
+            type: rule.type,
+            severity: rule.severity,
+            description: `${rule.description} on ${device}`,
+            devicesInvolved: [device],
+            details,
+            recommendation: rule.recommendation,
+            remediation: buildAuditRemediation(rule.id, config, details) || undefined,
+        });
+    });
+    return findings;
+};
+
+/**
+ * Audits every device that was parsed locally. Gemini-parsed configurations carry no security
+ * or AAA settings, so the rules would report every check as missing on them.
+ */
+export const auditConfigurations = (configs: ParsedConfigData[]): AnalysisFinding[] => {
+    return configs.filter(config => config.security).flatMap(auditConfiguration);
+};
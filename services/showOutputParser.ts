@@ -0,0 +1,182 @@
+import { ParsedConfigData, OperationalState, InterfaceState } from '../types';
+import { shortInterfaceName } from './parserUtils';
+
+// Parsers for Cisco IOS / NX-OS show command output. Each one looks for its own table header
+// or signature, so the output can be pasted with or without the "HOST#show ..." prompts.
+
+const PROMPT = /^(\S+?)[#>]\s*sh(?:ow)?\s+\S/;
+const INTERFACE_NAME = /^[A-Za-z][\w\-/.:]*\d/;
+
+// Rows between a table header and the next blank line or prompt, without separator lines
+const tableRows = (lines: string[], header: RegExp): { header: string, rows: string[] } | null => {
+    const headerIndex = lines.findIndex(line => header.test(line));
+    if (headerIndex === -1) return null;
+    const rows: string[] = [];
+    for (const line of lines.slice(headerIndex + 1)) {
+        if (line.trim() === '' || PROMPT.test(line)) break;
+        if (/^[-\s]+$/.test(line)) continue;
+        rows.push(line);
+    }
+    return { header: lines[headerIndex], rows };
+};
+
+const getInterfaceState = (state: OperationalState, port: string): InterfaceState => {
+    const name = shortInterfaceName(port);
+    let existing = state.interfaces.find(i => i.port === name);
+    if (!existing) {
+        existing = { port: name };
+        state.interfaces.push(existing);
+    }
+    return existing;
+};
+
+const parseShowVersion = (text: string, state: OperationalState): boolean => {
+    const iosUptime = text.match(/^(\S+) uptime is (.+)$/m);
+    const nxosUptime = text.match(/^Kernel uptime is (.+)$/m);
+    if (!iosUptime && !nxosUptime) return false;
+
+    state.hostname = state.hostname || iosUptime?.[1] || text.match(/^\s*Device name:\s*(\S+)/m)?.[1];
+    state.uptime = (iosUptime ? iosUptime[2] : nxosUptime![1]).trim();
+    state.version = text.match(/^Cisco .*Software.*,\s*Version\s+([^\s,]+)/m)?.[1] || text.match(/^\s*(?:NXOS|system):\s+version\s+(\S+)/m)?.[1];
+    state.model = text.match(/^Model [Nn]umber\s*:\s*(\S+)/m)?.[1]
+        || text.match(/^cisco\s+(\S+)\s+\(.*\)\s+processor/m)?.[1]
+        || text.match(/^\s*cisco\s+(Nexus.*?)\s+[Cc]hassis/m)?.[1];
+    state.serialNumber = text.match(/^System [Ss]erial [Nn]umber\s*:\s*(\S+)/m)?.[1] || text.match(/^\s*Processor [Bb]oard ID\s+(\S+)/m)?.[1];
+    state.lastReloadReason = text.match(/^Last reload reason:\s*(.+)$/mi)?.[1].trim()
+        || text.match(/^System returned to ROM by\s+(.+)$/m)?.[1].trim()
+        || (nxosUptime ? text.match(/^\s*Reason:\s*(.+)$/m)?.[1].trim() : undefined);
+    return true;
+};
+
+const parseShowInventory = (text: string, state: OperationalState): boolean => {
+    const item = /^NAME:\s*"([^"]*)",\s*DESCR:\s*"([^"]*)"\s*\r?\n\s*PID:\s*([^,]*?)\s*,\s*VID:[^,]*,\s*SN:\s*(\S*)/gm;
+    let match: RegExpExecArray | null;
+    while ((match = item.exec(text))) {
+        state.inventory.push({ name: match[1], description: match[2], pid: match[3] || undefined, serial: match[4] || undefined });
+    }
+    return state.inventory.length > 0;
+};
+
+// Port, Name, Status, Vlan, Duplex, Speed, Type; the Name column is free text so the row is cut at the Status column
+const parseShowInterfacesStatus = (lines: string[], state: OperationalState): boolean => {
+    const table = tableRows(lines, /^Port\s+Name\s+Status\s+Vlan\s+Duplex\s+Speed/);
+    if (!table) return false;
+    const statusColumn = table.header.indexOf('Status');
+    table.rows.filter(row => INTERFACE_NAME.test(row)).forEach(row => {
+        const [status, vlan, duplex, speed, ...media] = row.slice(statusColumn).trim().split(/\s+/);
+        Object.assign(getInterfaceState(state, row.split(/\s+/)[0]), { status, vlan, duplex, speed, media: media.join(' ') || undefined });
+    });
+    return true;
+};
+
+const parseShowIpInterfaceBrief = (lines: string[], state: OperationalState): boolean => {
+    const ios = tableRows(lines, /^Interface\s+IP-Address\s+OK\?\s+Method\s+Status\s+Protocol/);
+    const nxos = tableRows(lines, /^Interface\s+IP Address\s+Interface Status/);
+    ios?.rows.forEach(row => {
+        const match = row.match(/^(\S+)\s+(\S+)\s+(?:YES|NO)\s+\S+\s+(.+?)\s+(up|down|deleted)\s*$/);
+        if (!match) return;
+        const iface = getInterfaceState(state, match[1]);
+        iface.status = iface.status || match[3];
+        iface.protocol = match[4];
+        if (match[2] !== 'unassigned') iface.ipAddress = match[2];
+    });
+    nxos?.rows.forEach(row => {
+        const match = row.match(/^(\S+)\s+(\S+)\s+protocol-(\w+)\/link-(\w+)\/admin-(\w+)/);
+        if (!match) return;
+        const iface = getInterfaceState(state, match[1]);
+        iface.status = iface.status || (match[5] === 'down' ? 'administratively down' : match[4]);
+        iface.protocol = match[3];
+        iface.ipAddress = match[2];
+    });
+    return !!(ios || nxos);
+};
+
+const parseShowVlanBrief = (lines: string[], state: OperationalState): boolean => {
+    const table = tableRows(lines, /^VLAN\s+Name\s+Status\s+Ports/);
+    if (!table) return false;
+    const toPorts = (list: string) => list.split(/,\s*/).map(p => p.trim()).filter(Boolean).map(shortInterfaceName);
+    table.rows.forEach(row => {
+        const match = row.match(/^(\d+)\s+(\S+)\s+(\S+)\s*(.*)$/);
+        if (match) {
+            state.vlans.push({ id: match[1], name: match[2], status: match[3], ports: toPorts(match[4]) });
+        } else if (/^\s+\S/.test(row) && state.vlans.length > 0) {
+            // Long port lists wrap onto indented lines
+            state.vlans[state.vlans.length - 1].ports.push(...toPorts(row));
+        }
+    });
+    return true;
+};
+
+/**
+ * Extracts operational state from pasted show command output: show version, show inventory,
+ * show interfaces status, show ip interface brief and show vlan brief.
+ * Returns null when none of them is found.
+ */
+export const parseShowOutputs = (content: string): OperationalState | null => {
+    const lines = content.split(/\r?\n/);
+    const state: OperationalState = { commands: [], interfaces: [], inventory: [], vlans: [] };
+    state.hostname = lines.map(line => line.match(PROMPT)).find(Boolean)?.[1];
+
+    if (parseShowVersion(content, state)) state.commands.push('show version');
+    if (parseShowInventory(content, state)) state.commands.push('show inventory');
+    if (parseShowInterfacesStatus(lines, state)) state.commands.push('show interfaces status');
+    if (parseShowIpInterfaceBrief(lines, state)) state.commands.push('show ip interface brief');
+    if (parseShowVlanBrief(lines, state)) state.commands.push('show vlan brief');
+    return state.commands.length > 0 ? state : null;
+};
+
+/** True for uploads that hold only show output, without a configuration to parse. */
+export const isShowOutputOnly = (content: string): boolean => {
+    return parseShowOutputs(content) !== null && !/^(?:hostname|sysname|interface)\s+\S/m.test(content);
+};
+
+export const describeLinkState = (iface: InterfaceState): string | undefined => {
+    // "show ip interface brief" reports line and protocol separately; "up/down" is worth seeing
+    if (iface.protocol && /^(?:up|down|administratively down)$/.test(iface.status || '') && iface.protocol !== iface.status) {
+        return `${iface.status}/${iface.protocol}`;
+    }
+    return iface.status;
+};
+
+// Show output for one device may arrive in several files
+const combineStates = (previous: OperationalState, added: OperationalState): OperationalState => {
+    const interfaces = previous.interfaces.map(i => ({ ...i }));
+    added.interfaces.forEach(iface => {
+        const existing = interfaces.find(i => i.port === iface.port);
+        if (existing) Object.assign(existing, Object.fromEntries(Object.entries(iface).filter(([, value]) => value !== undefined)));
+        else interfaces.push(iface);
+    });
+    return {
+        ...previous,
+        ...Object.fromEntries(Object.entries(added).filter(([, value]) => value !== undefined)),
+        commands: Array.from(new Set([...previous.commands, ...added.commands])),
+        interfaces,
+        inventory: added.inventory.length > 0 ? added.inventory : previous.inventory,
+        vlans: added.vlans.length > 0 ? added.vlans : previous.vlans,
+    };
+};
+
+/**
+ * Folds operational state into a parsed device: serial, uptime and model on the device,
+ * link state and speed/duplex on its ports, and port membership on its VLANs.
+ */
+export const mergeOperationalState = (config: ParsedConfigData, added: OperationalState): ParsedConfigData => {
+    const state = config.operational ? combineStates(config.operational, added) : added;
+    const chassis = state.inventory[0];
+    return {
+        ...config,
+        iosVersion: state.version || config.iosVersion,
+        modelNumber: state.model || chassis?.pid || config.modelNumber,
+        serialNumber: state.serialNumber || chassis?.serial || config.serialNumber,
+        uptime: state.uptime || config.uptime,
+        ports: config.ports?.map(port => {
+            const iface = state.interfaces.find(i => i.port === shortInterfaceName(port.port));
+            return iface ? { ...port, linkStatus: describeLinkState(iface), speed: iface.speed, duplex: iface.duplex } : port;
+        }),
+        vlans: config.vlans?.map(vlan => {
+            const membership = state.vlans.find(v => v.id === vlan.id);
+            return membership ? { ...vlan, status: membership.status, ports: membership.ports } : vlan;
+        }),
+        operational: state,
+    };
+};
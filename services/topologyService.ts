@@ -0,0 +1,331 @@
+import { ParsedConfigData, NeighborEntry, TopologyGraph, TopologyLink, TopologyLinkSource, TopologyNode } from '../types';
+import { getDeviceLabel } from './conflictDetector';
+import { ipToLong, longToIp, isIPv4, prefixToMask, ipv6PrefixBounds, formatIpv6 } from './ipUtils';
+import { shortInterfaceName } from './parserUtils';
+
+interface LinkObservation {
+    a: string;
+    aPort?: string;
+    b: string;
+    bPort?: string;
+    via: TopologyLinkSource;
+    detail: string;
+}
+
+interface InterfaceAddress {
+    device: string;
+    port: string;
+    subnet: string;
+}
+
+// A port name in free text: "Gi1/0/48", "ge-0/0/1", "Po10", "Eth-Trunk1"
+const INTERFACE_TOKEN = /^(?:[A-Za-z][A-Za-z-]*\d+(?:\/\d+)+(?:\.\d+)?|(?:po|port-channel|eth-trunk|bridge-aggregation|ae)\d+)$/i;
+
+/** Node ID for a device name as other devices report it: no domain, no CDP serial suffix, case-insensitive. */
+export const normalizeHostname = (name: string): string => {
+    return name.trim().replace(/\(.*\)$/, '').split('.')[0].toLowerCase();
+};
+
+// --- Neighbor output ---
+
+const CDP_DETAIL_MARKER = /^Device ID:/m;
+const LLDP_DETAIL_MARKER = /^System Name:/m;
+const BRIEF_ROW = /^(\S+)\s+([A-Za-z-]+\s?\d+(?:\/\d+)*)\s+.*?\s((?:[A-Za-z-]+\s?\d+(?:\/\d+)+)|\S+)\s*$/;
+
+const field = (block: string, pattern: RegExp): string | undefined => block.match(pattern)?.[1]?.trim();
+
+const parseCdpDetail = (text: string, localDevice: string): NeighborEntry[] => {
+    return text.split(/^-{5,}\s*$/m)
+        .filter(block => CDP_DETAIL_MARKER.test(block))
+        .flatMap(block => {
+            const neighbor = field(block, /^Device ID:\s*(\S+)/m);
+            const localPort = field(block, /^Interface:\s*([^,]+),/m);
+            if (!neighbor || !localPort) return [];
+            const neighborPort = field(block, /Port ID \(outgoing port\):\s*(.+)$/m);
+            return [{
+                protocol: 'CDP' as const,
+                localDevice,
+                localPort: shortInterfaceName(localPort),
+                neighbor,
+                neighborPort: neighborPort && shortInterfaceName(neighborPort),
+                platform: field(block, /^Platform:\s*([^,]+)/m),
+                address: field(block, /IP(?:v4)? [Aa]ddress:\s*(\S+)/),
+            }];
+        });
+};
+
+const parseLldpDetail = (text: string, localDevice: string): NeighborEntry[] => {
+    return text.split(/^-{5,}\s*$/m)
+        .filter(block => LLDP_DETAIL_MARKER.test(block))
+        .flatMap(block => {
+            const neighbor = field(block, /^System Name:\s*(\S+)/m);
+            const localPort = field(block, /^Local Intf:\s*(\S+)/m);
+            if (!neighbor || !localPort) return [];
+            const neighborPort = field(block, /^Port id:\s*(\S+)/m);
+            return [{
+                protocol: 'LLDP' as const,
+                localDevice,
+                localPort: shortInterfaceName(localPort),
+                neighbor,
+                neighborPort: neighborPort && shortInterfaceName(neighborPort),
+                address: field(block, /^\s*IP:\s*(\S+)/m),
+            }];
+        });
+};
+
+// "show cdp neighbors" / "show lldp neighbors" tables; long device IDs wrap onto their own line
+const parseBriefTable = (text: string, localDevice: string, protocol: NeighborEntry['protocol']): NeighborEntry[] => {
+    const lines = text.split(/\r?\n/);
+    const headerIndex = lines.findIndex(line => /^Device ID\s+Local Int(?:rfce|f)/i.test(line));
+    if (headerIndex === -1) return [];
+    const entries: NeighborEntry[] = [];
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        let line = lines[i];
+        if (line.trim() === '' || /^Total/i.test(line)) break;
+        if (/^\S+$/.test(line) && i + 1 < lines.length && /^\s/.test(lines[i + 1])) line = `${line} ${lines[++i].trim()}`;
+        const match = line.match(BRIEF_ROW);
+        if (match) entries.push({ protocol, localDevice, localPort: shortInterfaceName(match[2]), neighbor: match[1], neighborPort: shortInterfaceName(match[3]) });
+    }
+    return entries;
+};
+
+const parseNeighborSection = (text: string, localDevice: string, command: string): NeighborEntry[] => {
+    const protocol: NeighborEntry['protocol'] = /lldp/i.test(command) || (!/cdp/i.test(command) && LLDP_DETAIL_MARKER.test(text)) ? 'LLDP' : 'CDP';
+    if (CDP_DETAIL_MARKER.test(text)) return parseCdpDetail(text, localDevice);
+    if (LLDP_DETAIL_MARKER.test(text)) return parseLldpDetail(text, localDevice);
+    return parseBriefTable(text, localDevice, protocol);
+};
+
+/**
+ * Reads Cisco "show cdp neighbors [detail]" and "show lldp neighbors [detail]" output. A CLI prompt
+ * such as "CORE-SW1#show cdp neighbors detail" names the local device and starts a new section;
+ * output without a prompt is attributed to the given device.
+ */
+export const parseNeighborOutput = (text: string, defaultDevice: string): NeighborEntry[] => {
+    const prompt = /^(\S+?)[#>]\s*(show\s+.*)$/gm;
+    const sections: { device: string, command: string, text: string }[] = [];
+    let match: RegExpExecArray | null, last = { device: defaultDevice, command: '', start: 0 };
+    while ((match = prompt.exec(text))) {
+        sections.push({ device: last.device, command: last.command, text: text.slice(last.start, match.index) });
+        last = { device: match[1], command: match[2], start: match.index + match[0].length };
+    }
+    sections.push({ device: last.device, command: last.command, text: text.slice(last.start) });
+    return sections.flatMap(section => parseNeighborSection(section.text, section.device, section.command));
+};
+
+// --- Link inference ---
+
+const getInterfaceAddresses = (config: ParsedConfigData, device: string): InterfaceAddress[] => {
+    const addresses: InterfaceAddress[] = [];
+    // Only point-to-point prefixes identify a single link
+    const addIpv4 = (port: string, ip: string, length: number) => {
+        if (!isIPv4(ip) || length < 30 || length > 31) return;
+        addresses.push({ device, port, subnet: `${longToIp((ipToLong(ip) & ipToLong(prefixToMask(length))) >>> 0)}/${length}` });
+    };
+    const addIpv6 = (port: string, ip: string, length: number) => {
+        const bounds = length >= 126 ? ipv6PrefixBounds(ip, length) : null;
+        if (bounds) addresses.push({ device, port, subnet: `${formatIpv6(bounds[0])}/${length}` });
+    };
+
+    (config.svis || []).forEach(svi => {
+        const length = isIPv4(svi.subnetMask) ? ipToLong(svi.subnetMask).toString(2).replace(/0+$/, '').length : 0;
+        addIpv4(svi.svi, svi.ipAddress, length);
+        (svi.ipv6Addresses || []).forEach(a => addIpv6(svi.svi, a.address, a.prefixLength));
+    });
+    (config.ports || []).forEach(port => {
+        port.config.forEach(line => {
+            let match: RegExpMatchArray | null;
+            if ((match = line.match(/(?:^|\s)ip\s+address\s+(\d+\.\d+\.\d+\.\d+)(?:\/(\d+)|\s+(\d+\.\d+\.\d+\.\d+))(?!.*\b(?:secondary|sub)\b)/))) {
+                addIpv4(port.port, match[1], match[2] ? parseInt(match[2], 10) : ipToLong(match[3]).toString(2).replace(/0+$/, '').length);
+            } else if ((match = line.match(/\bfamily\s+inet\s+address\s+(\d+\.\d+\.\d+\.\d+)\/(\d+)/))) {
+                addIpv4(port.port, match[1], parseInt(match[2], 10));
+            } else if ((match = line.match(/(?:\bipv6\s+address|\bfamily\s+inet6\s+address)\s+([0-9a-fA-F:]+)\/(\d+)/))) {
+                addIpv6(port.port, match[1], parseInt(match[2], 10));
+            }
+        });
+    });
+    return addresses;
+};
+
+const subnetObservations = (configs: ParsedConfigData[]): LinkObservation[] => {
+    const bySubnet = new Map<string, InterfaceAddress[]>();
+    configs.forEach(config => {
+        const device = normalizeHostname(getDeviceLabel(config));
+        getInterfaceAddresses(config, device).forEach(address => bySubnet.set(address.subnet, [...(bySubnet.get(address.subnet) || []), address]));
+    });
+    return Array.from(bySubnet.entries())
+        .filter(([, ends]) => ends.length === 2 && ends[0].device !== ends[1].device)
+        .map(([subnet, [a, b]]) => ({ a: a.device, aPort: shortInterfaceName(a.port), b: b.device, bPort: shortInterfaceName(b.port), via: 'Shared subnet' as const, detail: `Subnet ${subnet}` }));
+};
+
+const descriptionObservations = (configs: ParsedConfigData[], labels: Map<string, string>): LinkObservation[] => {
+    return configs.flatMap(config => {
+        const device = normalizeHostname(getDeviceLabel(config));
+        return (config.ports || [])
+            .filter(port => port.description)
+            .flatMap(port => {
+                const tokens = port.description.split(/[\s,;:()[\]]+/).filter(Boolean);
+                for (let i = 0; i < tokens.length; i++) {
+                    const id = normalizeHostname(tokens[i].replace(/^(?:to|from)[-_]/i, ''));
+                    if (id === device || !labels.has(id)) continue;
+                    const remotePort = tokens[i + 1] && INTERFACE_TOKEN.test(tokens[i + 1]) ? shortInterfaceName(tokens[i + 1]) : undefined;
+                    return [{ a: device, aPort: shortInterfaceName(port.port), b: id, bPort: remotePort, via: 'Description' as const, detail: `${port.port}: "${port.description}"` }];
+                }
+                // Devices that were not uploaded are only trusted when a port name follows: "to DIST-SW9 Gi1/0/1"
+                const external = port.description.match(/\bto\s+([A-Za-z][\w.-]*)\s+(\S+)/i);
+                if (external && INTERFACE_TOKEN.test(external[2]) && normalizeHostname(external[1]) !== device) {
+                    labels.set(normalizeHostname(external[1]), labels.get(normalizeHostname(external[1])) || external[1]);
+                    return [{ a: device, aPort: shortInterfaceName(port.port), b: normalizeHostname(external[1]), bPort: shortInterfaceName(external[2]), via: 'Description' as const, detail: `${port.port}: "${port.description}"` }];
+                }
+                return [];
+            });
+    });
+};
+
+const neighborObservations = (neighbors: NeighborEntry[], labels: Map<string, string>): LinkObservation[] => {
+    return neighbors.map(entry => {
+        const id = normalizeHostname(entry.neighbor);
+        if (!labels.has(id)) labels.set(id, entry.neighbor.replace(/\(.*\)$/, '').split('.')[0]);
+        if (!labels.has(normalizeHostname(entry.localDevice))) labels.set(normalizeHostname(entry.localDevice), entry.localDevice);
+        return {
+            a: normalizeHostname(entry.localDevice),
+            aPort: entry.localPort,
+            b: id,
+            bPort: entry.neighborPort,
+            via: entry.protocol,
+            detail: [`${entry.protocol}: ${entry.localPort} -> ${entry.neighbor} ${entry.neighborPort || ''}`.trim(), entry.platform, entry.address].filter(Boolean).join(', '),
+        };
+    });
+};
+
+/**
+ * Infers the links between the loaded devices and merges what each source says about the same link.
+ * Member ports are folded into their port-channel, so a bundle shows as one link listing its members.
+ */
+export const buildTopology = (configs: ParsedConfigData[], neighbors: NeighborEntry[]): TopologyGraph => {
+    const labels = new Map<string, string>();
+    const nodes: TopologyNode[] = [];
+    configs.forEach((config, configIndex) => {
+        const id = normalizeHostname(getDeviceLabel(config));
+        if (labels.has(id)) return;
+        labels.set(id, getDeviceLabel(config));
+        nodes.push({ id, label: getDeviceLabel(config), vendor: config.vendor, configIndex });
+    });
+
+    // Port -> port-channel, per loaded device
+    const bundles = new Map<string, Map<string, string>>();
+    configs.forEach(config => {
+        const memberships = new Map<string, string>();
+        (config.ports || []).forEach(port => {
+            const bundle = port.members[0]?.split(' ')[0];
+            if (bundle) memberships.set(shortInterfaceName(port.port), shortInterfaceName(bundle));
+        });
+        bundles.set(normalizeHostname(getDeviceLabel(config)), memberships);
+    });
+
+    const observations = [
+        ...neighborObservations(neighbors, labels),
+        ...descriptionObservations(configs, labels),
+        ...subnetObservations(configs),
+    ];
+
+    const links: TopologyLink[] = [];
+    const compatible = (x?: string, y?: string) => !x || !y || x === y;
+    observations.forEach(observation => {
+        const ends = [
+            { device: observation.a, port: observation.aPort, members: [] as string[] },
+            { device: observation.b, port: observation.bPort, members: [] as string[] },
+        ];
+        let via: TopologyLinkSource[] = [observation.via];
+        ends.forEach(end => {
+            const bundle = end.port && bundles.get(end.device)?.get(end.port);
+            if (bundle) {
+                end.members = [end.port!];
+                end.port = bundle;
+                via = [...via, 'Port-channel'];
+            }
+        });
+
+        const existing = links.find(link =>
+            (link.source === ends[0].device && link.target === ends[1].device && compatible(link.sourcePort, ends[0].port) && compatible(link.targetPort, ends[1].port)) ||
+            (link.source === ends[1].device && link.target === ends[0].device && compatible(link.sourcePort, ends[1].port) && compatible(link.targetPort, ends[0].port)));
+        if (!existing) {
+            links.push({
+                source: ends[0].device, target: ends[1].device, sourcePort: ends[0].port, targetPort: ends[1].port,
+                sourceMembers: ends[0].members.length ? ends[0].members : undefined, targetMembers: ends[1].members.length ? ends[1].members : undefined,
+                via: Array.from(new Set(via)), details: [observation.detail],
+            });
+            return;
+        }
+        const [sourceEnd, targetEnd] = existing.source === ends[0].device ? ends : [ends[1], ends[0]];
+        existing.sourcePort = existing.sourcePort || sourceEnd.port;
+        existing.targetPort = existing.targetPort || targetEnd.port;
+        const mergeMembers = (current: string[] | undefined, added: string[]) => {
+            const merged = Array.from(new Set([...(current || []), ...added]));
+            return merged.length ? merged : undefined;
+        };
+        existing.sourceMembers = mergeMembers(existing.sourceMembers, sourceEnd.members);
+        existing.targetMembers = mergeMembers(existing.targetMembers, targetEnd.members);
+        existing.via = Array.from(new Set([...existing.via, ...via]));
+        if (!existing.details.includes(observation.detail)) existing.details.push(observation.detail);
+    });
+
+    labels.forEach((label, id) => {
+        if (!nodes.some(node => node.id === id) && links.some(link => link.source === id || link.target === id)) nodes.push({ id, label });
+    });
+    return { nodes, links };
+};
+
+/**
+ * Places the nodes with a Fruchterman-Reingold force layout. Starts from a circle, so the
+ * same graph always gets the same layout.
+ */
+export const layoutTopology = (graph: TopologyGraph, width: number, height: number, iterations = 300): Record<string, { x: number, y: number }> => {
+    const positions: Record<string, { x: number, y: number }> = {};
+    const count = graph.nodes.length;
+    if (count === 0) return positions;
+    const radius = Math.min(width, height) * 0.35;
+    graph.nodes.forEach((node, index) => {
+        const angle = (2 * Math.PI * index) / count;
+        positions[node.id] = { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) };
+    });
+    if (count === 1) return positions;
+
+    const k = Math.sqrt((width * height) / count) * 0.6;
+    for (let step = 0; step < iterations; step++) {
+        const temperature = (width / 10) * (1 - step / iterations);
+        const moves: Record<string, { x: number, y: number }> = {};
+        graph.nodes.forEach(node => { moves[node.id] = { x: 0, y: 0 }; });
+
+        graph.nodes.forEach((a, i) => {
+            graph.nodes.slice(i + 1).forEach(b => {
+                const dx = positions[a.id].x - positions[b.id].x, dy = positions[a.id].y - positions[b.id].y;
+                const distance = Math.max(Math.hypot(dx, dy), 0.01);
+                const force = (k * k) / distance;
+                moves[a.id].x += (dx / distance) * force; moves[a.id].y += (dy / distance) * force;
+                moves[b.id].x -= (dx / distance) * force; moves[b.id].y -= (dy / distance) * force;
+            });
+        });
+        graph.links.forEach(link => {
+            const a = positions[link.source], b = positions[link.target];
+            if (!a || !b || link.source === link.target) return;
+            const dx = a.x - b.x, dy = a.y - b.y;
+            const distance = Math.max(Math.hypot(dx, dy), 0.01);
+            const force = (distance * distance) / k;
+            moves[link.source].x -= (dx / distance) * force; moves[link.source].y -= (dy / distance) * force;
+            moves[link.target].x += (dx / distance) * force; moves[link.target].y += (dy / distance) * force;
+        });
+
+        graph.nodes.forEach(node => {
+            const move = moves[node.id];
+            // A light pull to the centre keeps disconnected devices on screen
+            move.x += (width / 2 - positions[node.id].x) * 0.05;
+            move.y += (height / 2 - positions[node.id].y) * 0.05;
+            const length = Math.max(Math.hypot(move.x, move.y), 0.01);
+            const position = positions[node.id];
+            position.x = Math.min(width - 60, Math.max(60, position.x + (move.x / length) * Math.min(length, temperature)));
+            position.y = Math.min(height - 40, Math.max(40, position.y + (move.y / length) * Math.min(length, temperature)));
+        });
+    }
+    return positions;
+};
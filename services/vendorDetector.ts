@@ -0,0 +1,113 @@
+import { VendorName, VendorDetectionResult, VendorScore } from '../types';
+
+interface VendorSignature {
+    vendor: VendorName;
+    os: string;
+    patterns: { pattern: RegExp, weight: number }[];
+}
+
+// Minimum score and share of the total score a vendor needs before detection is trusted
+const MIN_SCORE = 4;
+const MIN_CONFIDENCE = 0.6;
+
+const SIGNATURES: VendorSignature[] = [
+    {
+        vendor: VendorName.CISCO, os: 'IOS',
+        patterns: [
+            { pattern: /^hostname\s+\S+\s*$/m, weight: 2 },
+            // Interface names and "line vty 0 63" are shared with Comware and VRP; only the IOS sub-commands tell them apart
+            { pattern: /^line\s+vty\s+\d+\s+\d+\s*$(?:\n[ \t]+.*)*?\n[ \t]+transport\s+input\s/m, weight: 3 },
+            { pattern: /^service\s+(password-encryption|timestamps)/m, weight: 3 },
+            { pattern: /^enable\s+secret/m, weight: 3 },
+            { pattern: /^\s+switchport\s+(mode|access|trunk)\s/m, weight: 3 },
+            { pattern: /^\s+no\s+shutdown\s*$/m, weight: 1 },
+            { pattern: /^ip\s+(route|default-gateway|domain[\s-]name)\s+/m, weight: 1 },
+            { pattern: /^!\s*$/m, weight: 1 },
+            { pattern: /^end\s*$/m, weight: 1 },
+        ],
+    },
+    {
+        vendor: VendorName.CISCO, os: 'NX-OS',
+        patterns: [
+            { pattern: /^hostname\s+\S+\s*$/m, weight: 2 },
+            { pattern: /^!Command: show running-config/m, weight: 4 },
+            { pattern: /^feature\s+\S+/m, weight: 3 },
+            { pattern: /^vpc\s+domain\s+\d+/m, weight: 3 },
+            { pattern: /^boot\s+nxos\s+/m, weight: 4 },
+            { pattern: /^interface\s+Ethernet\d+\/\d+/m, weight: 2 },
+            { pattern: /^\s+ip\s+router\s+ospf\s+\S+\s+area\s+/m, weight: 2 },
+            { pattern: /^\s*switchport\s+mode\s+(access|trunk)/m, weight: 1 },
+        ],
+    },
+    {
+        vendor: VendorName.HUAWEI, os: 'VRP',
+        patterns: [
+            { pattern: /^\s*sysname\s+\S+/m, weight: 2 },
+            { pattern: /^!Software Version V\d{3}R/m, weight: 4 },
+            { pattern: /^\s*vlan\s+batch\s+/m, weight: 3 },
+            { pattern: /^interface\s+Vlanif\d+/m, weight: 3 },
+            { pattern: /^interface\s+Eth-Trunk\d+/m, weight: 3 },
+            { pattern: /^user-interface\s+(vty|con|console)\s+/m, weight: 3 },
+            { pattern: /^\s*stelnet\s+server\s+enable/m, weight: 2 },
+            { pattern: /^\s*port\s+link-type\s+/m, weight: 1 },
+            { pattern: /^\s*undo\s+/m, weight: 1 },
+            { pattern: /^return\s*$/m, weight: 1 },
+        ],
+    },
+    {
+        vendor: VendorName.H3C, os: 'Comware',
+        patterns: [
+            { pattern: /^\s*sysname\s+\S+/m, weight: 2 },
+            { pattern: /^\s*version\s+\d+\.\d+\.\d+,\s+Release/m, weight: 4 },
+            { pattern: /^interface\s+Vlan-interface\d+/m, weight: 3 },
+            { pattern: /^interface\s+(Bridge|Route)-Aggregation\d+/m, weight: 3 },
+            { pattern: /^\s*port\s+link-aggregation\s+group\s+\d+/m, weight: 3 },
+            { pattern: /^local-user\s+\S+\s+class\s+(manage|network)/m, weight: 3 },
+            { pattern: /^dhcp\s+server\s+ip-pool\s+/m, weight: 2 },
+            { pattern: /^\s*irf\s+/m, weight: 2 },
+            { pattern: /^\s*port\s+link-type\s+/m, weight: 1 },
+            { pattern: /^\s*undo\s+/m, weight: 1 },
+            { pattern: /^return\s*$/m, weight: 1 },
+        ],
+    },
+    {
+        vendor: VendorName.JUNIPER, os: 'Junos',
+        patterns: [
+            { pattern: /^set\s+(system|interfaces|vlans|protocols|routing-options|snmp)\s/m, weight: 4 },
+            { pattern: /^(system|interfaces|protocols|routing-options)\s*\{/m, weight: 4 },
+            { pattern: /host-name\s+\S+;/, weight: 3 },
+            { pattern: /^version\s+\S+;/m, weight: 3 },
+            { pattern: /\bfamily\s+(inet|ethernet-switching)\b/, weight: 2 },
+            { pattern: /\b(ge|xe|et)-\d+\/\d+\/\d+/, weight: 2 },
+            { pattern: /\birb\.\d+/, weight: 1 },
+        ],
+    },
+];
+
+/**
+ * Scores configuration text against the known vendor/OS signatures.
+ * @param configText The raw configuration file content.
+ * @returns The most likely vendor with a confidence value, or a null vendor when the result is ambiguous.
+ */
+export const detectVendor = (configText: string): VendorDetectionResult => {
+    const scores: VendorScore[] = SIGNATURES.map(signature => ({
+        vendor: signature.vendor,
+        os: signature.os,
+        score: signature.patterns.reduce((sum, { pattern, weight }) => sum + (pattern.test(configText) ? weight : 0), 0),
+    })).sort((a, b) => b.score - a.score);
+
+    // IOS and NX-OS share a parser, so confidence is measured between vendors, not OS variants
+    const bestPerVendor = new Map<VendorName, VendorScore>();
+    scores.forEach(s => {
+        if (!bestPerVendor.has(s.vendor)) bestPerVendor.set(s.vendor, s);
+    });
+    const vendorScores = Array.from(bestPerVendor.values());
+    const total = vendorScores.reduce((sum, s) => sum + s.score, 0);
+    const best = vendorScores[0];
+    const confidence = total > 0 ? best.score / total : 0;
+
+    if (best.score < MIN_SCORE || confidence < MIN_CONFIDENCE) {
+        return { vendor: null, confidence, scores };
+    }
+    return { vendor: best.vendor, os: best.os, confidence, scores };
+};
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { ParsedConfigData } from '../types';
+import { parseCiscoConfigLocal } from '../services/ciscoParser';
+
+const parseFixture = (name: string): ParsedConfigData => parseCiscoConfigLocal(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+const port = (config: ParsedConfigData, name: string) => config.ports!.find(p => p.port === name);
+const svi = (config: ParsedConfigData, name: string) => config.svis!.find(s => s.svi === name);
+
+describe('IOS access switch', () => {
+    const config = parseFixture('ios-access-switch.cfg');
+
+    it('reads the device details', () => {
+        expect(config.hostname).toBe('ACC-SW01');
+        expect(config.iosVersion).toBe('15.2');
+        expect(config.osDialect).toBe('IOS');
+    });
+
+    it('reads VLANs and SVIs', () => {
+        expect(config.vlans!.map(v => [v.id, v.name])).toEqual([['10', 'DATA'], ['20', 'VOICE'], ['99', 'MGMT']]);
+        expect(svi(config, 'Vlan1')).toMatchObject({ ipAddress: 'No IP address', status: 'Disabled' });
+        expect(svi(config, 'Vlan10')).toMatchObject({ vlanId: '10', ipAddress: '10.10.10.2', subnetMask: '255.255.255.0', ipHelperAddress: '10.1.1.20', status: 'Enabled' });
+        expect(svi(config, 'Vlan99')).toMatchObject({ ipAddress: '10.99.0.11', status: 'Enabled' });
+        expect(config.ipRanges!.map(r => r.network)).toEqual(['10.10.10.0', '10.99.0.0']);
+    });
+
+    it('tells "no shutdown" from "shutdown"', () => {
+        expect(port(config, 'GigabitEthernet1/0/1')!.status).toBe('Enabled');
+        expect(port(config, 'GigabitEthernet1/0/2')!.status).toBe('Disabled');
+    });
+
+    it('reads access, voice and trunk ports and port-channel membership', () => {
+        expect(port(config, 'GigabitEthernet1/0/1')).toMatchObject({ mode: 'access', accessVlan: '10', voiceVlan: '20', description: 'Desk 1-01' });
+        expect(port(config, 'GigabitEthernet1/0/48')).toMatchObject({ mode: 'trunk', allowedVlans: '10,20,99', members: ['Port-channel1 (active)'] });
+        expect(config.portChannels).toEqual(['Port-channel1']);
+        expect(config.uplinks).toEqual(expect.arrayContaining(['Port-channel1', 'GigabitEthernet1/0/48']));
+    });
+
+    it('keeps the banner text out of the configuration', () => {
+        expect(config.ports!.map(p => p.port)).toEqual(['GigabitEthernet1/0/1', 'GigabitEthernet1/0/2', 'GigabitEthernet1/0/48', 'Port-channel1']);
+        expect(config.connections!.map(c => [c.type, c.range])).toEqual([['con', '0'], ['vty', '0 4'], ['vty', '5 15']]);
+        expect(config.connections!.find(c => c.range === '0 4')!.usernames).toEqual(['netadmin']);
+    });
+
+    it('does not count negated commands as configured', () => {
+        // "no aaa new-model" leaves AAA off, and "no ip http server" alone still leaves the HTTPS server running
+        expect(config.aaa!.status).toBe('Not configured');
+        expect(config.security!.present).not.toContain('AAA Authentication');
+        expect(config.security!.missing).toContain('HTTP/HTTPS Server Disabled');
+    });
+
+    it('reports present and missing security features', () => {
+        expect(config.security!.present).toEqual(['Password Encryption', 'VTP Mode: transparent', 'SSH Enabled', 'Port Security on Access Ports', 'BPDU Guard']);
+        expect(config.security!.missing).toEqual(['VTP Mode: off', 'HTTP/HTTPS Server Disabled', 'DHCP Snooping', 'Dynamic ARP Inspection']);
+    });
+});
+
+describe('IOS config without "!" separators', () => {
+    const config = parseFixture('ios-no-separators.cfg');
+
+    it('ends each interface at the next top-level command', () => {
+        expect(config.ports!.map(p => [p.port, p.status, p.description])).toEqual([
+            ['GigabitEthernet0/0', 'Enabled', 'WAN'],
+            ['GigabitEthernet0/1', 'Disabled', 'LAN'],
+            ['GigabitEthernet0/2', 'Disabled', ''],
+        ]);
+        expect(port(config, 'GigabitEthernet0/1')!.config).not.toContain('ip http server');
+        expect(port(config, 'GigabitEthernet0/2')!.config).not.toContain('router ospf 1');
+    });
+
+    it('reads the routing and management blocks that follow the interfaces', () => {
+        expect(port(config, 'GigabitEthernet0/0')).toMatchObject({ mode: 'routed', ipAddress: '198.51.100.2', subnetMask: '255.255.255.252' });
+        expect(config.ospf!.networks).toEqual([{ network: '192.168.10.0', wildcard: '0.0.0.255', area: '0' }]);
+        expect(config.routing!.defaultRoute).toBe('198.51.100.1');
+        expect(config.connections!.map(c => [c.type, c.range])).toEqual([['vty', '0 4']]);
+    });
+
+    it('reports present and missing security features', () => {
+        expect(config.aaa!.status).toBe('Configured');
+        expect(config.security!.present).toEqual(['AAA Authentication', 'Password Encryption', 'SSH Enabled']);
+        expect(config.security!.missing).toContain('HTTP/HTTPS Server Disabled');
+    });
+});
+
+describe('"show running-config | section interface" output', () => {
+    const config = parseFixture('ios-show-run-section.txt');
+
+    it('reads every interface block', () => {
+        expect(config.svis!.map(s => [s.svi, s.ipAddress, s.status])).toEqual([
+            ['Vlan1', 'No IP address', 'Disabled'],
+            ['Vlan20', '10.20.0.1', 'Enabled'],
+        ]);
+        expect(config.ports!.map(p => [p.port, p.status, p.mode])).toEqual([
+            ['GigabitEthernet1/0/1', 'Enabled', 'access'],
+            ['GigabitEthernet1/0/2', 'Disabled', 'access'],
+            ['GigabitEthernet1/0/24', 'Enabled', 'trunk'],
+        ]);
+        expect(port(config, 'GigabitEthernet1/0/24')).toMatchObject({ nativeVlan: '999', allowedVlans: '20,30' });
+    });
+
+    it('reads no more than the section holds', () => {
+        expect(config.hostname).toBe('');
+        expect(config.vlans).toEqual([]);
+        expect(config.security!.present).toEqual([]);
+        expect(config.diagnostics!.unparsedBlocks).toEqual([]);
+    });
+
+    it('reports only the lines no extractor read', () => {
+        expect(config.diagnostics!.unmatchedLines).toEqual([{ line: 'no ip address', lineNumber: 2 }]);
+        expect(config.diagnostics!.coverage).toBe(95);
+    });
+});
+
+describe('NX-OS vPC leaf', () => {
+    const config = parseFixture('nxos-vpc.cfg');
+
+    it('detects the dialect and reads the feature list', () => {
+        expect(config.osDialect).toBe('NX-OS');
+        expect(config.hostname).toBe('N9K-LEAF1');
+        expect(config.iosVersion).toBe('9.3(8)');
+        expect(config.features).toEqual(['interface-vlan', 'hsrp', 'lacp', 'vpc', 'lldp']);
+    });
+
+    it('reads the vPC domain, peer-link and member port-channels', () => {
+        expect(config.vpc).toMatchObject({
+            domainId: '100',
+            rolePriority: '1000',
+            peerGateway: true,
+            peerKeepalive: { destination: '10.255.0.12', source: '10.255.0.11' },
+            peerLink: 'port-channel10',
+            memberPortChannels: [{ portChannel: 'port-channel20', vpcId: '20' }],
+        });
+        expect(port(config, 'Ethernet1/49')!.members).toEqual(['port-channel10 (active)']);
+        expect(config.portChannels).toEqual(['port-channel10', 'port-channel20']);
+    });
+
+    it('reads VLANs and SVIs with HSRP', () => {
+        expect(config.vlans!.map(v => [v.id, v.name])).toEqual([['1', 'Unnamed'], ['10', 'SERVERS'], ['20', 'STORAGE']]);
+        expect(svi(config, 'Vlan10')).toMatchObject({ ipAddress: '10.10.0.2', subnetMask: '255.255.255.0', status: 'Enabled' });
+        expect(svi(config, 'Vlan10')!.hsrp![0]).toMatchObject({ group: '10', virtualIp: '10.10.0.1' });
+    });
+
+    it('reads port states, including interfaces without configuration', () => {
+        expect(port(config, 'Ethernet1/1')!.status).toBe('Enabled');
+        expect(port(config, 'Ethernet1/10')!.status).toBe('Disabled');
+        expect(port(config, 'Ethernet1/11')!.status).toBe('N/A');
+        expect(port(config, 'mgmt0')).toMatchObject({ mode: 'routed', ipAddress: '10.255.0.11', vrf: 'management' });
+    });
+
+    it('reads static routes inside "vrf context"', () => {
+        expect(config.routing!.staticRoutes).toEqual([expect.objectContaining({ prefix: '0.0.0.0', mask: '0.0.0.0', nextHop: '10.255.0.1', vrf: 'management' })]);
+        expect(config.routing!.defaultRoute).toBe('');
+    });
+
+    it('reports present and missing security features', () => {
+        expect(config.security!.present).toEqual(['Password Encryption', 'VTP Mode: off', 'SSH Enabled', 'HTTP/HTTPS Server Disabled']);
+        expect(config.security!.missing).toEqual(['Port Security on Access Ports', 'BPDU Guard', 'DHCP Snooping', 'Dynamic ARP Inspection']);
+    });
+});
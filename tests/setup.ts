@@ -0,0 +1,4 @@
+import ipaddr from 'ipaddr.js';
+
+// index.html loads ipaddr.js from a CDN as a global, which the parsers rely on
+Object.assign(globalThis, { ipaddr });
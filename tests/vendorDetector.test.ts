@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { VendorName, VendorDetectionResult } from '../types';
+import { detectVendor } from '../services/vendorDetector';
+
+const detectFixture = (name: string): VendorDetectionResult => detectVendor(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+const score = (result: VendorDetectionResult, vendor: VendorName) => Math.max(...result.scores.filter(s => s.vendor === vendor).map(s => s.score));
+
+describe('vendor detection', () => {
+    it('detects a Huawei VRP switch', () => {
+        const result = detectFixture('vrp-access-switch.cfg');
+        expect(result).toMatchObject({ vendor: VendorName.HUAWEI, os: 'VRP' });
+        expect(score(result, VendorName.CISCO)).toBe(0);
+    });
+
+    it('detects an H3C Comware switch without local users', () => {
+        const result = detectFixture('comware-access-switch.cfg');
+        expect(result).toMatchObject({ vendor: VendorName.H3C, os: 'Comware' });
+        // GigabitEthernet interfaces and "line vty 0 63" are Comware syntax too
+        expect(score(result, VendorName.CISCO)).toBe(0);
+    });
+
+    it('detects a Junos switch', () => {
+        expect(detectFixture('junos-access-switch.conf')).toMatchObject({ vendor: VendorName.JUNIPER, os: 'Junos' });
+    });
+
+    it('still detects IOS and NX-OS', () => {
+        expect(detectFixture('ios-access-switch.cfg')).toMatchObject({ vendor: VendorName.CISCO, os: 'IOS' });
+        expect(detectFixture('ios-show-run-section.txt')).toMatchObject({ vendor: VendorName.CISCO, os: 'IOS' });
+        expect(detectFixture('nxos-vpc.cfg')).toMatchObject({ vendor: VendorName.CISCO, os: 'NX-OS' });
+    });
+});
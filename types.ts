@@ -15,11 +15,32 @@ export interface SupportedVendor {
   logo: string;
 }
 
+export interface VendorScore {
+  vendor: VendorName;
+  os: string;
+  score: number;
+}
+
+export interface VendorDetectionResult {
+  vendor: VendorName | null; // null when the content is ambiguous
+  os?: string;
+  confidence: number; // 0..1
+  scores: VendorScore[];
+}
+
 export interface UploadedFile {
   id: string;
   name: string;
   content: string;
   vendor: VendorName;
+  vendorSource?: 'detected' | 'manual' | 'inventory';
+  detection?: VendorDetectionResult;
+  vendorWarning?: string;
+}
+
+export interface FileParseStatus {
+  state: 'pending' | 'parsing' | 'done' | 'error';
+  error?: string;
 }
 
 // --- DATA STRUCTURES FROM CISCO PARSER ---
@@ -31,6 +52,36 @@ export interface PortConfig {
     status: string;
     config: string[];
     members: string[];
+    linkStatus?: string; // Operational state from show output, e.g. "connected" or "up/down"
+    speed?: string;
+    duplex?: string;
+    // Parsed from the configuration
+    mode?: 'access' | 'trunk' | 'hybrid' | 'routed';
+    accessVlan?: string;
+    voiceVlan?: string;
+    nativeVlan?: string;
+    allowedVlans?: string; // e.g. "10,20,30-40" or "none"; omitted when a trunk carries all VLANs
+    configuredSpeed?: string;
+    configuredDuplex?: string;
+    ipAddress?: string;
+    subnetMask?: string;
+    vrf?: string;
+    parentInterface?: string; // For subinterfaces such as "Gi0/0.100"
+    encapsulationVlan?: string; // dot1Q tag of a subinterface
+}
+
+export interface HsrpGroup {
+    group: string;
+    version?: string;
+    virtualIp: string;
+    priority?: string;
+    preempt: boolean;
+}
+
+export interface Ipv6Address {
+    address: string;
+    prefixLength: number;
+    eui64?: boolean; // The address is only the prefix, the interface ID is derived from the MAC
 }
 
 export interface SviInfo {
@@ -41,6 +92,11 @@ export interface SviInfo {
     ipHelperAddress: string;
     status: string;
     additionalInfo: string;
+    hsrp?: HsrpGroup[];
+    ipv6Enabled?: boolean;
+    ipv6Addresses?: Ipv6Address[];
+    ipv6LinkLocal?: string;
+    ipv6DhcpRelay?: string[];
     rawConfig?: string[];
 }
 
@@ -48,6 +104,8 @@ export interface VlanMapInfo {
     id: string;
     name: string;
     rawConfig?: string[];
+    status?: string; // From "show vlan brief"
+    ports?: string[];
 }
 
 export interface IpRangeInfo {
@@ -62,6 +120,8 @@ export interface IpRangeInfo {
     usableAddresses: number;
     gateway: string;
     status: string;
+    ipVersion?: 4 | 6; // Omitted for IPv4
+    prefixLength?: number;
 }
 
 export interface OspfNetwork {
@@ -70,6 +130,16 @@ export interface OspfNetwork {
     area: string;
 }
 
+export interface Ospfv3Info {
+    status: 'Configured' | 'Not configured';
+    processId?: string;
+    routerId?: string;
+    interfaces: { iface: string, area: string }[];
+    passiveInterfaces: string[];
+    details: string[];
+    rawConfig: string[];
+}
+
 export interface OspfInfo {
     status: 'Configured' | 'Not configured';
     processId?: string;
@@ -80,12 +150,98 @@ export interface OspfInfo {
     rawConfig: string[];
 }
 
+export interface EigrpInfo {
+    process: string; // As written after "router eigrp": an AS number, or a name in named mode
+    asNumber?: string;
+    vrf?: string;
+    routerId?: string;
+    networks: { network: string, wildcard?: string }[];
+    interfaces: string[]; // Enabled per interface (NX-OS "ip router eigrp")
+    passiveInterfaces: string[];
+    redistribute: string[];
+    details: string[];
+    rawConfig: string[];
+}
+
+export interface BgpNeighbor {
+    address: string; // Address, or the name of a peer group / NX-OS peer template
+    vrf?: string;
+    remoteAs?: string;
+    description?: string;
+    updateSource?: string;
+    peerGroup?: string; // Peer group or template the neighbor inherits from
+    isPeerGroup?: boolean;
+    routeMapIn?: string;
+    routeMapOut?: string;
+    shutdown?: boolean;
+    addressFamilies: string[];
+}
+
+export interface BgpAddressFamily {
+    name: string; // e.g. "ipv4 unicast", "ipv4 vrf CUSTOMER"
+    networks: string[];
+    redistribute: string[];
+    details: string[];
+}
+
+export interface BgpInfo {
+    asNumber: string;
+    routerId?: string;
+    neighbors: BgpNeighbor[];
+    addressFamilies: BgpAddressFamily[];
+    details: string[];
+    rawConfig: string[];
+}
+
 
 export interface SnmpAcl {
     name: string;
     rules: string[];
 }
 
+export interface AclAddress {
+    any?: boolean;
+    host?: string;
+    network?: string; // With wildcard, or a CIDR prefix on NX-OS
+    wildcard?: string;
+    objectGroup?: string;
+    text: string; // As written, e.g. "10.1.1.0 0.0.0.255"
+}
+
+export interface AclPortMatch {
+    operator: 'eq' | 'neq' | 'lt' | 'gt' | 'range';
+    ports: string[]; // Numbers or Cisco port names such as "www"
+}
+
+export interface AclEntry {
+    sequence?: number;
+    action: 'permit' | 'deny';
+    protocol: string; // "ip" for standard ACLs
+    source: AclAddress;
+    sourcePort?: AclPortMatch;
+    destination?: AclAddress; // Omitted for standard ACLs
+    destinationPort?: AclPortMatch;
+    options: string[]; // e.g. "log", "established", ICMP types
+    rawConfig: string;
+}
+
+export interface AccessList {
+    name: string; // Name, or number for numbered ACLs
+    type: 'standard' | 'extended';
+    numbered: boolean;
+    entries: AclEntry[];
+    remarks: string[];
+    rawConfig: string[];
+}
+
+export interface AclBinding {
+    acl: string;
+    kind: 'interface' | 'line' | 'snmp' | 'other';
+    target: string; // e.g. "GigabitEthernet1/0/1", "vty 0 4", "community public", "route-map PBR"
+    direction?: 'in' | 'out';
+    rawConfig: string;
+}
+
 export interface SnmpInfo {
     status: string;
     details: string[];
@@ -112,20 +268,118 @@ export interface ConnectionInfo {
     usernames: string[];
 }
 
+export interface StaticRoute {
+    prefix: string;
+    mask: string;
+    nextHop?: string;
+    interface?: string; // Exit interface, or a discard target such as Null0
+    vrf?: string; // Omitted for the global routing table
+    distance?: number; // Administrative distance, when set on the route
+    name?: string;
+    tag?: string;
+    track?: string; // Tracked object, e.g. "10" or "bfd-session ISP"
+    permanent?: boolean;
+    rawConfig: string;
+}
+
+export interface Ipv6StaticRoute {
+    prefix: string; // CIDR, e.g. "2001:db8:100::/48"
+    nextHop?: string;
+    interface?: string;
+    rawConfig: string;
+}
+
 export interface RoutingInfo {
     defaultGateway: string;
     defaultRoute: string;
+    staticRoutes?: StaticRoute[];
+    ipv6StaticRoutes?: Ipv6StaticRoute[];
+}
+
+export interface VpcInfo {
+    domainId: string;
+    rolePriority?: string;
+    systemPriority?: string;
+    peerLink?: string;
+    peerKeepalive?: {
+        destination: string;
+        source?: string;
+        vrf?: string;
+    };
+    peerGateway: boolean;
+    memberPortChannels: { portChannel: string, vpcId: string }[];
+    rawConfig: string[];
 }
 
+export type CiscoDialect = 'IOS' | 'NX-OS';
+
 export interface SecurityCompliance {
     present: string[];
     missing: string[];
 }
 
+// --- OPERATIONAL STATE (show command output) ---
+
+export interface InterfaceState {
+    port: string; // Short name, e.g. "Gi1/0/1"
+    status?: string; // "connected", "notconnect", "err-disabled", or "up", "down", "administratively down"
+    protocol?: string;
+    vlan?: string;
+    duplex?: string;
+    speed?: string;
+    media?: string;
+    ipAddress?: string;
+}
+
+export interface InventoryItem {
+    name: string;
+    description: string;
+    pid?: string;
+    serial?: string;
+}
+
+export interface VlanMembership {
+    id: string;
+    name: string;
+    status: string;
+    ports: string[];
+}
+
+export interface OperationalState {
+    commands: string[]; // Show commands that were recognized, e.g. "show version"
+    hostname?: string; // From the CLI prompt or "show version"
+    version?: string;
+    model?: string;
+    serialNumber?: string;
+    uptime?: string;
+    lastReloadReason?: string;
+    interfaces: InterfaceState[];
+    inventory: InventoryItem[];
+    vlans: VlanMembership[];
+}
+
+export interface ConfigLineRef {
+    line: string;
+    lineNumber?: number; // 1-based; unknown for Junos hierarchies, which are read as flattened set statements
+}
+
+export interface ParserWarning extends Partial<ConfigLineRef> {
+    message: string;
+}
+
+export interface ParserDiagnostics {
+    totalLines: number; // Without blank, comment and separator lines
+    unparsedBlocks: { header: string, lineNumber?: number, lineCount: number }[]; // Top-level blocks of which no extractor read a line
+    unmatchedLines: ConfigLineRef[]; // Every line no extractor reads, including those of unparsed blocks
+    warnings: ParserWarning[];
+    coverage: number; // Percentage of totalLines that an extractor reads
+}
+
 // Re-defining the core data structure to be richer
 export interface ParsedConfigData {
   // --- METADATA ---
   fileName?: string;
+  deviceId?: string; // ID of the upload the device was parsed from, see getDeviceId
   vendor?: VendorName;
   rawConfig?: string;
 
@@ -133,6 +387,10 @@ export interface ParsedConfigData {
   hostname?: string;
   iosVersion?: string;
   modelNumber?: string;
+  serialNumber?: string;
+  uptime?: string;
+  osDialect?: CiscoDialect;
+  features?: string[];
   
   vlans?: VlanMapInfo[];
   svis?: SviInfo[];
@@ -144,6 +402,10 @@ export interface ParsedConfigData {
   
   routing?: RoutingInfo;
   ospf?: OspfInfo;
+  ospfv3?: Ospfv3Info;
+  eigrp?: EigrpInfo[];
+  bgp?: BgpInfo;
+  vpc?: VpcInfo;
   
   dhcpPools?: DhcpPoolInfo[];
   other?: {
@@ -159,7 +421,13 @@ export interface ParsedConfigData {
 
   security?: SecurityCompliance;
 
-  // --- LEGACY/GEMINI PARSED DATA (for other vendors) ---
+  accessLists?: AccessList[];
+  aclBindings?: AclBinding[];
+
+  operational?: OperationalState; // Only when show command output was uploaded
+  diagnostics?: ParserDiagnostics; // Local parsers only
+
+  // --- LEGACY GEMINI DATA (only on devices saved before the Gemini parser returned the typed fields above) ---
   deviceInfo?: any;
   interfaces?: any[];
   vlansSvis?: any[];
@@ -168,6 +436,12 @@ export interface ParsedConfigData {
 }
 
 
+export interface RemediationSnippet {
+  platform: string; // e.g. "Cisco IOS", "Huawei VRP"
+  commands: string[];
+  rollback: string[];
+}
+
 export interface AnalysisFinding {
   id: string;
   type: 'Conflict' | 'Suggestion' | 'Security Risk' | 'Best Practice';
@@ -176,9 +450,204 @@ export interface AnalysisFinding {
   details: any;
   recommendation: string;
   severity: 'Critical' | 'High' | 'Medium' | 'Low' | 'Info';
+  remediation?: RemediationSnippet; // Only for findings from local rules
+}
+
+// Details of a local security audit finding; each rule fills only the fields it reports
+export interface AuditFindingDetails {
+  missing?: string; // Item of security.missing the rule is based on
+  lines?: string[]; // "vty 0 4", "telnet ..."
+  communities?: string[];
+  aaa?: string;
+  ports?: string[];
+  entries?: string[];
+  references?: string[];
+  acls?: string[];
+  routes?: string[];
+  vlans?: string[];
+}
+
+// --- COMPLIANCE POLICY PACKS ---
+
+export type PolicyScope = 'global' | 'interface' | 'line-vty' | 'svi';
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  severity: AnalysisFinding['severity'];
+  scope: PolicyScope;
+  interfaceMode?: string; // Only for 'interface' scope, e.g. "access" or "trunk"
+  vendors?: VendorName[]; // Omitted means every vendor
+  os?: string[]; // e.g. ["IOS"] to skip NX-OS; omitted means every OS of the listed vendors
+  required?: string[]; // Regular expressions that must match at least one line of each target
+  forbidden?: string[]; // Regular expressions that must not match any line of a target
+  remediation: string;
+}
+
+export interface PolicyPack {
+  id: string;
+  name: string;
+  version?: string;
+  description?: string;
+  rules: PolicyRule[];
+}
+
+export interface PolicyRuleResult {
+  ruleId: string;
+  description: string;
+  severity: AnalysisFinding['severity'];
+  status: 'pass' | 'fail' | 'not-applicable';
+  failures: string[]; // One entry per failing target, e.g. "GigabitEthernet1/0/1: missing ..."
+  failedTargets: string[];
+  remediation: string;
+}
+
+export interface PolicyEvaluation {
+  packId: string;
+  packName: string;
+  results: PolicyRuleResult[];
+}
+
+// --- IP ADDRESS MANAGEMENT ---
+
+export type IpamSource = 'SVI' | 'DHCP Pool' | 'Static Route' | 'OSPF Network' | 'Derived';
+
+export interface IpamPrefix {
+  device: string;
+  source: IpamSource;
+  name: string; // SVI, pool name, route next-hop or OSPF area
+  cidr: string;
+  start: number; // First and last address as unsigned 32-bit numbers
+  end: number;
+  ipAddress?: string; // Interface address, SVIs only
+}
+
+export interface IpamOverlap {
+  a: IpamPrefix;
+  b: IpamPrefix;
+  kind: 'identical' | 'overlap';
+}
+
+export interface IpamDhcpPoolCheck {
+  device: string;
+  pool: string;
+  network?: string;
+  defaultRouter?: string;
+  matchingSvi?: string; // "<device> <svi>"
+  issues: string[];
+}
+
+export interface IpamHelperTarget {
+  device: string;
+  svi: string;
+  subnet: string;
+  helper: string;
+  hostedBy?: string; // Loaded device that owns the helper address
+  servingPool?: string; // Loaded DHCP pool that covers the SVI subnet
+}
+
+export interface IpamFreeBlock {
+  cidr: string;
+  start: number;
+  end: number;
+}
+
+export interface IpamSupernet {
+  prefix: IpamPrefix;
+  used: IpamPrefix[];
+  free: IpamFreeBlock[];
+  omittedFreeBlocks: number; // Free blocks beyond the display limit
+  utilization: number; // Percentage of addresses covered by used prefixes
+}
+
+export interface IpamReport {
+  prefixes: IpamPrefix[];
+  overlaps: IpamOverlap[];
+  dhcpPools: IpamDhcpPoolCheck[];
+  helpers: IpamHelperTarget[];
+  supernets: IpamSupernet[];
+}
+
+// --- TOPOLOGY ---
+
+export type TopologyLinkSource = 'Shared subnet' | 'Description' | 'Port-channel' | 'CDP' | 'LLDP';
+
+export interface NeighborEntry {
+  protocol: 'CDP' | 'LLDP';
+  localDevice: string;
+  localPort: string;
+  neighbor: string;
+  neighborPort?: string;
+  platform?: string;
+  address?: string;
+}
+
+export interface TopologyNode {
+  id: string; // Normalized hostname, shared by every source that names the device
+  label: string;
+  vendor?: VendorName;
+  configIndex?: number; // Index into the loaded configurations; omitted for neighbors that were not uploaded
+}
+
+export interface TopologyLink {
+  source: string; // Node IDs
+  target: string;
+  sourcePort?: string;
+  targetPort?: string;
+  sourceMembers?: string[]; // Member ports when the link is a port-channel
+  targetMembers?: string[];
+  via: TopologyLinkSource[];
+  details: string[];
+}
+
+export interface TopologyGraph {
+  nodes: TopologyNode[];
+  links: TopologyLink[];
+}
+
+// --- LOCAL PERSISTENCE (IndexedDB) ---
+
+export interface StoredDevice {
+  id: string; // ID generated for the upload, so every uploaded file is its own entry and re-parsing it updates that entry
+  hostname: string;
+  vendor: VendorName;
+  osVersion?: string;
+  model?: string;
+  fileName?: string;
+  lastParsed: string; // ISO timestamp
+  rawConfig: string;
+  parsed: ParsedConfigData;
+}
+
+export interface AnalysisRun {
+  id: string;
+  timestamp: string; // ISO timestamp
+  deviceIds: string[];
+  findingCount: number;
+}
+
+export interface StoredFinding extends AnalysisFinding {
+  key: string; // `${runId}:${id}`, finding IDs are only unique within a run
+  runId: string;
+  deviceIds: string[];
 }
 
 export interface PieChartData {
   name: string;
   value: number;
-}
\ No newline at end of file
+}
+
+export interface ConfigDiffEntry {
+  section: string;
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+export interface UnifiedDiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
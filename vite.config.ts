@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
@@ -12,6 +13,10 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
       }
     };
 });